@@ -53,6 +53,7 @@ export default defineConfig({
         items: [
           { text: "Scaling recipes", link: "/examples-scaling-recipes" }, 
           { text: "Creating a shopping list", link: "/examples-shopping-lists" },
+          { text: "Managing a recipe collection", link: "/examples-recipe-collections" },
         ],
         collapsed: true
       },
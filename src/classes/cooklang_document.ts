@@ -0,0 +1,430 @@
+import { Recipe } from "./recipe";
+import type {
+  CstNode,
+  CstIngredientNode,
+  CstCookwareNode,
+  CstTimerNode,
+  ParseOptions,
+} from "../types";
+import {
+  metadataRegex,
+  commentRegex,
+  blockCommentRegex,
+  tokensRegex,
+  ingredientAliasRegex,
+} from "../regex";
+import {
+  createMappedText,
+  removeMatchesFromMappedText,
+  getLineStarts,
+  createSourceSpan,
+} from "../parser_helpers";
+
+/**
+ * Lossless concrete syntax tree of a cooklang recipe, used for round-trip editing.
+ *
+ * ## Usage
+ *
+ * Contrary to a {@link Recipe}, a `CooklangDocument` preserves every byte of the original content,
+ * including comments, spacing, line breaks and the exact spelling of quantities. The content is
+ * split into a flat list of {@link CooklangDocument.nodes | nodes}, using the same grammar as the
+ * recipe parser.
+ *
+ * Ingredient, cookware and timer nodes can be edited with the update methods (e.g.
+ * {@link CooklangDocument.updateIngredient | updateIngredient()}), which only rewrite the edited
+ * token. The document can then be printed back with {@link CooklangDocument.toString | toString()},
+ * or parsed into a recipe with {@link CooklangDocument.toRecipe | toRecipe()}.
+ *
+ * @example
+ * ```typescript
+ * import { CooklangDocument } from @tmlmt/cooklang-parser;
+ *
+ * const doc = new CooklangDocument(`-- Grandma's recipe
+ * Mix @flour{1,5%kg} with @eggs{3}`);
+ * const [flour] = doc.findIngredients("flour");
+ * doc.updateIngredient(flour!, { quantity: "2" });
+ * doc.renameIngredient("eggs", "duck eggs");
+ * doc.toString();
+ * // -- Grandma's recipe
+ * // Mix @flour{2%kg} with @duck eggs{3}
+ * ```
+ *
+ * @category Classes
+ */
+export class CooklangDocument {
+  /**
+   * The nodes of the document, in order of appearance.
+   */
+  nodes: CstNode[] = [];
+
+  /**
+   * Creates a new CooklangDocument instance.
+   * @param content - The recipe content to parse.
+   */
+  constructor(content?: string) {
+    if (content) {
+      this.parse(content);
+    }
+  }
+
+  /**
+   * Parses a recipe content into property {@link CooklangDocument.nodes | nodes}
+   * @param content - The recipe content to parse.
+   */
+  parse(content: string) {
+    const lineStarts = getLineStarts(content);
+    const toNode = <T extends CstNode>(
+      node: Omit<T, "raw" | "span">,
+      start: number,
+      end: number,
+    ): T =>
+      ({
+        ...node,
+        raw: content.slice(start, end),
+        span: createSourceSpan(lineStarts, start, end),
+      }) as T;
+
+    // Finding the parts removed by the recipe parser, in the same order
+    const removed: {
+      type: "frontMatter" | "comment" | "blockComment";
+      start: number;
+      end: number;
+    }[] = [];
+    let mappedContent = createMappedText(content);
+    for (const [type, regex] of [
+      ["frontMatter", metadataRegex],
+      ["comment", commentRegex],
+      ["blockComment", blockCommentRegex],
+    ] as const) {
+      const matches = regex.global
+        ? [...mappedContent.text.matchAll(regex)]
+        : [mappedContent.text.match(regex)].filter((m) => m !== null);
+      for (const match of matches) {
+        removed.push({
+          type,
+          start: mappedContent.offsets[match.index!]!,
+          end: mappedContent.offsets[match.index! + match[0].length - 1]! + 1,
+        });
+      }
+      mappedContent = removeMatchesFromMappedText(mappedContent, regex);
+    }
+    removed.sort((a, b) => a.start - b.start);
+
+    this.nodes = [];
+    // Nodes are pushed one by one, as spreading them would overflow the call stack for long contents
+    const pushNodes = (nodes: CstNode[]) => {
+      for (const node of nodes) this.nodes.push(node);
+    };
+    let cursor = 0;
+    for (const part of removed) {
+      pushNodes(tokenizeText(content, cursor, part.start, toNode));
+      this.nodes.push(toNode({ type: part.type }, part.start, part.end));
+      cursor = part.end;
+    }
+    pushNodes(tokenizeText(content, cursor, content.length, toNode));
+  }
+
+  /**
+   * Prints the document back into a cooklang string. Untouched parts are printed exactly as
+   * in the original content.
+   * @returns The cooklang string.
+   */
+  toString(): string {
+    return this.nodes.map((node) => node.raw).join("");
+  }
+
+  /**
+   * Parses the current state of the document into a recipe
+   * @param options - The parsing options, see {@link ParseOptions}
+   * @returns The parsed recipe.
+   */
+  toRecipe(options?: ParseOptions): Recipe {
+    return new Recipe(this.toString(), options);
+  }
+
+  /**
+   * Finds all the ingredient nodes with a given name. Aliases are ignored and the comparison is
+   * case-insensitive, similarly to how ingredients are listed in a {@link Recipe}
+   * @param name - The name of the ingredient.
+   * @returns The matching ingredient nodes.
+   */
+  findIngredients(name: string): CstIngredientNode[] {
+    return this.nodes.filter(
+      (node): node is CstIngredientNode =>
+        node.type === "ingredient" &&
+        splitIngredientName(node.name).listName.toLowerCase() ===
+          name.toLowerCase(),
+    );
+  }
+
+  /**
+   * Finds all the cookware nodes with a given name. The comparison is case-insensitive.
+   * @param name - The name of the cookware.
+   * @returns The matching cookware nodes.
+   */
+  findCookware(name: string): CstCookwareNode[] {
+    return this.nodes.filter(
+      (node): node is CstCookwareNode =>
+        node.type === "cookware" &&
+        node.name.toLowerCase() === name.toLowerCase(),
+    );
+  }
+
+  /**
+   * Finds all the timer nodes with a given name. The comparison is case-insensitive.
+   * @param name - The name of the timer. Use an empty string for anonymous timers.
+   * @returns The matching timer nodes.
+   */
+  findTimers(name: string): CstTimerNode[] {
+    return this.nodes.filter(
+      (node): node is CstTimerNode =>
+        node.type === "timer" && node.name.toLowerCase() === name.toLowerCase(),
+    );
+  }
+
+  /**
+   * Edits an ingredient node and rewrites its source text accordingly.
+   * Braces are added if needed, e.g. when setting a quantity.
+   * @param node - The ingredient node, which must belong to the document.
+   * @param changes - The fields to change. Set a field to `undefined` to remove it.
+   * @returns The edited node.
+   */
+  updateIngredient(
+    node: CstIngredientNode,
+    changes: Partial<
+      Pick<
+        CstIngredientNode,
+        "modifiers" | "name" | "fixed" | "quantity" | "unit" | "preparation"
+      >
+    >,
+  ): CstIngredientNode {
+    this.assertOwnNode(node);
+    Object.assign(node, changes);
+    const quantity =
+      (node.fixed ? "=" : "") +
+      (node.quantity ?? "") +
+      (node.unit !== undefined ? `%${node.unit}` : "");
+    node.braces = node.braces || quantity.length > 0 || /\s/.test(node.name);
+    node.raw =
+      `@${node.modifiers}${node.name}` +
+      (node.braces ? `{${quantity}}` : "") +
+      (node.preparation !== undefined ? `(${node.preparation})` : "");
+    return node;
+  }
+
+  /**
+   * Edits a cookware node and rewrites its source text accordingly.
+   * Braces are added if needed, e.g. when setting a quantity.
+   * @param node - The cookware node, which must belong to the document.
+   * @param changes - The fields to change. Set a field to `undefined` to remove it.
+   * @returns The edited node.
+   */
+  updateCookware(
+    node: CstCookwareNode,
+    changes: Partial<
+      Pick<CstCookwareNode, "modifiers" | "name" | "scalable" | "quantity">
+    >,
+  ): CstCookwareNode {
+    this.assertOwnNode(node);
+    Object.assign(node, changes);
+    node.braces =
+      node.braces ||
+      node.scalable ||
+      node.quantity !== undefined ||
+      /\s/.test(node.name);
+    node.raw =
+      `#${node.modifiers}${node.name}` +
+      (node.braces
+        ? `{${node.scalable ? "*" : ""}${node.quantity ?? ""}}`
+        : "");
+    return node;
+  }
+
+  /**
+   * Edits a timer node and rewrites its source text accordingly.
+   * @param node - The timer node, which must belong to the document.
+   * @param changes - The fields to change. Set the unit to `undefined` to remove it.
+   * @returns The edited node.
+   */
+  updateTimer(
+    node: CstTimerNode,
+    changes: Partial<
+      Pick<CstTimerNode, "name" | "scalable" | "quantity" | "unit">
+    >,
+  ): CstTimerNode {
+    this.assertOwnNode(node);
+    Object.assign(node, changes);
+    node.raw =
+      `~${node.name}{${node.scalable ? "*" : ""}${node.quantity}` +
+      (node.unit !== undefined ? `%${node.unit}` : "") +
+      "}";
+    return node;
+  }
+
+  /**
+   * Renames all the occurrences of an ingredient, keeping their aliases, see
+   * {@link CooklangDocument.findIngredients | findIngredients()}
+   * @param name - The current name of the ingredient.
+   * @param newName - The new name of the ingredient.
+   * @returns The renamed ingredient nodes.
+   */
+  renameIngredient(name: string, newName: string): CstIngredientNode[] {
+    const nodes = this.findIngredients(name);
+    for (const node of nodes) {
+      const { displayName } = splitIngredientName(node.name);
+      this.updateIngredient(node, {
+        name:
+          displayName !== undefined
+            ? `${newName}|${displayName}`
+            : // Keeping the path of referenced recipes
+              node.name.substring(0, node.name.lastIndexOf("/") + 1) + newName,
+      });
+    }
+    return nodes;
+  }
+
+  /**
+   * Checks that a node belongs to the document
+   * @param node - The node to check.
+   */
+  private assertOwnNode(node: CstNode) {
+    if (!this.nodes.includes(node)) {
+      throw new Error("The node does not belong to this document");
+    }
+  }
+}
+
+/**
+ * Splits the name of an ingredient node into its list name and display name, if aliased
+ * @param name - The name of the ingredient node.
+ * @returns The list name, and the display name if any.
+ */
+function splitIngredientName(name: string): {
+  listName: string;
+  displayName?: string;
+} {
+  const path = name.replace(/^\.\//, "");
+  const aliasMatch = path.match(ingredientAliasRegex);
+  if (aliasMatch) {
+    return {
+      listName: aliasMatch.groups!.ingredientListName!,
+      displayName: aliasMatch.groups!.ingredientDisplayName!,
+    };
+  }
+  return { listName: path.substring(path.lastIndexOf("/") + 1) };
+}
+
+/**
+ * Splits a range of the content into text, newline and token nodes
+ * @param content - The full content.
+ * @param start - The offset at which the range starts.
+ * @param end - The offset at which the range ends.
+ * @param toNode - Creates a node from its fields and offsets.
+ * @returns The nodes of the range.
+ */
+function tokenizeText(
+  content: string,
+  start: number,
+  end: number,
+  toNode: <T extends CstNode>(
+    node: Omit<T, "raw" | "span">,
+    start: number,
+    end: number,
+  ) => T,
+): CstNode[] {
+  const nodes: CstNode[] = [];
+  const pushText = (from: number, to: number) => {
+    if (to > from) nodes.push(toNode({ type: "text" }, from, to));
+  };
+  const text = content.slice(start, end);
+
+  let lineStart = 0;
+  const lineBreaks = [...text.matchAll(/\r\n?|\n/g), null];
+  for (const lineBreak of lineBreaks) {
+    const lineEnd = lineBreak ? lineBreak.index : text.length;
+    const line = text.slice(lineStart, lineEnd);
+
+    let cursor = 0;
+    for (const match of line.matchAll(tokensRegex)) {
+      const groups = match.groups!;
+      const tokenStart = start + lineStart + match.index;
+      const tokenEnd = tokenStart + match[0].length;
+      pushText(start + lineStart + cursor, tokenStart);
+      cursor = match.index + match[0].length;
+
+      if (groups.mIngredientName || groups.sIngredientName) {
+        nodes.push(
+          toNode<CstIngredientNode>(
+            {
+              type: "ingredient",
+              modifiers:
+                groups.mIngredientModifiers ||
+                groups.sIngredientModifiers ||
+                "",
+              name:
+                (groups.mIngredientRecipeAnchor ||
+                  groups.sIngredientRecipeAnchor ||
+                  "") + (groups.mIngredientName || groups.sIngredientName)!,
+              fixed:
+                (groups.mIngredientQuantityModifier ||
+                  groups.sIngredientQuantityModifier) === "=",
+              quantity:
+                groups.mIngredientQuantity || groups.sIngredientQuantity,
+              unit: groups.mIngredientUnit || groups.sIngredientUnit,
+              preparation:
+                groups.mIngredientPreparation || groups.sIngredientPreparation,
+              braces: /^[^{(]*\{/.test(match[0]),
+            },
+            tokenStart,
+            tokenEnd,
+          ),
+        );
+      } else if (groups.mCookwareName || groups.sCookwareName) {
+        nodes.push(
+          toNode<CstCookwareNode>(
+            {
+              type: "cookware",
+              modifiers:
+                groups.mCookwareModifiers || groups.sCookwareModifiers || "",
+              name: (groups.mCookwareName || groups.sCookwareName)!,
+              scalable:
+                (groups.mCookwareQuantityModifier ||
+                  groups.sCookwareQuantityModifier) === "*",
+              quantity: groups.mCookwareQuantity || groups.sCookwareQuantity,
+              braces: match[0].endsWith("}"),
+            },
+            tokenStart,
+            tokenEnd,
+          ),
+        );
+      } else {
+        nodes.push(
+          toNode<CstTimerNode>(
+            {
+              type: "timer",
+              name: groups.timerName!,
+              scalable: groups.timerQuantityModifier === "*",
+              quantity: groups.timerQuantity!,
+              unit: groups.timerUnit,
+            },
+            tokenStart,
+            tokenEnd,
+          ),
+        );
+      }
+    }
+    pushText(start + lineStart + cursor, start + lineEnd);
+
+    if (lineBreak) {
+      nodes.push(
+        toNode(
+          { type: "newline" },
+          start + lineBreak.index,
+          start + lineBreak.index + lineBreak[0].length,
+        ),
+      );
+      lineStart = lineBreak.index + lineBreak[0].length;
+    }
+  }
+  return nodes;
+}
@@ -0,0 +1,149 @@
+import { multiplyQuantityValue, normalizeUnit } from "../units";
+import type { QuantityWithUnit } from "../types";
+import type { UnitRegistry } from "./unit_registry";
+
+/**
+ * Built-in densities of common ingredients, in grams per milliliter
+ */
+const defaultDensities: { names: string[]; density: number }[] = [
+  { names: ["water"], density: 1 },
+  { names: ["milk", "whole milk", "skim milk"], density: 1.03 },
+  {
+    names: ["cream", "heavy cream", "single cream", "double cream"],
+    density: 1,
+  },
+  { names: ["buttermilk"], density: 1.03 },
+  { names: ["yogurt", "yoghurt"], density: 1.03 },
+  { names: ["butter"], density: 0.96 },
+  { names: ["oil", "vegetable oil", "sunflower oil"], density: 0.92 },
+  { names: ["olive oil"], density: 0.91 },
+  {
+    names: ["flour", "all-purpose flour", "plain flour", "wheat flour"],
+    density: 0.53,
+  },
+  { names: ["bread flour"], density: 0.55 },
+  { names: ["whole wheat flour", "wholemeal flour"], density: 0.51 },
+  { names: ["sugar", "granulated sugar", "caster sugar"], density: 0.85 },
+  { names: ["brown sugar"], density: 0.93 },
+  {
+    names: ["powdered sugar", "icing sugar", "confectioners sugar"],
+    density: 0.51,
+  },
+  { names: ["honey"], density: 1.42 },
+  { names: ["maple syrup"], density: 1.32 },
+  { names: ["salt", "table salt"], density: 1.2 },
+  { names: ["rice", "white rice"], density: 0.78 },
+  { names: ["oats", "rolled oats"], density: 0.38 },
+  { names: ["cocoa powder", "cocoa"], density: 0.42 },
+];
+
+/**
+ * Registry of ingredient densities, used to add and convert mass and volume quantities of the
+ * same ingredient, e.g. `@flour{100%g}` and `@&flour{1%cup}`.
+ *
+ * ## Usage
+ *
+ * The registry contains a built-in set of densities for common ingredients (water, milk, butter, oil,
+ * flour, sugar, rice...), which can be completed or overridden with {@link DensityRegistry.set | set()}.
+ * It can then be provided to a {@link Recipe} with {@link ParseOptions.densities}, or to a {@link ShoppingList}
+ * with {@link ShoppingList.set_density_registry | set_density_registry()}.
+ *
+ * @example
+ * ```typescript
+ * import { DensityRegistry, Recipe } from @tmlmt/cooklang-parser;
+ *
+ * const densities = new DensityRegistry();
+ * densities.set(["almond flour", "almond meal"], 0.4);
+ *
+ * const recipe = new Recipe("Mix @flour{100%g} and @&flour{1%cup}", { densities });
+ * recipe.ingredients[0].quantity;
+ * // { type: "fixed", value: { type: "decimal", value: 225.39 } }
+ * ```
+ *
+ * @category Classes
+ */
+export class DensityRegistry {
+  private densities = new Map<string, number>();
+
+  /**
+   * Creates a new DensityRegistry instance.
+   * @param withDefaults - Whether to include the built-in densities.
+   */
+  constructor(withDefaults: boolean = true) {
+    if (withDefaults) {
+      for (const { names, density } of defaultDensities) {
+        this.set(names, density);
+      }
+    }
+  }
+
+  /**
+   * Sets the density of an ingredient.
+   * @param names - The name of the ingredient, or its name and aliases.
+   * @param density - The density of the ingredient, in grams per milliliter.
+   * @throws `Error` if the density is not a positive number
+   */
+  set(names: string | string[], density: number) {
+    if (!(density > 0)) {
+      throw new Error(`Invalid density: ${density}`);
+    }
+    for (const name of Array.isArray(names) ? names : [names]) {
+      this.densities.set(name.toLowerCase().trim(), density);
+    }
+  }
+
+  /**
+   * Gets the density of an ingredient. Names are case-insensitive.
+   * @param name - The name of the ingredient.
+   * @returns The density of the ingredient in grams per milliliter, or `undefined` if unknown.
+   */
+  get(name: string): number | undefined {
+    return this.densities.get(name.toLowerCase().trim());
+  }
+
+  /**
+   * Removes the density of an ingredient.
+   * @param name - The name of the ingredient.
+   */
+  delete(name: string) {
+    this.densities.delete(name.toLowerCase().trim());
+  }
+
+  /**
+   * Converts a quantity of an ingredient between mass and volume, e.g. `1 cup` of flour into `125.39 g`.
+   * @param name - The name of the ingredient.
+   * @param quantity - The quantity to convert.
+   * @param type - The type of unit to convert to. Masses are expressed in grams, and volumes in milliliters.
+   * @param units - The unit registry. Defaults to the built-in units.
+   * @returns The converted quantity, the quantity itself if already of the requested type, or `undefined`
+   *   if it cannot be converted: unknown density, text value, or unknown or count unit.
+   */
+  convert(
+    name: string,
+    quantity: QuantityWithUnit,
+    type: "mass" | "volume",
+    units?: UnitRegistry,
+  ): QuantityWithUnit | undefined {
+    const def = normalizeUnit(quantity.unit, units);
+    const density = this.get(name);
+    if (
+      !def ||
+      (def.type !== "mass" && def.type !== "volume") ||
+      (quantity.value.type === "fixed" && quantity.value.value.type === "text")
+    ) {
+      return undefined;
+    }
+    if (def.type === type) {
+      return quantity;
+    }
+    if (density === undefined) {
+      return undefined;
+    }
+    const factor =
+      type === "mass" ? def.toBase * density : def.toBase / density;
+    return {
+      value: multiplyQuantityValue(quantity.value, factor, { decimals: 2 }),
+      unit: type === "mass" ? "g" : "ml",
+    };
+  }
+}
@@ -0,0 +1,50 @@
+import type { RecipeLoader } from "../types";
+import { RecipeNotFoundError } from "../errors";
+
+/**
+ * Loader of recipes stored as `.cook` files, for Node.js. See {@link RecipeResolver}
+ *
+ * @example
+ * ```typescript
+ * import { FileSystemRecipeLoader, RecipeResolver } from @tmlmt/cooklang-parser;
+ *
+ * const resolver = new RecipeResolver(new FileSystemRecipeLoader("./recipes"));
+ * const pizza = await resolver.load("mains/pizza.cook");
+ * ```
+ *
+ * @category Classes
+ */
+export class FileSystemRecipeLoader implements RecipeLoader {
+  /**
+   * The directory against which the paths of the recipes are resolved.
+   */
+  root: string;
+
+  /**
+   * Creates a new FileSystemRecipeLoader instance.
+   * @param root - The directory against which the paths of the recipes are resolved. Defaults to the current directory.
+   */
+  constructor(root: string = ".") {
+    this.root = root;
+  }
+
+  /**
+   * Reads the content of a recipe file.
+   * @param path - The path of the recipe, relative to the root directory.
+   * @returns The cooklang content of the recipe.
+   * @throws {@link RecipeNotFoundError} if the file does not exist
+   */
+  async load(path: string): Promise<string> {
+    // Node.js modules are imported on demand, so that the library can still be bundled for browsers
+    const fs = await import("node:fs/promises");
+    const nodePath = await import("node:path");
+    try {
+      return await fs.readFile(nodePath.resolve(this.root, path), "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new RecipeNotFoundError(path);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import type { RecipeLoader } from "../types";
+import { RecipeNotFoundError } from "../errors";
+
+/**
+ * Loader of recipes kept in memory, e.g. fetched from a database or bundled with an application.
+ * See {@link RecipeResolver}
+ *
+ * @example
+ * ```typescript
+ * import { InMemoryRecipeLoader, RecipeResolver } from @tmlmt/cooklang-parser;
+ *
+ * const loader = new InMemoryRecipeLoader({
+ *   "pizza.cook": "Spread @./sauces/tomato sauce{100%g} on @./pizza dough{1}",
+ * });
+ * loader.set("pizza dough.cook", "Mix @flour{500%g} and @water{300%ml}");
+ * loader.set("sauces/tomato sauce.cook", "Cook @tomatoes{400%g}");
+ *
+ * const pizza = await new RecipeResolver(loader).load("pizza.cook");
+ * ```
+ *
+ * @category Classes
+ */
+export class InMemoryRecipeLoader implements RecipeLoader {
+  private recipes = new Map<string, string>();
+
+  /**
+   * Creates a new InMemoryRecipeLoader instance.
+   * @param recipes - The contents of the recipes, by path.
+   */
+  constructor(recipes: Record<string, string> = {}) {
+    for (const [path, content] of Object.entries(recipes)) {
+      this.set(path, content);
+    }
+  }
+
+  /**
+   * Adds or replaces a recipe.
+   * @param path - The path of the recipe, e.g. `essentials/pizza dough.cook`.
+   * @param content - The cooklang content of the recipe.
+   */
+  set(path: string, content: string) {
+    this.recipes.set(path.replace(/^\.\//, ""), content);
+  }
+
+  /**
+   * Loads the content of a recipe.
+   * @param path - The path of the recipe.
+   * @returns The cooklang content of the recipe.
+   * @throws {@link RecipeNotFoundError} if there is no recipe at this path
+   */
+  load(path: string): Promise<string> {
+    const content = this.recipes.get(path);
+    if (content === undefined) {
+      return Promise.reject(new RecipeNotFoundError(path));
+    }
+    return Promise.resolve(content);
+  }
+}
@@ -0,0 +1,115 @@
+import type { PantryItem } from "../types";
+import { parseQuantityInput } from "../parser_helpers";
+
+/**
+ * Parser for pantry configurations, i.e. the ingredients which are already available at home,
+ * specified in the same way as {@link CategoryConfig | category configurations}.
+ *
+ * ## Usage
+ *
+ * Each line lists an ingredient and its aliases separated by `|`, optionally followed by `=` and the
+ * available quantity, written as in cooklang ingredients: `250%g`, `6`, `1/2%cup`... Ingredients listed
+ * without a quantity are considered available in any quantity. Ingredients can be grouped by location
+ * with `[location]` lines.
+ *
+ * You can either directly provide the pantry configuration string when creating the instance
+ * e.g. `const pantry = new Pantry(<...>)`, or create it first and then pass
+ * the pantry configuration string to the {@link Pantry.parse | parse()} method.
+ *
+ * The initialized `Pantry` can then be fed to a {@link ShoppingList}, to deduct what is available
+ * from the quantities to buy.
+ *
+ * @example
+ * ```typescript
+ * import { Pantry } from @tmlmt/cooklang-parser;
+ *
+ * const pantryString = `
+ * [fridge]
+ * milk = 1%l
+ * butter|beurre = 125%g
+ *
+ * [cupboard]
+ * flour = 1%kg
+ * salt`;
+ *
+ * const pantry = new Pantry(pantryString);
+ * pantry.get("beurre");
+ * // { name: "butter", aliases: ["butter", "beurre"], quantity: { type: "fixed", value: { type: "decimal", value: 125 } }, unit: "g", location: "fridge" }
+ * ```
+ *
+ * @category Classes
+ */
+export class Pantry {
+  /**
+   * The parsed ingredients of the pantry.
+   */
+  items: PantryItem[] = [];
+
+  /**
+   * Creates a new Pantry instance.
+   * @param config - The pantry configuration to parse.
+   */
+  constructor(config?: string) {
+    if (config) {
+      this.parse(config);
+    }
+  }
+
+  /**
+   * Parses a pantry configuration from a string into property
+   *   {@link Pantry.items | items}
+   * @param config - The pantry configuration to parse.
+   */
+  parse(config: string) {
+    let currentLocation: string | undefined;
+    const ingredientNames = new Set<string>();
+
+    for (const line of config.split("\n")) {
+      const trimmedLine = line.trim();
+
+      if (trimmedLine.length === 0) {
+        continue;
+      }
+
+      if (trimmedLine.startsWith("[") && trimmedLine.endsWith("]")) {
+        currentLocation = trimmedLine
+          .substring(1, trimmedLine.length - 1)
+          .trim();
+        continue;
+      }
+
+      const [names, quantity] = trimmedLine.split("=").map((s) => s.trim());
+      const aliases = names!.split("|").map((s) => s.trim());
+      for (const alias of aliases) {
+        if (alias.length === 0) {
+          throw new Error(`Ingredient found without a name: ${trimmedLine}`);
+        }
+        if (ingredientNames.has(alias.toLowerCase())) {
+          throw new Error(`Duplicate ingredient/alias found: ${alias}`);
+        }
+        ingredientNames.add(alias.toLowerCase());
+      }
+
+      const item: PantryItem = { name: aliases[0]!, aliases };
+      if (quantity) {
+        const [value, unit] = quantity.split("%").map((s) => s.trim());
+        item.quantity = parseQuantityInput(value!);
+        if (unit) item.unit = unit;
+      }
+      if (currentLocation) item.location = currentLocation;
+      this.items.push(item);
+    }
+  }
+
+  /**
+   * Gets an ingredient of the pantry. Names and aliases are case-insensitive.
+   * @param name - The name or one of the aliases of the ingredient.
+   * @returns The ingredient, or `undefined` if it is not in the pantry.
+   */
+  get(name: string): PantryItem | undefined {
+    const lowerName = name.toLowerCase().trim();
+    return this.items.find((item) =>
+      item.aliases.some((alias) => alias.toLowerCase() === lowerName),
+    );
+  }
+}
@@ -0,0 +1,509 @@
+import Big from "big.js";
+import type {
+  DecimalValue,
+  FixedValue,
+  FormatQuantityOptions,
+  FractionValue,
+  QuantityWithUnit,
+  Range,
+  RoundingMode,
+  RoundingStrategy,
+} from "../types";
+import type { UnitRegistry } from "./unit_registry";
+import {
+  CannotAddTextValueError,
+  IncompatibleUnitsError,
+  formatQuantity,
+  normalizeUnit,
+} from "../units";
+
+/**
+ * A rational number in lowest terms, with a positive denominator, and whether it is expressed as a fraction
+ */
+interface Rational {
+  num: bigint;
+  den: bigint;
+  fraction: boolean;
+}
+
+// Numbers are read as the simplest fraction within 10^-12, e.g. 1.3333333333333333 as 4/3
+const tolerance = 10n ** 12n;
+
+// Fractions with larger denominators, e.g. 137/200, are rounded to decimals even when fractions are kept
+const maxKeptDenominator = 16n;
+
+const abs = (n: bigint) => (n < 0n ? -n : n);
+
+function gcd(a: bigint, b: bigint): bigint {
+  while (b !== 0n) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+// Division rounded towards negative infinity, for a positive divisor
+function floorDiv(n: bigint, d: bigint): bigint {
+  const q = n / d;
+  return n % d !== 0n && n < 0n ? q - 1n : q;
+}
+
+function rational(num: bigint, den: bigint, fraction: boolean): Rational {
+  if (den === 0n) {
+    throw new Error("Denominator cannot be zero.");
+  }
+  if (den < 0n) {
+    num = -num;
+    den = -den;
+  }
+  const divisor = gcd(abs(num), den);
+  return { num: num / divisor, den: den / divisor, fraction };
+}
+
+/**
+ * Finds the simplest fraction within the tolerance of a fraction, using its continued fraction expansion
+ */
+function simplestFraction(num: bigint, den: bigint): [bigint, bigint] {
+  const sign = num < 0n ? -1n : 1n;
+  let [n, d] = [abs(num), den];
+  let [h0, h1, k0, k1] = [0n, 1n, 1n, 0n];
+  for (;;) {
+    const a = n / d;
+    [h0, h1] = [h1, a * h1 + h0];
+    [k0, k1] = [k1, a * k1 + k0];
+    const remainder = n - a * d;
+    if (
+      remainder === 0n ||
+      abs(abs(num) * k1 - h1 * den) * tolerance <= den * k1
+    ) {
+      return [sign * h1, k1];
+    }
+    [n, d] = [d, remainder];
+  }
+}
+
+function fromNumber(value: number | Big, fraction: boolean): Rational {
+  const [integerPart, decimalPart = ""] = Big(value).toFixed().split(".");
+  const [num, den] = simplestFraction(
+    BigInt(integerPart! + decimalPart),
+    10n ** BigInt(decimalPart.length),
+  );
+  return rational(num, den, fraction);
+}
+
+function fromNumericValue(value: DecimalValue | FractionValue): Rational {
+  if (value.type === "decimal") {
+    return fromNumber(value.value, false);
+  }
+  const num = fromNumber(value.num, true);
+  const den = fromNumber(value.den, true);
+  return rational(num.num * den.den, num.den * den.num, true);
+}
+
+function toRational(
+  value: number | Big | DecimalValue | FractionValue,
+): Rational {
+  return typeof value === "number" || value instanceof Big
+    ? fromNumber(value, false)
+    : fromNumericValue(value);
+}
+
+function toNumericValue(r: Rational): DecimalValue | FractionValue {
+  if (r.fraction && r.den !== 1n) {
+    return { type: "fraction", num: Number(r.num), den: Number(r.den) };
+  }
+  return {
+    type: "decimal",
+    value: Big(r.num.toString()).div(r.den.toString()).toNumber(),
+  };
+}
+
+// Whether a fraction can be written as a decimal number, i.e. its denominator only has 2 and 5 as prime factors
+function isTerminating(r: Rational): boolean {
+  let den = r.den;
+  for (const prime of [2n, 5n]) {
+    while (den % prime === 0n) den /= prime;
+  }
+  return den === 1n;
+}
+
+// The sum of a fraction and a decimal is a decimal, unless it cannot be written as one, e.g. 1/3 + 0.5 = 5/6
+function addRationals(a: Rational, b: Rational, sign: bigint = 1n): Rational {
+  const sum = rational(
+    a.num * b.den + sign * b.num * a.den,
+    a.den * b.den,
+    a.fraction && b.fraction,
+  );
+  // Zero does not change the way the other value is expressed
+  if (a.num === 0n || b.num === 0n) {
+    return { ...sum, fraction: a.num === 0n ? b.fraction : a.fraction };
+  }
+  return a.fraction !== b.fraction && !isTerminating(sum)
+    ? { ...sum, fraction: true }
+    : sum;
+}
+
+const multiplyRationals = (a: Rational, b: Rational, fraction: boolean) =>
+  rational(a.num * b.num, a.den * b.den, fraction);
+
+const compareRationals = (a: Rational, b: Rational) => {
+  const difference = a.num * b.den - b.num * a.den;
+  return difference === 0n ? 0 : difference > 0n ? 1 : -1;
+};
+
+function roundRational(
+  r: Rational,
+  step: Rational,
+  mode: RoundingMode,
+  fraction: boolean,
+): Rational {
+  // r = count * step + remainder / (r.den * step.num) * step
+  const n = r.num * step.den;
+  const d = r.den * step.num;
+  let count = floorDiv(n, d);
+  const remainder = n - count * d;
+  if (
+    remainder !== 0n &&
+    (mode === "up" ||
+      (mode === "nearest" &&
+        (2n * remainder > d || (2n * remainder === d && n > 0n))))
+  ) {
+    count += 1n;
+  }
+  return rational(count * step.num, step.den, fraction);
+}
+
+/**
+ * Immutable quantity, i.e. a fixed value or a range with an optional unit, with exact rational arithmetic.
+ *
+ * ## Usage
+ *
+ * Quantities are created from the {@link FixedValue} and {@link Range} values of recipes with
+ * {@link Quantity.from | from()} or {@link Quantity.fromJSON | fromJSON()}, and converted back with
+ * {@link Quantity.toValue | toValue()} or {@link Quantity.toJSON | toJSON()}.
+ *
+ * Values are stored as exact fractions, so that no precision is lost: `1/3 + 1/6` is exactly `1/2`, and
+ * `1/3 * 3` is exactly `1`. Values which were written as fractions, or which result from an operation on
+ * a fraction, are expressed as fractions, and other values as decimals. Values are never rounded implicitly:
+ * use {@link Quantity.round | round()} to do so.
+ *
+ * Operations on ranges are applied to both ends of the range. Operations on quantities with a text value
+ * (e.g. `a pinch`) throw an error, except multiplications, divisions and rounding which leave them as-is.
+ *
+ * @example
+ * ```typescript
+ * import { Quantity } from @tmlmt/cooklang-parser;
+ *
+ * const flour = Quantity.from({ type: "fixed", value: { type: "fraction", num: 1, den: 3 } }, "cup");
+ * flour.add(Quantity.from(0.5, "cup")).toJSON();
+ * // { value: { type: "fixed", value: { type: "fraction", num: 5, den: 6 } }, unit: "cup" }
+ * flour.multiply(3).toString();
+ * // "1 cup"
+ * ```
+ *
+ * @category Classes
+ */
+export class Quantity {
+  /** The unit of the quantity, if any */
+  readonly unit?: string;
+  /** The fixed value, or the two ends of the range */
+  private readonly bounds: readonly Rational[];
+  /** The text value, e.g. `a pinch` */
+  private readonly text?: string;
+
+  private constructor(bounds: Rational[], unit?: string, text?: string) {
+    this.bounds = bounds;
+    if (unit !== undefined) this.unit = unit;
+    if (text !== undefined) this.text = text;
+    Object.freeze(this);
+  }
+
+  /**
+   * Creates a quantity from a value.
+   * @param value - The value of the quantity: a fixed value, a range or a number.
+   * @param unit - The unit of the quantity, if any.
+   * @returns The new quantity.
+   */
+  static from(
+    value: FixedValue | Range | number | Big,
+    unit?: string,
+  ): Quantity {
+    if (typeof value === "number" || value instanceof Big) {
+      return new Quantity([fromNumber(value, false)], unit);
+    }
+    if (value.type === "range") {
+      return new Quantity(
+        [fromNumericValue(value.min), fromNumericValue(value.max)],
+        unit,
+      );
+    }
+    if (value.value.type === "text") {
+      return new Quantity([], unit, value.value.value);
+    }
+    return new Quantity([fromNumericValue(value.value)], unit);
+  }
+
+  /**
+   * Creates a quantity from its JSON representation, e.g. the `quantity` and `unit` of an ingredient.
+   * @param json - The value and unit of the quantity.
+   * @returns The new quantity.
+   */
+  static fromJSON(json: QuantityWithUnit): Quantity {
+    return Quantity.from(json.value, json.unit);
+  }
+
+  /** Whether the quantity is a range, e.g. `1-2` */
+  get isRange(): boolean {
+    return this.bounds.length === 2;
+  }
+
+  /** Whether the quantity has a text value, e.g. `a pinch` */
+  get isText(): boolean {
+    return this.text !== undefined;
+  }
+
+  /** The minimum of the quantity, i.e. the lower end of a range or the quantity itself */
+  get min(): Quantity {
+    return this.isRange ? new Quantity([this.bounds[0]!], this.unit) : this;
+  }
+
+  /** The maximum of the quantity, i.e. the upper end of a range or the quantity itself */
+  get max(): Quantity {
+    return this.isRange ? new Quantity([this.bounds[1]!], this.unit) : this;
+  }
+
+  /**
+   * Adds a quantity to this one. The result is expressed in the unit of this quantity, or in the unit of
+   * the other one if this one has none.
+   * @param other - The quantity to add.
+   * @param registry - The unit registry used to convert the other quantity. Defaults to the built-in units.
+   * @returns The sum of the quantities.
+   * @throws {@link CannotAddTextValueError} if one of the quantities has a text value
+   * @throws {@link IncompatibleUnitsError} if the units cannot be converted into each other
+   */
+  add(other: Quantity, registry?: UnitRegistry): Quantity {
+    return this.combine(other, 1n, registry);
+  }
+
+  /**
+   * Subtracts a quantity from this one. The result is expressed in the unit of this quantity, or in the
+   * unit of the other one if this one has none. Ranges are subtracted end to opposite end, e.g. `2-3`
+   * minus `0-2` gives `0-3`, so that the result contains every possible difference.
+   * @param other - The quantity to subtract.
+   * @param registry - The unit registry used to convert the other quantity. Defaults to the built-in units.
+   * @returns The difference of the quantities.
+   * @throws {@link CannotAddTextValueError} if one of the quantities has a text value
+   * @throws {@link IncompatibleUnitsError} if the units cannot be converted into each other
+   */
+  subtract(other: Quantity, registry?: UnitRegistry): Quantity {
+    return this.combine(other, -1n, registry);
+  }
+
+  /**
+   * Multiplies the quantity by a factor.
+   * @param factor - The factor, e.g. `2`, `Big(4).div(3)` or `{ type: "fraction", num: 4, den: 3 }`.
+   * @returns The multiplied quantity.
+   */
+  multiply(factor: number | Big | DecimalValue | FractionValue): Quantity {
+    return this.scale(toRational(factor));
+  }
+
+  /**
+   * Divides the quantity by a divisor.
+   * @param divisor - The divisor, e.g. `2` or `{ type: "fraction", num: 4, den: 3 }`.
+   * @returns The divided quantity.
+   * @throws `Error` if the divisor is zero
+   */
+  divide(divisor: number | Big | DecimalValue | FractionValue): Quantity {
+    const r = toRational(divisor);
+    return this.scale(rational(r.den, r.num, false));
+  }
+
+  /**
+   * Compares this quantity with another one. Ranges are compared by their lower ends, then by their upper ends.
+   * @param other - The quantity to compare with.
+   * @param registry - The unit registry used to convert the other quantity. Defaults to the built-in units.
+   * @returns `-1` if this quantity is smaller, `1` if it is greater, and `0` if they are equal.
+   * @throws {@link CannotAddTextValueError} if one of the quantities has a text value
+   * @throws {@link IncompatibleUnitsError} if the units cannot be converted into each other
+   */
+  compare(other: Quantity, registry?: UnitRegistry): -1 | 0 | 1 {
+    const converted = this.align(other, "compare", registry);
+    return (
+      compareRationals(this.bounds[0]!, converted.bounds[0]!) ||
+      compareRationals(this.bounds.at(-1)!, converted.bounds.at(-1)!)
+    );
+  }
+
+  /**
+   * Checks whether this quantity is equal to another one, e.g. `1/2 cup` and `0.5 cups`.
+   * @param other - The quantity to compare with.
+   * @param registry - The unit registry used to convert the other quantity. Defaults to the built-in units.
+   * @returns `true` if the quantities are equal, `false` otherwise, including when they cannot be compared.
+   */
+  equals(other: Quantity, registry?: UnitRegistry): boolean {
+    if (this.isText || other.isText) {
+      return this.text === other.text && this.unit === other.unit;
+    }
+    try {
+      return (
+        this.isRange === other.isRange && this.compare(other, registry) === 0
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Converts the quantity into another unit of the same type, e.g. `1 cup` into `236.588 ml`.
+   * Converted values are expressed as decimals.
+   * @param unit - The unit to convert to.
+   * @param registry - The unit registry. Defaults to the built-in units.
+   * @returns The converted quantity.
+   * @throws {@link CannotAddTextValueError} if the quantity has a text value
+   * @throws {@link IncompatibleUnitsError} if the units are unknown or of different types
+   */
+  convert(unit: string, registry?: UnitRegistry): Quantity {
+    if (this.text !== undefined) {
+      throw new CannotAddTextValueError("convert");
+    }
+    const from = normalizeUnit(this.unit, registry);
+    const to = normalizeUnit(unit, registry);
+    if (!from || !to || from.type !== to.type) {
+      throw new IncompatibleUnitsError(this.unit ?? "", unit);
+    }
+    if (from === to) {
+      return new Quantity([...this.bounds], unit);
+    }
+    const [a, b] = [
+      fromNumber(from.toBase, false),
+      fromNumber(to.toBase, false),
+    ];
+    const factor = rational(a.num * b.den, a.den * b.num, false);
+    return new Quantity(
+      this.bounds.map((b) => multiplyRationals(b, factor, false)),
+      unit,
+    );
+  }
+
+  /**
+   * Rounds the values of the quantity.
+   * @param strategy - The rounding strategy, see {@link RoundingStrategy}
+   * @returns The rounded quantity.
+   */
+  round(strategy: RoundingStrategy): Quantity {
+    const mode = strategy.mode ?? "nearest";
+    const bounds = this.bounds.map((b) => {
+      if ("denominator" in strategy) {
+        return roundRational(
+          b,
+          rational(1n, BigInt(strategy.denominator), true),
+          mode,
+          true,
+        );
+      }
+      if (strategy.keepFractions && b.fraction && b.den <= maxKeptDenominator) {
+        return b;
+      }
+      return roundRational(
+        b,
+        rational(1n, 10n ** BigInt(strategy.decimals), false),
+        mode,
+        false,
+      );
+    });
+    return new Quantity(bounds, this.unit, this.text);
+  }
+
+  /**
+   * Converts the quantity into a fixed value or a range.
+   * @returns The value of the quantity.
+   */
+  toValue(): FixedValue | Range {
+    if (this.text !== undefined) {
+      return { type: "fixed", value: { type: "text", value: this.text } };
+    }
+    if (this.isRange) {
+      return {
+        type: "range",
+        min: toNumericValue(this.bounds[0]!),
+        max: toNumericValue(this.bounds[1]!),
+      };
+    }
+    return { type: "fixed", value: toNumericValue(this.bounds[0]!) };
+  }
+
+  /**
+   * Converts the quantity into its JSON representation, e.g. for the `quantity` and `unit` of an ingredient.
+   * @returns The value and unit of the quantity.
+   */
+  toJSON(): QuantityWithUnit {
+    const json: QuantityWithUnit = { value: this.toValue() };
+    if (this.unit !== undefined) json.unit = this.unit;
+    return json;
+  }
+
+  /**
+   * Renders the quantity into display text, see {@link formatQuantity}
+   * @param options - The rendering options, see {@link FormatQuantityOptions}
+   * @returns The display text of the quantity, e.g. `1 1/2 cups`.
+   */
+  toString(options?: FormatQuantityOptions): string {
+    return formatQuantity(this.toValue(), this.unit, options);
+  }
+
+  private scale(factor: Rational): Quantity {
+    const bounds = this.bounds.map((b) =>
+      multiplyRationals(b, factor, b.fraction),
+    );
+    // A negative factor swaps the ends of a range
+    return new Quantity(
+      factor.num < 0n ? bounds.reverse() : bounds,
+      this.unit,
+      this.text,
+    );
+  }
+
+  /**
+   * Expresses another quantity in the unit of this one, so that their values can be combined
+   */
+  private align(
+    other: Quantity,
+    operation: string,
+    registry?: UnitRegistry,
+  ): Quantity {
+    if (this.text !== undefined || other.text !== undefined) {
+      throw new CannotAddTextValueError(operation);
+    }
+    if (
+      !this.unit ||
+      !other.unit ||
+      this.unit.toLowerCase() === other.unit.toLowerCase()
+    ) {
+      return other;
+    }
+    return other.convert(this.unit, registry);
+  }
+
+  private combine(
+    other: Quantity,
+    sign: bigint,
+    registry?: UnitRegistry,
+  ): Quantity {
+    const converted = this.align(
+      other,
+      sign > 0n ? "add" : "subtract",
+      registry,
+    );
+    const a = this.bounds;
+    // Subtracting the largest value of a range gives the smallest difference
+    const b = sign > 0n ? converted.bounds : [...converted.bounds].reverse();
+    const bounds =
+      a.length === 1 && b.length === 1
+        ? [addRationals(a[0]!, b[0]!, sign)]
+        : [
+            addRationals(a[0]!, b[0]!, sign),
+            addRationals(a.at(-1)!, b.at(-1)!, sign),
+          ];
+    return new Quantity(bounds, this.unit || other.unit);
+  }
+}
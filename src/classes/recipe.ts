@@ -11,8 +11,27 @@ import type {
   CookwareItem,
   IngredientFlag,
   CookwareFlag,
+  Item,
+  MetadataSpans,
+  ParseOptions,
+  SourceSpan,
+  Diagnostic,
+  RecipeTimes,
+  DurationRange,
+  TimersDuration,
+  ScaleOptions,
+  TargetUnitSystem,
+  HumanizeOptions,
+  QuantityWithUnit,
 } from "../types";
 import { Section } from "./section";
+import type { DensityRegistry } from "./density_registry";
+import { UnitRegistry } from "./unit_registry";
+import {
+  ReferencedItemCannotBeRedefinedError,
+  ReferencedItemNotFoundError,
+  TimerMissingUnitError,
+} from "../errors";
 import {
   tokensRegex,
   commentRegex,
@@ -28,13 +47,32 @@ import {
   findAndUpsertCookware,
   parseQuantityInput,
   extractMetadata,
+  extractMetadataSpans,
+  createMappedText,
+  removeMatchesFromMappedText,
+  trimMappedText,
+  splitMappedTextLines,
+  getLineStarts,
+  createMappedSourceSpan,
+  type MappedText,
 } from "../parser_helpers";
 import {
   addQuantities,
   getDefaultQuantityValue,
+  addQuantityValues,
   multiplyQuantityValue,
-  type Quantity,
+  multiplyAndCeilQuantityValue,
+  convertQuantityToSystem,
+  humanizeQuantity,
 } from "../units";
+import { serializeRecipe } from "../serializer";
+import { getLocalePack } from "../locales";
+import {
+  extractRecipeTimes,
+  getTimerDuration,
+  addDurationRanges,
+  getTimerScalingFactor,
+} from "../durations";
 import Big from "big.js";
 
 /**
@@ -97,51 +135,134 @@ export class Recipe {
    * @see {@link Recipe.scaleBy | scaleBy()} and {@link Recipe.scaleTo | scaleTo()} methods
    */
   servings?: number;
+  /**
+   * The preparation, cooking and total times of the recipe, parsed from the time metadata
+   * fields, e.g. `prep time: 1h 30min`
+   */
+  times: RecipeTimes = {};
+  /**
+   * The source spans of the metadata entries, relative to the original content.
+   * Only set if parsed with {@link ParseOptions.spans}
+   */
+  metadataSpans?: MetadataSpans;
+  /**
+   * The problems found while parsing the recipe. Errors are only collected here when
+   * parsing with {@link ParseOptions.recover}, otherwise they are thrown.
+   */
+  diagnostics: Diagnostic[] = [];
+  /**
+   * The density registry used to add mass and volume quantities of the ingredients.
+   * Only set if parsed with {@link ParseOptions.densities}
+   */
+  densities?: DensityRegistry;
+  /**
+   * The unit registry used to recognize, add and convert the units of the quantities.
+   * Only set if parsed with {@link ParseOptions.units}
+   */
+  units?: UnitRegistry;
 
   /**
    * Creates a new Recipe instance.
    * @param content - The recipe content to parse.
+   * @param options - The parsing options, see {@link ParseOptions}
    */
-  constructor(content?: string) {
+  constructor(content?: string, options?: ParseOptions) {
     if (content) {
-      this.parse(content);
+      this.parse(content, options);
     }
   }
 
   /**
    * Parses a recipe from a string.
    * @param content - The recipe content to parse.
+   * @param options - The parsing options, see {@link ParseOptions}
    */
-  parse(content: string) {
-    const cleanContent = content
-      .replace(metadataRegex, "")
-      .replace(commentRegex, "")
-      .replace(blockCommentRegex, "")
-      .trim()
-      .split(/\r\n?|\n/);
-
-    const { metadata, servings }: MetadataExtract = extractMetadata(content);
+  parse(content: string, options: ParseOptions = {}) {
+    // Lines are kept mapped to the original content so that source spans can be computed,
+    // which is only needed for the spans of the elements and the diagnostics of the errors
+    let mappedContent = createMappedText(
+      content,
+      Boolean(options.spans || options.recover),
+    );
+    for (const regex of [metadataRegex, commentRegex, blockCommentRegex]) {
+      mappedContent = removeMatchesFromMappedText(mappedContent, regex);
+    }
+    const cleanContent = splitMappedTextLines(trimMappedText(mappedContent));
+    const lineStarts = getLineStarts(content);
+    const getSpan = (line: MappedText, start: number, end: number) =>
+      createMappedSourceSpan(lineStarts, line, start, end);
+    // Diagnostics are located whenever spans are computed, but elements only if requested
+    const located = <T extends object>(element: T, span?: SourceSpan): T =>
+      span ? { ...element, span } : element;
+    const withSpan = <T extends object>(element: T, span?: SourceSpan): T =>
+      options.spans ? located(element, span) : element;
+    const reportError = (
+      code: string,
+      error: Error,
+      span: SourceSpan | undefined,
+      suggestion: string,
+    ) => {
+      this.diagnostics.push(
+        located<Diagnostic>(
+          { severity: "error", code, message: error.message, suggestion },
+          span,
+        ),
+      );
+    };
+
+    this.diagnostics = [];
+    if (options.densities) {
+      this.densities = options.densities;
+    }
+    const { metadata, servings }: MetadataExtract = extractMetadata(
+      content,
+      this.diagnostics,
+      options.recover,
+    );
+    const locale = options.locale ?? metadata.locale;
+    const localePack =
+      typeof locale === "string" ? getLocalePack(locale) : locale;
+    if (localePack) {
+      this.units = (options.units ?? new UnitRegistry()).localize(localePack);
+    } else if (options.units) {
+      this.units = options.units;
+    }
     this.metadata = metadata;
     this.servings = servings;
+    this.times = extractRecipeTimes(metadata);
+    if (options.spans) {
+      this.metadataSpans = extractMetadataSpans(
+        content,
+        Object.keys(metadata) as (keyof typeof metadata)[],
+      );
+    }
 
     let blankLineBefore = true;
     let section: Section = new Section();
     const items: Step["items"] = [];
     let note: Note["note"] = "";
+    let noteSpan: SourceSpan | undefined = undefined;
     let inNote = false;
 
-    for (const line of cleanContent) {
+    for (const mappedLine of cleanContent) {
+      const line = mappedLine.text;
       if (line.trim().length === 0) {
         flushPendingItems(section, items);
-        note = flushPendingNote(section, note);
+        note = flushPendingNote(section, note, noteSpan);
         blankLineBefore = true;
         inNote = false;
         continue;
       }
 
+      const lineSpan = getSpan(
+        mappedLine,
+        line.length - line.trimStart().length,
+        line.trimEnd().length,
+      );
+
       if (line.startsWith("=")) {
         flushPendingItems(section, items);
-        note = flushPendingNote(section, note);
+        note = flushPendingNote(section, note, noteSpan);
 
         if (this.sections.length === 0 && section.isBlank()) {
           section.name = line.replace(/^=+|=+$/g, "").trim();
@@ -152,6 +273,9 @@ export class Recipe {
           }
           section = new Section(line.replace(/^=+|=+$/g, "").trim());
         }
+        if (options.spans) {
+          section.span = lineSpan;
+        }
         blankLineBefore = true;
         inNote = false;
         continue;
@@ -159,8 +283,9 @@ export class Recipe {
 
       if (blankLineBefore && line.startsWith(">")) {
         flushPendingItems(section, items);
-        note = flushPendingNote(section, note);
+        note = flushPendingNote(section, note, noteSpan);
         note += line.substring(1).trim();
+        noteSpan = options.spans ? lineSpan : undefined;
         inNote = true;
         blankLineBefore = false;
         continue;
@@ -172,19 +297,28 @@ export class Recipe {
         } else {
           note += " " + line.trim();
         }
+        if (noteSpan) {
+          noteSpan = { start: noteSpan.start, end: lineSpan!.end };
+        }
         blankLineBefore = false;
         continue;
       }
 
-      note = flushPendingNote(section, note);
+      note = flushPendingNote(section, note, noteSpan);
 
       let cursor = 0;
       for (const match of line.matchAll(tokensRegex)) {
         const idx = match.index;
         /* v8 ignore else -- @preserve */
         if (idx > cursor) {
-          items.push({ type: "text", value: line.slice(cursor, idx) });
+          items.push(
+            withSpan<Item>(
+              { type: "text", value: line.slice(cursor, idx) },
+              getSpan(mappedLine, cursor, idx),
+            ),
+          );
         }
+        const tokenSpan = getSpan(mappedLine, idx, idx + match[0].length);
 
         const groups = match.groups!;
 
@@ -224,7 +358,7 @@ export class Recipe {
           }
 
           const quantity = quantityRaw
-            ? parseQuantityInput(quantityRaw)
+            ? parseQuantityInput(quantityRaw, localePack, options.numberWords)
             : undefined;
           const aliasMatch = name.match(ingredientAliasRegex);
           let listName, displayName: string;
@@ -260,12 +394,77 @@ export class Recipe {
           if (extras) {
             newIngredient.extras = extras;
           }
+          if (options.spans) {
+            newIngredient.span = tokenSpan;
+          }
 
-          const idxsInList = findAndUpsertIngredient(
-            this.ingredients,
-            newIngredient,
-            reference,
-          );
+          const ingredientsCount = this.ingredients.length;
+          const upsertOptions = {
+            densities: options.densities,
+            units: this.units,
+          };
+          let idxsInList: ReturnType<typeof findAndUpsertIngredient>;
+          try {
+            idxsInList = findAndUpsertIngredient(
+              this.ingredients,
+              newIngredient,
+              reference,
+              upsertOptions,
+            );
+            if (reference && this.ingredients.length > ingredientsCount) {
+              newIngredient.separateReference = true;
+              this.diagnostics.push(
+                located<Diagnostic>(
+                  {
+                    severity: "warning",
+                    code: "incompatible-reference-quantity",
+                    message: `The quantity of this reference to "${listName}" cannot be added to the one of the original ingredient, which has been listed again as a separate ingredient`,
+                  },
+                  tokenSpan,
+                ),
+              );
+            }
+          } catch (e) {
+            if (options.recover && e instanceof ReferencedItemNotFoundError) {
+              reportError(
+                "referenced-item-not-found",
+                e,
+                tokenSpan,
+                `Remove the '&' modifier or declare "${listName}" before referencing it`,
+              );
+              idxsInList = findAndUpsertIngredient(
+                this.ingredients,
+                newIngredient,
+                false,
+                upsertOptions,
+              );
+            } else if (
+              options.recover &&
+              e instanceof ReferencedItemCannotBeRedefinedError
+            ) {
+              reportError(
+                "referenced-item-redefined",
+                e,
+                tokenSpan,
+                `Remove the extra flags of this reference or add them to the first occurrence of "${listName}"`,
+              );
+              // Keeping the reference, but only with the flags of the original ingredient
+              const existingFlags = this.ingredients.find(
+                (i) => i.name.toLowerCase() === listName.toLowerCase(),
+              )!.flags!;
+              newIngredient.flags = flags.filter((f) =>
+                existingFlags.includes(f),
+              );
+              idxsInList = findAndUpsertIngredient(
+                this.ingredients,
+                newIngredient,
+                true,
+                upsertOptions,
+              );
+            } else {
+              throw e;
+            }
+          }
 
           const newItem: IngredientItem = {
             type: "ingredient",
@@ -275,7 +474,7 @@ export class Recipe {
           if (idxsInList.quantityPartIndex !== undefined) {
             newItem.quantityPartIndex = idxsInList.quantityPartIndex;
           }
-          items.push(newItem);
+          items.push(withSpan(newItem, tokenSpan));
         } else if (groups.mCookwareName || groups.sCookwareName) {
           const name = (groups.mCookwareName || groups.sCookwareName)!;
           const modifiers =
@@ -291,47 +490,146 @@ export class Recipe {
             flags.push("hidden");
           }
           const quantity = quantityRaw
-            ? parseQuantityInput(quantityRaw)
+            ? parseQuantityInput(quantityRaw, localePack, options.numberWords)
             : undefined;
 
-          const idxsInList = findAndUpsertCookware(
-            this.cookware,
+          const newCookware = withSpan<Cookware>(
             {
               name,
               quantity,
               quantityParts: quantity ? [quantity] : undefined,
               flags,
             },
-            reference,
+            tokenSpan,
+          );
+          if (
+            (groups.mCookwareQuantityModifier ||
+              groups.sCookwareQuantityModifier) === "*"
+          ) {
+            newCookware.scalable = true;
+          }
+          const cookwareCount = this.cookware.length;
+          let idxsInList: ReturnType<typeof findAndUpsertCookware>;
+          try {
+            idxsInList = findAndUpsertCookware(
+              this.cookware,
+              newCookware,
+              reference,
+            );
+            if (reference && this.cookware.length > cookwareCount) {
+              this.diagnostics.push(
+                located<Diagnostic>(
+                  {
+                    severity: "warning",
+                    code: "incompatible-reference-quantity",
+                    message: `The quantity of this reference to "${name}" cannot be added to the one of the original cookware, which has been listed again as a separate cookware`,
+                  },
+                  tokenSpan,
+                ),
+              );
+            }
+          } catch (e) {
+            if (options.recover && e instanceof ReferencedItemNotFoundError) {
+              reportError(
+                "referenced-item-not-found",
+                e,
+                tokenSpan,
+                `Remove the '&' modifier or declare "${name}" before referencing it`,
+              );
+              idxsInList = findAndUpsertCookware(
+                this.cookware,
+                newCookware,
+                false,
+              );
+            } else if (
+              options.recover &&
+              e instanceof ReferencedItemCannotBeRedefinedError
+            ) {
+              reportError(
+                "referenced-item-redefined",
+                e,
+                tokenSpan,
+                `Remove the extra flags of this reference or add them to the first occurrence of "${name}"`,
+              );
+              // Keeping the reference, but only with the flags of the original cookware
+              const existingFlags = this.cookware.find(
+                (i) => i.name.toLowerCase() === name.toLowerCase(),
+              )!.flags;
+              newCookware.flags = flags.filter((f) =>
+                existingFlags.includes(f),
+              );
+              idxsInList = findAndUpsertCookware(
+                this.cookware,
+                newCookware,
+                true,
+              );
+            } else {
+              throw e;
+            }
+          }
+          items.push(
+            withSpan(
+              {
+                type: "cookware",
+                index: idxsInList.cookwareIndex,
+                quantityPartIndex: idxsInList.quantityPartIndex,
+              } as CookwareItem,
+              tokenSpan,
+            ),
           );
-          items.push({
-            type: "cookware",
-            index: idxsInList.cookwareIndex,
-            quantityPartIndex: idxsInList.quantityPartIndex,
-          } as CookwareItem);
         }
         // Then it's necessarily a timer which was matched
         else {
           const durationStr = groups.timerQuantity!.trim();
           const unit = (groups.timerUnit || "").trim();
           if (!unit) {
-            throw new Error("Timer missing unit");
+            const error = new TimerMissingUnitError();
+            if (!options.recover) {
+              throw error;
+            }
+            // Keeping the timer, without unit
+            reportError(
+              "timer-missing-unit",
+              error,
+              tokenSpan,
+              `Add a unit to the timer, e.g. ~{${durationStr}%minutes}`,
+            );
           }
           const name = groups.timerName || undefined;
-          const duration = parseQuantityInput(durationStr);
-          const timerObj: Timer = {
-            name,
-            duration,
-            unit,
-          };
-          items.push({ type: "timer", index: this.timers.push(timerObj) - 1 });
+          const duration = parseQuantityInput(
+            durationStr,
+            localePack,
+            options.numberWords,
+          );
+          const timerObj: Timer = withSpan(
+            {
+              name,
+              duration,
+              unit,
+            },
+            tokenSpan,
+          );
+          if (groups.timerQuantityModifier === "*") {
+            timerObj.scalable = true;
+          }
+          items.push(
+            withSpan<Item>(
+              { type: "timer", index: this.timers.push(timerObj) - 1 },
+              tokenSpan,
+            ),
+          );
         }
 
         cursor = idx + match[0].length;
       }
 
       if (cursor < line.length) {
-        items.push({ type: "text", value: line.slice(cursor) });
+        items.push(
+          withSpan<Item>(
+            { type: "text", value: line.slice(cursor) },
+            getSpan(mappedLine, cursor, line.length),
+          ),
+        );
       }
 
       blankLineBefore = false;
@@ -339,7 +637,7 @@ export class Recipe {
 
     // End of content reached: pushing all temporarily saved elements
     flushPendingItems(section, items);
-    note = flushPendingNote(section, note);
+    note = flushPendingNote(section, note, noteSpan);
     if (!section.isBlank()) {
       this.sections.push(section);
     }
@@ -350,10 +648,11 @@ export class Recipe {
    * {@link Recipe.scaleBy | scaleBy} with a factor corresponding to the ratio between `newServings`
    *   and the recipe's {@link Recipe.servings | servings} value.
    * @param newServings - The new number of servings.
+   * @param options - The scaling options, see {@link ScaleOptions}
    * @returns A new Recipe instance with the scaled ingredients.
    * @throws `Error` if the recipe does not contains an initial {@link Recipe.servings | servings} value
    */
-  scaleTo(newServings: number): Recipe {
+  scaleTo(newServings: number, options: ScaleOptions = {}): Recipe {
     let originalServings = this.getServings();
 
     // Default to 1 if no servings defined
@@ -362,16 +661,18 @@ export class Recipe {
     }
 
     const factor = Big(newServings).div(originalServings);
-    return this.scaleBy(factor);
+    return this.scaleBy(factor, options);
   }
 
   /**
    * Scales the recipe by a factor.
    * @param factor - The factor to scale the recipe by. While integers can be passed as-is, it is recommended to pass fractions as
    *   [Big](https://github.com/MikeMcl/big.js/) values, e.g. `Big(num).div(den)` in order to avoid undesirable floating point operation inaccuracies.
+   * @param options - The scaling options, see {@link ScaleOptions}. By default, only the timers marked as scalable
+   *   (e.g. `~{*20%minutes}`) are scaled.
    * @returns A new Recipe instance with the scaled ingredients.
    */
-  scaleBy(factor: number | Big): Recipe {
+  scaleBy(factor: number | Big, options: ScaleOptions = {}): Recipe {
     const newRecipe = this.clone();
 
     let originalServings = newRecipe.getServings();
@@ -409,8 +710,15 @@ export class Recipe {
           } else {
             const totalQuantity = ingredient.quantityParts.reduce(
               (acc, val) =>
-                addQuantities(acc, { value: val.value, unit: val.unit }),
-              { value: getDefaultQuantityValue() } as Quantity,
+                addQuantities(
+                  acc,
+                  { value: val.value, unit: val.unit },
+                  {
+                    density: this.densities?.get(ingredient.name),
+                    units: this.units,
+                  },
+                ),
+              { value: getDefaultQuantityValue() } as QuantityWithUnit,
             );
             ingredient.quantity = totalQuantity.value;
             ingredient.unit = totalQuantity.unit;
@@ -420,6 +728,47 @@ export class Recipe {
       })
       .filter((ingredient) => ingredient.quantity !== null);
 
+    newRecipe.timers = newRecipe.timers.map((timer) => {
+      const timerFactor = getTimerScalingFactor(
+        timer,
+        Big(factor),
+        options.timers ?? "marked",
+      );
+      if (
+        Big(timerFactor).eq(1) ||
+        (timer.duration.type === "fixed" &&
+          timer.duration.value.type === "text")
+      ) {
+        return timer;
+      }
+      return {
+        ...timer,
+        duration: multiplyQuantityValue(timer.duration, timerFactor),
+        originalDuration: timer.originalDuration ?? timer.duration,
+      };
+    });
+
+    const cookwarePolicy = options.cookware ?? "marked";
+    newRecipe.cookware = newRecipe.cookware.map((cookware) => {
+      if (
+        !cookware.quantityParts ||
+        cookwarePolicy === "none" ||
+        (cookwarePolicy === "marked" && !cookware.scalable)
+      ) {
+        return cookware;
+      }
+      const quantityParts = cookware.quantityParts.map((part) =>
+        multiplyAndCeilQuantityValue(part, Big(factor)),
+      );
+      return {
+        ...cookware,
+        quantity: quantityParts.reduce((acc, part) =>
+          addQuantityValues(acc, part),
+        ),
+        quantityParts,
+      };
+    });
+
     newRecipe.servings = Big(originalServings).times(factor).toNumber();
 
     /* v8 ignore else -- @preserve */
@@ -438,15 +787,13 @@ export class Recipe {
 
     /* v8 ignore else -- @preserve */
     if (newRecipe.metadata.yield && this.metadata.yield) {
-      if (
-        floatRegex.test(String(this.metadata.yield).replace(",", ".").trim())
-      ) {
-        const yieldValue = parseFloat(
-          String(this.metadata.yield).replace(",", "."),
-        );
-        newRecipe.metadata.yield = String(
-          Big(yieldValue).times(factor).toNumber(),
-        );
+      // The yield can have a unit, e.g. `800%g`
+      const [yieldRaw, yieldUnit] = String(this.metadata.yield).split("%");
+      if (floatRegex.test(yieldRaw!.replace(",", ".").trim())) {
+        const yieldValue = parseFloat(yieldRaw!.replace(",", "."));
+        newRecipe.metadata.yield =
+          String(Big(yieldValue).times(factor).toNumber()) +
+          (yieldUnit !== undefined ? `%${yieldUnit}` : "");
       }
     }
 
@@ -467,6 +814,77 @@ export class Recipe {
     return newRecipe;
   }
 
+  /**
+   * Converts the quantities of the ingredients into the units of another system, see
+   * {@link TargetUnitSystem}. Quantities with a text value or a unit which cannot be converted
+   * are left as-is.
+   *
+   * @example
+   * ```typescript
+   * const recipe = new Recipe("Mix @flour{500%g} with @milk{250%ml}");
+   * const converted = recipe.convertTo("us");
+   * // flour: 1.1 lb, milk: 1 cup
+   * ```
+   *
+   * @param system - The unit system to convert to.
+   * @returns A new Recipe instance with the converted quantities.
+   */
+  convertTo(system: TargetUnitSystem): Recipe {
+    return this.mapQuantities((quantity) =>
+      convertQuantityToSystem(quantity, system, this.units),
+    );
+  }
+
+  /**
+   * Expresses the quantities of the ingredients in their most readable unit, e.g. after scaling.
+   * See {@link humanizeQuantity} for details.
+   *
+   * @example
+   * ```typescript
+   * const recipe = new Recipe("Mix @flour{750%g} with @salt{1/2%tsp}");
+   * const humanized = recipe.scaleBy(2).humanize();
+   * // flour: 1.5 kg, salt: 1 tsp
+   * ```
+   *
+   * @param options - The humanizing options, see {@link HumanizeOptions}
+   * @returns A new Recipe instance with the humanized quantities.
+   */
+  humanize(options: HumanizeOptions = {}): Recipe {
+    return this.mapQuantities((quantity) =>
+      humanizeQuantity(quantity, options, this.units),
+    );
+  }
+
+  /**
+   * Applies a transformation to the quantities of the ingredients and to their quantity parts.
+   * @private
+   * @param transform - The transformation to apply to each quantity.
+   * @returns A new Recipe instance with the transformed quantities.
+   */
+  private mapQuantities(
+    transform: (quantity: QuantityWithUnit) => QuantityWithUnit,
+  ): Recipe {
+    const newRecipe = this.clone();
+
+    for (const ingredient of newRecipe.ingredients) {
+      if (!ingredient.quantityParts) continue;
+      ingredient.quantityParts = ingredient.quantityParts.map(
+        (quantityPart) => ({
+          ...quantityPart,
+          ...transform(quantityPart),
+        }),
+      );
+      const total =
+        ingredient.quantityParts.length === 1
+          ? ingredient.quantityParts[0]!
+          : transform({ value: ingredient.quantity!, unit: ingredient.unit });
+      ingredient.quantity = total.value;
+      ingredient.unit = total.unit;
+    }
+
+    return newRecipe;
+  }
+
   /**
    * Gets the number of servings for the recipe.
    * @private
@@ -479,6 +897,63 @@ export class Recipe {
     return undefined;
   }
 
+  /**
+   * Sums the durations of the timers of the recipe, per section and overall. Ranges
+   * such as `~{10-15%minutes}` give different minimum and maximum durations.
+   *
+   * @example
+   * ```typescript
+   * const recipe = new Recipe("Boil for ~{10-15%minutes} then rest ~{1%h}");
+   * recipe.getTimersDuration().total;
+   * // { min: 4200, max: 4500 }
+   * ```
+   *
+   * @returns The total durations in seconds, see {@link TimersDuration}
+   */
+  getTimersDuration(): TimersDuration {
+    const result: TimersDuration = {
+      total: { min: 0, max: 0 },
+      sections: [],
+      skipped: 0,
+    };
+    for (const section of this.sections) {
+      let duration: DurationRange = { min: 0, max: 0 };
+      for (const step of section.content) {
+        if (step.type !== "step") continue;
+        for (const item of step.items) {
+          if (item.type !== "timer") continue;
+          const timerDuration = getTimerDuration(this.timers[item.index]!);
+          if (timerDuration) {
+            duration = addDurationRanges(duration, timerDuration);
+          } else {
+            result.skipped++;
+          }
+        }
+      }
+      result.sections.push({ name: section.name, duration });
+      result.total = addDurationRanges(result.total, duration);
+    }
+    return result;
+  }
+
+  /**
+   * Serializes the recipe back into a cooklang string. Parsing the output
+   * yields an equivalent recipe, although comments, original spacing and line breaks within
+   * steps are not preserved.
+   *
+   * @example
+   * ```typescript
+   * const recipe = new Recipe("Add @flour{100%g} and @&flour{50%g}");
+   * recipe.scaleBy(2).toCooklang();
+   * // "Add @flour{200%g} and @&flour{100%g}\n"
+   * ```
+   *
+   * @returns The cooklang string.
+   */
+  toCooklang(): string {
+    return serializeRecipe(this);
+  }
+
   /**
    * Clones the recipe.
    * @returns A new Recipe instance with the same properties.
@@ -496,6 +971,21 @@ export class Recipe {
     ) as Cookware[];
     newRecipe.timers = JSON.parse(JSON.stringify(this.timers)) as Timer[];
     newRecipe.servings = this.servings;
+    newRecipe.times = JSON.parse(JSON.stringify(this.times)) as RecipeTimes;
+    newRecipe.diagnostics = JSON.parse(
+      JSON.stringify(this.diagnostics),
+    ) as Diagnostic[];
+    if (this.densities) {
+      newRecipe.densities = this.densities;
+    }
+    if (this.units) {
+      newRecipe.units = this.units;
+    }
+    if (this.metadataSpans) {
+      newRecipe.metadataSpans = JSON.parse(
+        JSON.stringify(this.metadataSpans),
+      ) as MetadataSpans;
+    }
     return newRecipe;
   }
 }
@@ -0,0 +1,273 @@
+import { Recipe } from "./recipe";
+import type {
+  CollectionRecipe,
+  ParseOptions,
+  RecipeFilter,
+  RecipeIndexField,
+  RecipeLoader,
+  RecipeQuery,
+  RecipeQueryResult,
+} from "../types";
+
+const indexFields: RecipeIndexField[] = [
+  "tags",
+  "course",
+  "cuisine",
+  "diet",
+  "category",
+  "ingredients",
+  "cookware",
+];
+
+const normalizeTerm = (term: string) => term.toLowerCase().trim();
+
+/**
+ * Lists the terms by which a recipe is indexed.
+ * @param recipe - The recipe.
+ * @returns The normalized terms of the recipe, by indexed field.
+ */
+function getIndexTerms(recipe: Recipe): Record<RecipeIndexField, string[]> {
+  const { metadata } = recipe;
+  const split = (field: "course" | "cuisine" | "diet" | "category") => {
+    const value = metadata[field];
+    if (value) return value.split(",");
+    // Lists, e.g. `diet: [vegetarian, gluten-free]`, are kept as custom metadata
+    const list = metadata.custom?.[field];
+    return Array.isArray(list)
+      ? list
+          .filter((item) => ["string", "number"].includes(typeof item))
+          .map(String)
+      : [];
+  };
+  const terms: Record<RecipeIndexField, string[]> = {
+    tags: metadata.tags ?? [],
+    course: split("course"),
+    cuisine: split("cuisine"),
+    diet: split("diet"),
+    category: split("category"),
+    ingredients: recipe.ingredients.map((ingredient) => ingredient.name),
+    cookware: recipe.cookware.map((cookware) => cookware.name),
+  };
+  for (const field of indexFields) {
+    terms[field] = [...new Set(terms[field].map(normalizeTerm))].filter(
+      (term) => term !== "",
+    );
+  }
+  return terms;
+}
+
+/**
+ * Collection of recipes, indexed by their metadata, ingredients and cookware to be queried.
+ *
+ * ## Usage
+ *
+ * Add recipes to the collection with {@link RecipeCollection.set | set()}, either as cooklang
+ * strings or parsed recipes, or load them with a {@link RecipeLoader} with
+ * {@link RecipeCollection.load | load()}. Each recipe is identified by its path.
+ *
+ * Recipes can then be looked up with {@link RecipeCollection.query | query()}, see {@link RecipeQuery},
+ * and the indexed values, e.g. all the tags, listed with {@link RecipeCollection.values | values()}.
+ *
+ * @example
+ * ```typescript
+ * import { FileSystemRecipeLoader, RecipeCollection } from @tmlmt/cooklang-parser;
+ *
+ * const collection = new RecipeCollection();
+ * await collection.load(new FileSystemRecipeLoader("./recipes"), [
+ *   "mains/ratatouille.cook",
+ *   "mains/chicken curry.cook",
+ * ]);
+ *
+ * const { total, recipes } = collection.query({
+ *   diet: "vegetarian",
+ *   course: "main",
+ *   cookware: "dutch oven",
+ *   exclude: { ingredients: "chicken" },
+ *   maxTime: 30,
+ *   limit: 10,
+ * });
+ * // recipes: [{ path: "mains/ratatouille.cook", recipe: Recipe {...} }]
+ * ```
+ *
+ * @category Classes
+ */
+export class RecipeCollection {
+  /**
+   * The options used to parse the recipes added as strings, see {@link ParseOptions}
+   */
+  options: ParseOptions;
+  private recipes = new Map<string, Recipe>();
+  // Terms by which each recipe was indexed, as the recipe may have been changed since
+  private terms = new Map<string, Record<RecipeIndexField, string[]>>();
+  private index = new Map<RecipeIndexField, Map<string, Set<string>>>(
+    indexFields.map((field) => [field, new Map()]),
+  );
+
+  /**
+   * Creates a new RecipeCollection instance.
+   * @param options - The options used to parse the recipes added as strings.
+   */
+  constructor(options: ParseOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * The number of recipes in the collection.
+   */
+  get size(): number {
+    return this.recipes.size;
+  }
+
+  /**
+   * Adds or replaces a recipe. The recipe is indexed as it is when added, so it must be set again to be
+   * reindexed after being changed.
+   * @param path - The path of the recipe, e.g. `mains/ratatouille.cook`.
+   * @param recipe - The recipe, or its cooklang content.
+   * @returns The added recipe.
+   */
+  set(path: string, recipe: Recipe | string): Recipe {
+    const parsed =
+      typeof recipe === "string" ? new Recipe(recipe, this.options) : recipe;
+    this.delete(path);
+    this.recipes.set(path, parsed);
+    const terms = getIndexTerms(parsed);
+    this.terms.set(path, terms);
+    for (const field of indexFields) {
+      const fieldIndex = this.index.get(field)!;
+      for (const term of terms[field]) {
+        let paths = fieldIndex.get(term);
+        if (!paths) {
+          paths = new Set();
+          fieldIndex.set(term, paths);
+        }
+        paths.add(path);
+      }
+    }
+    return parsed;
+  }
+
+  /**
+   * Loads recipes with a loader and adds them to the collection.
+   * @param loader - The loader of the recipes, see {@link RecipeLoader}
+   * @param paths - The paths of the recipes to load.
+   * @throws {@link RecipeNotFoundError} if a recipe cannot be found by the loader, in which case no recipe is added
+   */
+  async load(loader: RecipeLoader, paths: string[]) {
+    const contents = await Promise.all(paths.map((path) => loader.load(path)));
+    paths.forEach((path, i) => this.set(path, contents[i]!));
+  }
+
+  /**
+   * Gets a recipe of the collection.
+   * @param path - The path of the recipe.
+   * @returns The recipe, or `undefined` if it is not in the collection.
+   */
+  get(path: string): Recipe | undefined {
+    return this.recipes.get(path);
+  }
+
+  /**
+   * Removes a recipe from the collection.
+   * @param path - The path of the recipe.
+   */
+  delete(path: string) {
+    const terms = this.terms.get(path);
+    if (!terms) return;
+    this.recipes.delete(path);
+    this.terms.delete(path);
+    for (const field of indexFields) {
+      const fieldIndex = this.index.get(field)!;
+      for (const term of terms[field]) {
+        const paths = fieldIndex.get(term)!;
+        paths.delete(path);
+        if (paths.size === 0) fieldIndex.delete(term);
+      }
+    }
+  }
+
+  /**
+   * Lists the values of an indexed field, e.g. all the tags of the recipes.
+   * @param field - The indexed field.
+   * @returns The lowercased values, sorted alphabetically.
+   */
+  values(field: RecipeIndexField): string[] {
+    return [...this.index.get(field)!.keys()].sort((a, b) =>
+      a.localeCompare(b),
+    );
+  }
+
+  /**
+   * Looks up the recipes of the collection.
+   * @param query - The query, see {@link RecipeQuery}. Defaults to all the recipes.
+   * @returns The number of matching recipes, and the requested page of them.
+   */
+  query(query: RecipeQuery = {}): RecipeQueryResult {
+    const { exclude = {}, search, maxTime, sortBy, order, offset = 0 } = query;
+    const included = this.match(query, "every");
+    const excluded = this.match(exclude, "some");
+    const searchTerm = search === undefined ? undefined : normalizeTerm(search);
+
+    const recipes: CollectionRecipe[] = [...this.recipes]
+      .filter(([path]) => included(path) && !excluded(path))
+      .map(([path, recipe]) => ({ path, recipe }))
+      .filter(
+        ({ recipe }) =>
+          (searchTerm === undefined ||
+            normalizeTerm(recipe.metadata.title ?? "").includes(searchTerm)) &&
+          (maxTime === undefined ||
+            (recipe.times.total !== undefined &&
+              recipe.times.total.minutes <= maxTime)),
+      );
+
+    if (sortBy) {
+      const direction = order === "desc" ? -1 : 1;
+      const title = ({ path, recipe }: CollectionRecipe) =>
+        recipe.metadata.title ?? path;
+      recipes.sort((a, b) => {
+        if (sortBy === "title") {
+          return direction * title(a).localeCompare(title(b));
+        }
+        // Recipes without total time come last
+        const timeA = a.recipe.times.total?.minutes;
+        const timeB = b.recipe.times.total?.minutes;
+        if (timeA === undefined || timeB === undefined) {
+          return Number(timeA === undefined) - Number(timeB === undefined);
+        }
+        return direction * (timeA - timeB);
+      });
+    } else if (order === "desc") {
+      recipes.reverse();
+    }
+
+    return {
+      total: recipes.length,
+      recipes: recipes.slice(
+        offset,
+        query.limit === undefined ? undefined : offset + query.limit,
+      ),
+    };
+  }
+
+  /**
+   * Builds a predicate telling whether a recipe has the terms of a filter.
+   * @param filter - The terms to look for.
+   * @param mode - Whether the recipe must have `every` term, or `some` of them.
+   * @returns The predicate, taking the path of a recipe.
+   */
+  private match(
+    filter: RecipeFilter,
+    mode: "every" | "some",
+  ): (path: string) => boolean {
+    const termPaths: Set<string>[] = [];
+    for (const field of indexFields) {
+      const terms = filter[field];
+      if (terms === undefined) continue;
+      for (const term of Array.isArray(terms) ? terms : [terms]) {
+        termPaths.push(
+          this.index.get(field)!.get(normalizeTerm(term)) ?? new Set(),
+        );
+      }
+    }
+    return (path) => termPaths[mode]((paths) => paths.has(path));
+  }
+}
@@ -0,0 +1,156 @@
+import { Recipe } from "./recipe";
+import type {
+  ParseOptions,
+  RecipeLoader,
+  ResolvedRecipe,
+  SubRecipe,
+} from "../types";
+import { CircularRecipeReferenceError } from "../errors";
+
+/**
+ * Resolves a path relative to the directory of another one, e.g. `../sauces/tomato.cook`
+ * relative to `mains/pizza.cook` into `sauces/tomato.cook`
+ * @param base - The path of the referencing recipe.
+ * @param path - The path to resolve.
+ * @returns The normalized path.
+ */
+function resolveRecipePath(base: string, path: string): string {
+  const joined = path.startsWith("/")
+    ? path
+    : [...base.split("/").slice(0, -1), path].join("/");
+  const absolute = joined.startsWith("/");
+  const segments: string[] = [];
+  for (const segment of joined.split("/")) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === ".." && segments.length > 0 && segments.at(-1) !== "..") {
+      segments.pop();
+    } else if (segment !== ".." || !absolute) {
+      segments.push(segment);
+    }
+  }
+  return (absolute ? "/" : "") + segments.join("/");
+}
+
+/**
+ * Resolver of the recipes referenced by other recipes, e.g. `@./essentials/pizza dough{1}` or `@@tomato sauce{}`.
+ *
+ * ## Usage
+ *
+ * Create a resolver with a {@link RecipeLoader} which gives access to your recipes, e.g. an
+ * {@link InMemoryRecipeLoader} or a {@link FileSystemRecipeLoader}, then either load a recipe and the
+ * recipes it references with {@link RecipeResolver.load | load()}, or resolve the references of an
+ * already parsed recipe with {@link RecipeResolver.resolve | resolve()}.
+ *
+ * Paths of referenced recipes are relative to the referencing recipe. Each recipe is only loaded and
+ * parsed once by a resolver, and recipes referencing each other throw a {@link CircularRecipeReferenceError}.
+ *
+ * @example
+ * ```typescript
+ * import { FileSystemRecipeLoader, RecipeResolver } from @tmlmt/cooklang-parser;
+ *
+ * const resolver = new RecipeResolver(new FileSystemRecipeLoader("./recipes"));
+ * const pizza = await resolver.load("mains/pizza.cook");
+ * // pizza.subRecipes[0]:
+ * // { ingredientIndex: 0, path: "essentials/pizza dough.cook", recipe: Recipe {...}, subRecipes: [] }
+ * ```
+ *
+ * @category Classes
+ */
+export class RecipeResolver {
+  /**
+   * The loader of the recipes.
+   */
+  loader: RecipeLoader;
+  /**
+   * The options used to parse the loaded recipes, see {@link ParseOptions}
+   */
+  options: ParseOptions;
+  private cache = new Map<string, Promise<Recipe>>();
+
+  /**
+   * Creates a new RecipeResolver instance.
+   * @param loader - The loader of the recipes.
+   * @param options - The options used to parse the loaded recipes.
+   */
+  constructor(loader: RecipeLoader, options: ParseOptions = {}) {
+    this.loader = loader;
+    this.options = options;
+  }
+
+  /**
+   * Loads a recipe and, recursively, the recipes it references.
+   * @param path - The path of the recipe.
+   * @returns The recipe and the recipes it references.
+   * @throws {@link RecipeNotFoundError} if a recipe cannot be found by the loader
+   * @throws {@link CircularRecipeReferenceError} if recipes reference each other
+   */
+  async load(path: string): Promise<ResolvedRecipe> {
+    const normalizedPath = resolveRecipePath("", path);
+    return this.resolveTree(
+      await this.getRecipe(normalizedPath),
+      normalizedPath,
+      [normalizedPath],
+    );
+  }
+
+  /**
+   * Loads, recursively, the recipes referenced by a recipe.
+   * @param recipe - The recipe.
+   * @param path - The path of the recipe, against which the paths of the referenced recipes are resolved.
+   *   Defaults to the root of the loader.
+   * @returns The recipe and the recipes it references.
+   * @throws {@link RecipeNotFoundError} if a recipe cannot be found by the loader
+   * @throws {@link CircularRecipeReferenceError} if recipes reference each other
+   */
+  async resolve(recipe: Recipe, path: string = ""): Promise<ResolvedRecipe> {
+    const normalizedPath = resolveRecipePath("", path);
+    return this.resolveTree(
+      recipe,
+      normalizedPath,
+      normalizedPath ? [normalizedPath] : [],
+    );
+  }
+
+  /**
+   * Empties the cache of loaded recipes, e.g. after some recipes were modified.
+   */
+  clearCache() {
+    this.cache.clear();
+  }
+
+  private getRecipe(path: string): Promise<Recipe> {
+    let recipe = this.cache.get(path);
+    if (!recipe) {
+      recipe = this.loader
+        .load(path)
+        .then((content) => new Recipe(content, this.options));
+      this.cache.set(path, recipe);
+      // Failed loads are not cached, so that they can be retried
+      recipe.catch(() => this.cache.delete(path));
+    }
+    return recipe;
+  }
+
+  private async resolveTree(
+    recipe: Recipe,
+    path: string,
+    chain: string[],
+  ): Promise<ResolvedRecipe> {
+    const subRecipes: SubRecipe[] = [];
+    for (const [index, ingredient] of recipe.ingredients.entries()) {
+      // Only ingredients which are recipes have extras
+      if (!ingredient.extras) continue;
+      const subPath = resolveRecipePath(path, ingredient.extras.path);
+      if (chain.includes(subPath)) {
+        throw new CircularRecipeReferenceError([...chain, subPath]);
+      }
+      const subRecipe = await this.resolveTree(
+        await this.getRecipe(subPath),
+        subPath,
+        [...chain, subPath],
+      );
+      subRecipes.push({ ingredientIndex: index, ...subRecipe });
+    }
+    return { path, recipe, subRecipes };
+  }
+}
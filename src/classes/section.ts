@@ -1,4 +1,4 @@
-import type { Step, Note } from "../types";
+import type { Step, Note, SourceSpan } from "../types";
 
 /**
  * Represents a recipe section
@@ -16,6 +16,8 @@ export class Section {
   name: string;
   /** An array of steps and notes that make up the content of the section. */
   content: (Step | Note)[] = [];
+  /** The source span of the section header. Only set if parsed with {@link ParseOptions.spans} */
+  span?: SourceSpan;
 
   /**
    * Creates an instance of Section.
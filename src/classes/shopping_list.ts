@@ -1,12 +1,27 @@
 import { CategoryConfig } from "./category_config";
+import type { DensityRegistry } from "./density_registry";
+import type { UnitRegistry } from "./unit_registry";
+import { Pantry } from "./pantry";
+import { Quantity } from "./quantity";
 import { Recipe } from "./recipe";
+import type { RecipeResolver } from "./recipe_resolver";
 import type {
-  Ingredient,
   CategorizedIngredients,
   AddedRecipe,
   AddedIngredient,
+  HumanizeOptions,
+  PantryItem,
+  QuantityWithUnit,
+  ResolvedRecipe,
+  SubRecipe,
 } from "../types";
-import { addQuantities, type Quantity } from "../units";
+import {
+  addQuantities,
+  humanizeQuantity,
+  normalizeUnit,
+  subtractQuantities,
+} from "../units";
+import { scaleSubRecipes } from "../sub_recipes";
 
 /**
  * Shopping List generator.
@@ -16,6 +31,7 @@ import { addQuantities, type Quantity } from "../units";
  * - Create a new ShoppingList instance with an optional category configuration (see {@link ShoppingList."constructor" | constructor})
  * - Add recipes, scaling them as needed (see {@link ShoppingList.add_recipe | add_recipe()})
  * - Categorize the ingredients (see {@link ShoppingList.categorize | categorize()})
+ * - Optionally, deduct what is already available at home (see {@link ShoppingList.set_pantry | set_pantry()})
  *
  * @example
  *
@@ -38,7 +54,7 @@ export class ShoppingList {
   /**
    * The ingredients in the shopping list.
    */
-  ingredients: Ingredient[] = [];
+  ingredients: AddedIngredient[] = [];
   /**
    * The recipes in the shopping list.
    */
@@ -51,6 +67,36 @@ export class ShoppingList {
    * The categorized ingredients in the shopping list.
    */
   categories?: CategorizedIngredients;
+  /**
+   * The options used to express the quantities of the shopping list in their most readable unit.
+   * Quantities are not humanized if undefined, see {@link ShoppingList.set_humanize_options | set_humanize_options()}
+   */
+  humanize_options?: HumanizeOptions;
+  /**
+   * The density registry used to add mass and volume quantities of the same ingredient, see
+   * {@link ShoppingList.set_density_registry | set_density_registry()}
+   */
+  density_registry?: DensityRegistry;
+  /**
+   * The unit registry used to recognize, add and humanize the units of the quantities, see
+   * {@link ShoppingList.set_unit_registry | set_unit_registry()}
+   */
+  unit_registry?: UnitRegistry;
+  /**
+   * The pantry whose ingredients are deducted from the quantities of the shopping list, see
+   * {@link ShoppingList.set_pantry | set_pantry()}
+   */
+  pantry?: Pantry;
+  /**
+   * The resolver used to load recipes and the recipes they reference, see
+   * {@link ShoppingList.add_recipe_from | add_recipe_from()}
+   */
+  recipe_resolver?: RecipeResolver;
+  /**
+   * The names or paths of the referenced recipes which are bought ready-made, and therefore listed
+   * as ingredients instead of being expanded, see {@link ShoppingList.set_ready_made_recipes | set_ready_made_recipes()}
+   */
+  ready_made_recipes?: string[];
 
   /**
    * Creates a new ShoppingList instance
@@ -72,71 +118,195 @@ export class ShoppingList {
       } else {
         scaledRecipe = addedRecipe.recipe.scaleTo(addedRecipe.servings);
       }
+      // Referenced recipes are scaled to the quantities of the scaled recipe
+      const subRecipes = addedRecipe.subRecipes
+        ? scaleSubRecipes({
+            path: addedRecipe.path!,
+            recipe: scaledRecipe,
+            subRecipes: addedRecipe.subRecipes,
+          }).subRecipes
+        : [];
+      this.add_ingredients(scaledRecipe, subRecipes, addedRecipe.path);
+    }
 
-      for (const ingredient of scaledRecipe.ingredients) {
-        // Do not add hidden ingredients to the shopping list
-        if (ingredient.flags && ingredient.flags.includes("hidden")) {
-          continue;
-        }
+    if (this.pantry) {
+      this.deduct_pantry(this.pantry);
+    }
 
-        const existingIngredient = this.ingredients.find(
-          (i) => i.name === ingredient.name,
+    if (this.humanize_options) {
+      for (const ingredient of this.ingredients) {
+        if (!ingredient.quantity) continue;
+        const humanized = humanizeQuantity(
+          { value: ingredient.quantity, unit: ingredient.unit },
+          this.humanize_options,
+          this.unit_registry,
         );
+        ingredient.quantity = humanized.value;
+        ingredient.unit = humanized.unit;
+      }
+    }
+  }
+
+  private add_ingredients(
+    recipe: Recipe,
+    subRecipes: SubRecipe[],
+    source?: string,
+  ) {
+    for (const [index, ingredient] of recipe.ingredients.entries()) {
+      // Do not add hidden ingredients to the shopping list
+      if (ingredient.flags && ingredient.flags.includes("hidden")) {
+        continue;
+      }
+      const subRecipe = subRecipes.find((r) => r.ingredientIndex === index);
+      if (subRecipe && !this.is_ready_made(ingredient.name, subRecipe.path)) {
+        this.add_ingredients(
+          subRecipe.recipe,
+          subRecipe.subRecipes,
+          subRecipe.path,
+        );
+        continue;
+      }
+      // Units only known to the recipe, e.g. localized aliases, are listed with their canonical name
+      const unit =
+        ingredient.unit && !normalizeUnit(ingredient.unit, this.unit_registry)
+          ? (normalizeUnit(ingredient.unit, recipe.units)?.name ??
+            ingredient.unit)
+          : ingredient.unit;
 
-        let addSeparate = false;
-        try {
-          if (existingIngredient && ingredient.quantity) {
-            if (existingIngredient.quantity) {
-              const newQuantity: Quantity = addQuantities(
-                {
-                  value: existingIngredient.quantity,
-                  unit: existingIngredient.unit ?? "",
-                },
-                {
-                  value: ingredient.quantity,
-                  unit: ingredient.unit ?? "",
-                },
-              );
-              existingIngredient.quantity = newQuantity.value;
-              if (newQuantity.unit) {
-                existingIngredient.unit = newQuantity.unit;
-              }
-            } else {
-              existingIngredient.quantity = ingredient.quantity;
-
-              /* v8 ignore else -- only set unit if it is given -- @preserve */
-              if (ingredient.unit) {
-                existingIngredient.unit = ingredient.unit;
-              }
+      const existingIngredient = this.ingredients.find(
+        (i) => i.name === ingredient.name,
+      );
+
+      let addSeparate = false;
+      try {
+        if (existingIngredient && ingredient.quantity) {
+          if (existingIngredient.quantity) {
+            const newQuantity: QuantityWithUnit = addQuantities(
+              {
+                value: existingIngredient.quantity,
+                unit: existingIngredient.unit ?? "",
+              },
+              {
+                value: ingredient.quantity,
+                unit: unit ?? "",
+              },
+              {
+                density: this.density_registry?.get(ingredient.name),
+                units: this.unit_registry,
+              },
+            );
+            existingIngredient.quantity = newQuantity.value;
+            if (newQuantity.unit) {
+              existingIngredient.unit = newQuantity.unit;
+            }
+          } else {
+            existingIngredient.quantity = ingredient.quantity;
+
+            /* v8 ignore else -- only set unit if it is given -- @preserve */
+            if (unit) {
+              existingIngredient.unit = unit;
             }
           }
-        } catch {
-          // Cannot add quantities, adding as separate ingredients
-          addSeparate = true;
         }
+      } catch {
+        // Cannot add quantities, adding as separate ingredients
+        addSeparate = true;
+      }
 
-        if (!existingIngredient || addSeparate) {
-          const newIngredient: AddedIngredient = { name: ingredient.name };
-          if (ingredient.quantity) {
-            newIngredient.quantity = ingredient.quantity;
-          }
-          if (ingredient.unit) {
-            newIngredient.unit = ingredient.unit;
-          }
-          this.ingredients.push(newIngredient);
+      if (!existingIngredient || addSeparate) {
+        const newIngredient: AddedIngredient = { name: ingredient.name };
+        if (ingredient.quantity) {
+          newIngredient.quantity = ingredient.quantity;
         }
+        if (unit) {
+          newIngredient.unit = unit;
+        }
+        if (source) {
+          newIngredient.sources = [source];
+        }
+        this.ingredients.push(newIngredient);
+      } else if (source && !existingIngredient.sources?.includes(source)) {
+        existingIngredient.sources = [
+          ...(existingIngredient.sources ?? []),
+          source,
+        ];
+      }
+    }
+  }
+
+  private is_ready_made(name: string, path: string): boolean {
+    return (this.ready_made_recipes ?? []).some(
+      (readyMade) =>
+        readyMade.toLowerCase() === name.toLowerCase() || readyMade === path,
+    );
+  }
+
+  private deduct_pantry(pantry: Pantry) {
+    // What remains available of each pantry item, as ingredients listed separately may share it
+    const stocks = new Map<PantryItem, QuantityWithUnit>();
+
+    for (const ingredient of this.ingredients) {
+      const item = pantry.get(ingredient.name);
+      if (!item) {
+        ingredient.pantryStatus = "needed";
+        continue;
+      }
+      if (!item.quantity || !ingredient.quantity) {
+        ingredient.pantryStatus = "covered";
+        continue;
+      }
+
+      const needed: QuantityWithUnit = {
+        value: ingredient.quantity,
+        unit: ingredient.unit,
+      };
+      const stock = stocks.get(item) ?? {
+        value: item.quantity,
+        unit: item.unit,
+      };
+      const options = {
+        density: this.density_registry?.get(ingredient.name),
+        units: this.unit_registry,
+      };
+      let remaining: QuantityWithUnit;
+      try {
+        remaining = subtractQuantities(needed, stock, options);
+        stocks.set(item, subtractQuantities(stock, needed, options));
+      } catch {
+        // Cannot compare quantities, the ingredient is bought as a whole
+        ingredient.pantryStatus = "needed";
+        continue;
+      }
+
+      if (Quantity.from(remaining.value).equals(Quantity.from(0))) {
+        ingredient.pantryStatus = "covered";
+      } else if (
+        Quantity.fromJSON(remaining).equals(
+          Quantity.fromJSON(needed),
+          this.unit_registry,
+        )
+      ) {
+        ingredient.pantryStatus = "needed";
+      } else {
+        ingredient.pantryStatus = "partial";
       }
+      ingredient.quantity = remaining.value;
     }
   }
 
   /**
    * Adds a recipe to the shopping list, then automatically
    * recalculates the quantities and recategorize the ingredients.
-   * @param recipe - The recipe to add.
+   *
+   * If the recipe is given with the recipes it references (see {@link RecipeResolver}), ingredients which
+   * are recipes (e.g. `@./pizza dough{1}`) are expanded into the ingredients of the referenced recipes,
+   * scaled to the referenced quantities (see {@link scaleSubRecipes}), unless they are bought ready-made
+   * (see {@link ShoppingList.set_ready_made_recipes | set_ready_made_recipes()}).
+   * @param recipe - The recipe to add, or the recipe and the recipes it references.
    * @param scaling - The scaling option for the recipe. Can be either a factor or a number of servings
    */
   add_recipe(
-    recipe: Recipe,
+    recipe: Recipe | ResolvedRecipe,
     scaling?: { factor: number } | { servings: number },
   ): void;
   /**
@@ -148,22 +318,51 @@ export class ShoppingList {
    */
   add_recipe(recipe: Recipe, factor?: number): void;
   add_recipe(
-    recipe: Recipe,
+    recipe: Recipe | ResolvedRecipe,
     scaling?: { factor: number } | { servings: number } | number,
   ): void {
+    const [baseRecipe, subRecipes, path] =
+      recipe instanceof Recipe
+        ? [recipe, undefined, undefined]
+        : [recipe.recipe, recipe.subRecipes, recipe.path];
+    let addedRecipe: AddedRecipe;
     if (typeof scaling === "number" || scaling === undefined) {
-      this.recipes.push({ recipe, factor: scaling ?? 1 });
+      addedRecipe = { recipe: baseRecipe, factor: scaling ?? 1 };
     } else {
       if ("factor" in scaling) {
-        this.recipes.push({ recipe, factor: scaling.factor });
+        addedRecipe = { recipe: baseRecipe, factor: scaling.factor };
       } else {
-        this.recipes.push({ recipe, servings: scaling.servings });
+        addedRecipe = { recipe: baseRecipe, servings: scaling.servings };
       }
     }
+    if (subRecipes) {
+      addedRecipe.subRecipes = subRecipes;
+      addedRecipe.path = path;
+    }
+    this.recipes.push(addedRecipe);
     this.calculate_ingredients();
     this.categorize();
   }
 
+  /**
+   * Loads a recipe and the recipes it references with the {@link ShoppingList.recipe_resolver | recipe resolver},
+   * then adds it to the shopping list, see {@link ShoppingList.add_recipe | add_recipe()}
+   * @param path - The path of the recipe to load.
+   * @param scaling - The scaling option for the recipe. Can be either a factor or a number of servings
+   * @throws `Error` if no recipe resolver is set, see {@link ShoppingList.set_recipe_resolver | set_recipe_resolver()}
+   * @throws {@link RecipeNotFoundError} if a recipe cannot be found
+   * @throws {@link CircularRecipeReferenceError} if recipes reference each other
+   */
+  async add_recipe_from(
+    path: string,
+    scaling?: { factor: number } | { servings: number },
+  ): Promise<void> {
+    if (!this.recipe_resolver) {
+      throw new Error("No recipe resolver set");
+    }
+    this.add_recipe(await this.recipe_resolver.load(path), scaling);
+  }
+
   /**
    * Removes a recipe from the shopping list, then automatically
    * recalculates the quantities and recategorize the ingredients.s
@@ -191,6 +390,76 @@ export class ShoppingList {
     this.categorize();
   }
 
+  /**
+   * Sets the density registry used to add mass and volume quantities of the same ingredient
+   * (e.g. `100 g` and `1 cup` of flour), then automatically recalculates the quantities and
+   * recategorize the ingredients.
+   * @param registry - The density registry, or `undefined` to list such quantities separately.
+   */
+  set_density_registry(registry?: DensityRegistry) {
+    this.density_registry = registry;
+    this.calculate_ingredients();
+    this.categorize();
+  }
+
+  /**
+   * Sets the unit registry used to recognize, add and humanize the units of the quantities, then
+   * automatically recalculates the quantities and recategorize the ingredients.
+   * @param registry - The unit registry, or `undefined` to use the built-in units.
+   */
+  set_unit_registry(registry?: UnitRegistry) {
+    this.unit_registry = registry;
+    this.calculate_ingredients();
+    this.categorize();
+  }
+
+  /**
+   * Sets the resolver used to load recipes and the recipes they reference with
+   * {@link ShoppingList.add_recipe_from | add_recipe_from()}
+   * @param resolver - The recipe resolver, or `undefined` to remove it.
+   */
+  set_recipe_resolver(resolver?: RecipeResolver) {
+    this.recipe_resolver = resolver;
+  }
+
+  /**
+   * Sets the referenced recipes which are bought ready-made, and therefore listed as ingredients instead
+   * of being expanded into their own ingredients, then automatically recalculates the quantities and
+   * recategorize the ingredients.
+   * @param recipes - The names (e.g. `pizza dough`) or paths (e.g. `essentials/pizza dough.cook`) of the
+   *   referenced recipes, or `undefined` to expand all of them.
+   */
+  set_ready_made_recipes(recipes?: string[]) {
+    this.ready_made_recipes = recipes;
+    this.calculate_ingredients();
+    this.categorize();
+  }
+
+  /**
+   * Sets the pantry whose ingredients are deducted from the quantities of the shopping list, then
+   * automatically recalculates the quantities and recategorize the ingredients. The quantities of the
+   * shopping list become what remains to be bought, and each ingredient is marked as covered, partially
+   * covered or still needed with its {@link AddedIngredient.pantryStatus | pantryStatus}.
+   * @param pantry - The pantry configuration to parse, or `undefined` to remove the pantry.
+   */
+  set_pantry(pantry?: string | Pantry) {
+    this.pantry = typeof pantry === "string" ? new Pantry(pantry) : pantry;
+    this.calculate_ingredients();
+    this.categorize();
+  }
+
+  /**
+   * Sets whether and how the quantities of the shopping list are expressed in their most readable unit
+   * (e.g. `1.5 kg` instead of `1500 g`), then automatically recalculates the quantities and
+   * recategorize the ingredients.
+   * @param options - The humanizing options (see {@link HumanizeOptions}), or `false` to keep the quantities as added.
+   */
+  set_humanize_options(options: HumanizeOptions | false) {
+    this.humanize_options = options || undefined;
+    this.calculate_ingredients();
+    this.categorize();
+  }
+
   /**
    * Categorizes the ingredients in the shopping list
    * Will use the category config if any, otherwise all ingredients will be placed in the "other" category
@@ -0,0 +1,260 @@
+import type { LocalePack, UnitDefinition } from "../types";
+
+// Base units: mass -> gram (g), volume -> milliliter (ml)
+const defaultUnits: UnitDefinition[] = [
+  // Mass (Metric)
+  {
+    name: "g",
+    type: "mass",
+    system: "metric",
+    aliases: ["gram", "grams", "grammes"],
+    toBase: 1,
+  },
+  {
+    name: "kg",
+    type: "mass",
+    system: "metric",
+    aliases: ["kilogram", "kilograms", "kilogrammes", "kilos", "kilo"],
+    toBase: 1000,
+  },
+  // Mass (Imperial)
+  {
+    name: "oz",
+    type: "mass",
+    system: "imperial",
+    aliases: ["ounce", "ounces"],
+    toBase: 28.3495,
+  },
+  {
+    name: "lb",
+    type: "mass",
+    system: "imperial",
+    aliases: ["pound", "pounds"],
+    toBase: 453.592,
+  },
+
+  // Volume (Metric)
+  {
+    name: "ml",
+    type: "volume",
+    system: "metric",
+    aliases: ["milliliter", "milliliters", "millilitre", "millilitres", "cc"],
+    toBase: 1,
+  },
+  {
+    name: "cl",
+    type: "volume",
+    system: "metric",
+    aliases: ["centiliter", "centiliters", "centilitre", "centilitres"],
+    toBase: 10,
+  },
+  {
+    name: "dl",
+    type: "volume",
+    system: "metric",
+    aliases: ["deciliter", "deciliters", "decilitre", "decilitres"],
+    toBase: 100,
+  },
+  {
+    name: "l",
+    type: "volume",
+    system: "metric",
+    aliases: ["liter", "liters", "litre", "litres"],
+    toBase: 1000,
+  },
+  {
+    name: "tsp",
+    type: "volume",
+    system: "metric",
+    aliases: ["teaspoon", "teaspoons"],
+    toBase: 5,
+  },
+  {
+    name: "tbsp",
+    type: "volume",
+    system: "metric",
+    aliases: ["tablespoon", "tablespoons"],
+    toBase: 15,
+  },
+
+  // Volume (Imperial)
+  {
+    name: "fl-oz",
+    type: "volume",
+    system: "imperial",
+    aliases: ["fluid ounce", "fluid ounces"],
+    toBase: 29.5735,
+  },
+  {
+    name: "cup",
+    type: "volume",
+    system: "imperial",
+    aliases: ["cups"],
+    toBase: 236.588,
+  },
+  {
+    name: "pint",
+    type: "volume",
+    system: "imperial",
+    aliases: ["pints"],
+    toBase: 473.176,
+  },
+  {
+    name: "quart",
+    type: "volume",
+    system: "imperial",
+    aliases: ["quarts"],
+    toBase: 946.353,
+  },
+  {
+    name: "gallon",
+    type: "volume",
+    system: "imperial",
+    aliases: ["gallons"],
+    toBase: 3785.41,
+  },
+  {
+    name: "imp-fl-oz",
+    type: "volume",
+    system: "imperial",
+    aliases: ["imperial fluid ounce", "imperial fluid ounces"],
+    toBase: 28.4131,
+  },
+  {
+    name: "imp-pint",
+    type: "volume",
+    system: "imperial",
+    aliases: ["imperial pint", "imperial pints"],
+    toBase: 568.261,
+  },
+  {
+    name: "imp-gallon",
+    type: "volume",
+    system: "imperial",
+    aliases: ["imperial gallon", "imperial gallons"],
+    toBase: 4546.09,
+  },
+
+  // Count units (no conversion, but recognized as a type)
+  {
+    name: "piece",
+    type: "count",
+    system: "metric",
+    aliases: ["pieces", "pc"],
+    toBase: 1,
+  },
+];
+
+/**
+ * Registry of the units which quantities can be expressed in, used to normalize, add and convert quantities.
+ *
+ * ## Usage
+ *
+ * The registry contains the built-in units by default (see the [units guide](/guide-units)), which can be
+ * extended or overridden with {@link UnitRegistry.add | add()}, e.g. to add a `pinch` or a Japanese `go`,
+ * or to use a metric cup of 250 ml. It can then be provided to a {@link Recipe} with {@link ParseOptions.units},
+ * or to a {@link ShoppingList} with {@link ShoppingList.set_unit_registry | set_unit_registry()}.
+ *
+ * @example
+ * ```typescript
+ * import { UnitRegistry, Recipe } from @tmlmt/cooklang-parser;
+ *
+ * const units = new UnitRegistry();
+ * units.add({ name: "cup", type: "volume", system: "metric", aliases: ["cups"], toBase: 250 });
+ * units.add({ name: "go", type: "volume", system: "japanese", aliases: ["合"], toBase: 180 });
+ *
+ * const recipe = new Recipe("Mix @rice{2%go} and @&rice{1%cup}", { units });
+ * recipe.ingredients[0].quantity;
+ * // { type: "fixed", value: { type: "decimal", value: 0.61 } } (l)
+ * ```
+ *
+ * @category Classes
+ */
+export class UnitRegistry {
+  private definitions: UnitDefinition[] = [];
+  private unitMap = new Map<string, UnitDefinition>();
+
+  /**
+   * Creates a new UnitRegistry instance.
+   * @param withDefaults - Whether to include the built-in units.
+   */
+  constructor(withDefaults: boolean = true) {
+    if (withDefaults) {
+      this.add(...defaultUnits);
+    }
+  }
+
+  /**
+   * The definitions of the units of the registry.
+   */
+  get units(): readonly UnitDefinition[] {
+    return this.definitions;
+  }
+
+  /**
+   * Adds units to the registry. A unit with the same name as an existing one replaces it, and
+   * the aliases of the added units take precedence over the ones of the existing units.
+   * @param definitions - The definitions of the units to add.
+   * @throws `Error` if the conversion factor of a unit is not a positive number
+   */
+  add(...definitions: UnitDefinition[]) {
+    for (const definition of definitions) {
+      if (!(definition.toBase > 0)) {
+        throw new Error(
+          `Invalid conversion factor for unit ${definition.name}: ${definition.toBase}`,
+        );
+      }
+      this.definitions = this.definitions.filter(
+        (def) => def.name.toLowerCase() !== definition.name.toLowerCase(),
+      );
+      this.definitions.push({ ...definition });
+    }
+    this.buildUnitMap();
+  }
+
+  /**
+   * Removes a unit from the registry.
+   * @param unit - The name or one of the aliases of the unit.
+   */
+  remove(unit: string) {
+    const definition = this.get(unit);
+    this.definitions = this.definitions.filter((def) => def !== definition);
+    this.buildUnitMap();
+  }
+
+  /**
+   * Finds the definition of a unit from its name or one of its aliases, case-insensitively
+   * @param unit - The name or alias of the unit.
+   * @returns The definition of the unit, or `undefined` if unknown.
+   */
+  get(unit: string = ""): UnitDefinition | undefined {
+    return this.unitMap.get(unit.toLowerCase().trim());
+  }
+
+  /**
+   * Creates a copy of the registry which also recognizes the unit aliases of a locale.
+   * The registry itself is left unchanged.
+   * @param locale - The locale pack, see {@link getLocalePack}
+   * @returns The localized registry.
+   */
+  localize(locale: LocalePack): UnitRegistry {
+    const registry = new UnitRegistry(false);
+    registry.add(
+      ...this.definitions.map((def) => ({
+        ...def,
+        aliases: [...def.aliases, ...(locale.units[def.name] ?? [])],
+      })),
+    );
+    return registry;
+  }
+
+  private buildUnitMap() {
+    this.unitMap.clear();
+    for (const def of this.definitions) {
+      this.unitMap.set(def.name.toLowerCase(), def);
+      for (const alias of def.aliases) {
+        this.unitMap.set(alias.toLowerCase(), def);
+      }
+    }
+  }
+}
@@ -0,0 +1,228 @@
+import type {
+  Duration,
+  DurationRange,
+  Metadata,
+  RecipeTimes,
+  Timer,
+  TimerScalingPolicy,
+  DecimalValue,
+  FractionValue,
+} from "./types";
+import Big from "big.js";
+
+export interface TimeUnitDefinition {
+  name: string; // canonical name, e.g. 'min'
+  aliases: string[]; // e.g. ['minute', 'minutes']
+  toSeconds: number; // conversion factor to seconds
+}
+
+const timeUnits: TimeUnitDefinition[] = [
+  {
+    name: "s",
+    aliases: ["sec", "secs", "second", "seconds"],
+    toSeconds: 1,
+  },
+  {
+    name: "min",
+    aliases: ["m", "mn", "mins", "minute", "minutes"],
+    toSeconds: 60,
+  },
+  {
+    name: "h",
+    aliases: ["hr", "hrs", "hour", "hours"],
+    toSeconds: 3600,
+  },
+  {
+    name: "d",
+    aliases: ["day", "days"],
+    toSeconds: 86400,
+  },
+];
+
+const timeUnitMap = new Map<string, TimeUnitDefinition>();
+for (const unit of timeUnits) {
+  timeUnitMap.set(unit.name.toLowerCase(), unit);
+  for (const alias of unit.aliases) {
+    timeUnitMap.set(alias.toLowerCase(), unit);
+  }
+}
+
+export function normalizeTimeUnit(
+  unit: string = "",
+): TimeUnitDefinition | undefined {
+  return timeUnitMap.get(unit.toLowerCase().trim());
+}
+
+/**
+ * Converts a number of minutes into an ISO 8601 duration, e.g. `PT1H30M`
+ * @param minutes - The number of minutes.
+ * @returns The ISO 8601 duration.
+ */
+export function toIsoDuration(minutes: number): string {
+  const totalSeconds = Math.round(minutes * 60);
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  if (totalSeconds === 0) {
+    return "PT0M";
+  }
+  return (
+    "PT" +
+    (hours ? `${hours}H` : "") +
+    (mins ? `${mins}M` : "") +
+    (secs ? `${secs}S` : "")
+  );
+}
+
+/**
+ * Parses a human-written duration, e.g. `1h 30min`, `90 minutes`, `1 hour 20 mins`, `1:30` or `PT1H30M`.
+ * Numbers without units are considered as minutes, or as minutes following hours in `1h30`.
+ * @param raw - The duration to parse.
+ * @returns The parsed duration, or `undefined` if it could not be parsed.
+ */
+export function parseDuration(raw: string): Duration | undefined {
+  const input = raw
+    .trim()
+    .toLowerCase()
+    .replace(/(\d),(\d)/g, "$1.$2");
+  let minutes: number | undefined = undefined;
+
+  const isoMatch = input.match(
+    /^p(?:(\d+(?:\.\d+)?)d)?(?:t(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+(?:\.\d+)?)s)?)?$/,
+  );
+  const clockMatch = input.match(/^(\d+):([0-5]\d)(?::([0-5]\d))?$/);
+  if (isoMatch && input !== "p" && input !== "pt") {
+    const [, d = "0", h = "0", m = "0", s = "0"] = isoMatch;
+    minutes = Number(d) * 1440 + Number(h) * 60 + Number(m) + Number(s) / 60;
+  } else if (clockMatch) {
+    const [, h, m, s = "0"] = clockMatch;
+    minutes = Number(h) * 60 + Number(m) + Number(s) / 60;
+  } else if (/^\d+(?:\.\d+)?$/.test(input)) {
+    minutes = Number(input);
+  } else {
+    // Sequence of numbers followed by time units, e.g. "1 hour and 20 mins"
+    const partRegex = /(\d+(?:\.\d+)?)\s*([a-z]+)?/g;
+    let cursor = 0;
+    let lastUnit: TimeUnitDefinition | undefined = undefined;
+    let total = 0;
+    for (const match of input.matchAll(partRegex)) {
+      if (!/^(?:[\s,.]|and)*$/.test(input.slice(cursor, match.index))) {
+        return undefined;
+      }
+      cursor = match.index + match[0].length;
+      let unit: TimeUnitDefinition | undefined;
+      if (match[2] === undefined) {
+        // Bare number after hours, as in "1h30"
+        if (lastUnit?.name !== "h" || cursor !== input.length) return undefined;
+        unit = normalizeTimeUnit("min");
+      } else {
+        unit = normalizeTimeUnit(match[2]);
+      }
+      if (unit === undefined) return undefined;
+      total += (Number(match[1]) * unit.toSeconds) / 60;
+      lastUnit = unit;
+    }
+    if (lastUnit === undefined || !/^[\s.]*$/.test(input.slice(cursor))) {
+      return undefined;
+    }
+    minutes = total;
+  }
+
+  return { raw, minutes, iso: toIsoDuration(minutes) };
+}
+
+/**
+ * Extracts the preparation, cooking and total times of a recipe from its metadata.
+ * The total time defaults to the sum of the preparation and cooking times if not specified.
+ * @param metadata - The metadata of the recipe.
+ * @returns The parsed times. Times which are not specified or could not be parsed are omitted.
+ */
+export function extractRecipeTimes(metadata: Metadata): RecipeTimes {
+  const times: RecipeTimes = {};
+  const parse = (value: string | undefined) =>
+    value === undefined ? undefined : parseDuration(value);
+
+  const prep = parse(metadata["prep time"] ?? metadata["time.prep"]);
+  const cook = parse(metadata["cook time"] ?? metadata["time.cook"]);
+  const total = parse(
+    metadata["time required"] ?? metadata.time ?? metadata.duration,
+  );
+  if (prep) times.prep = prep;
+  if (cook) times.cook = cook;
+  if (total) {
+    times.total = total;
+  } else if (prep || cook) {
+    const minutes = (prep?.minutes ?? 0) + (cook?.minutes ?? 0);
+    times.total = {
+      raw: [prep?.raw, cook?.raw].filter((r) => r !== undefined).join(" + "),
+      minutes,
+      iso: toIsoDuration(minutes),
+    };
+  }
+  return times;
+}
+
+const toNumber = (v: DecimalValue | FractionValue): number =>
+  v.type === "decimal" ? v.value : v.num / v.den;
+
+/**
+ * Gets the duration of a timer in seconds. Ranges give different minimum and maximum durations.
+ * @param timer - The timer.
+ * @returns The duration of the timer, or `undefined` if its unit is not a time unit or its
+ *   duration is not a number.
+ */
+export function getTimerDuration(timer: Timer): DurationRange | undefined {
+  const unit = normalizeTimeUnit(timer.unit);
+  if (unit === undefined) {
+    return undefined;
+  }
+  if (timer.duration.type === "range") {
+    return {
+      min: toNumber(timer.duration.min) * unit.toSeconds,
+      max: toNumber(timer.duration.max) * unit.toSeconds,
+    };
+  }
+  if (timer.duration.value.type === "text") {
+    return undefined;
+  }
+  const seconds = toNumber(timer.duration.value) * unit.toSeconds;
+  return { min: seconds, max: seconds };
+}
+
+/**
+ * Adds two duration ranges
+ * @param d1 - The first duration range.
+ * @param d2 - The second duration range.
+ * @returns The sum of the duration ranges.
+ */
+export function addDurationRanges(
+  d1: DurationRange,
+  d2: DurationRange,
+): DurationRange {
+  return { min: d1.min + d2.min, max: d1.max + d2.max };
+}
+
+/**
+ * Gets the factor by which a timer is scaled when its recipe is scaled
+ * @param timer - The timer.
+ * @param factor - The factor by which the recipe is scaled.
+ * @param policy - The timer scaling policy, see {@link TimerScalingPolicy}
+ * @returns The factor by which the duration of the timer is scaled, `1` if it is not scaled.
+ */
+export function getTimerScalingFactor(
+  timer: Timer,
+  factor: Big,
+  policy: TimerScalingPolicy,
+): Big | number {
+  if (typeof policy === "function") {
+    return policy(timer, factor.toNumber());
+  }
+  if (typeof policy === "object") {
+    // Rounding away floating point inaccuracies, e.g. 8^(2/3) = 3.9999999999999996
+    return Big(Math.pow(factor.toNumber(), policy.exponent)).round(10);
+  }
+  if (policy === "linear" || (policy === "marked" && timer.scalable)) {
+    return factor;
+  }
+  return 1;
+}
@@ -13,3 +13,44 @@ You can either remove the reference to create a new ${item_type} defined as ${ne
     this.name = "ReferencedItemCannotBeRedefinedError";
   }
 }
+
+export class ReferencedItemNotFoundError extends Error {
+  constructor(item_type: "ingredient" | "cookware", item_name: string) {
+    super(
+      `Referenced ${item_type} "${item_name}" not found. A referenced ${item_type} must be declared before being referenced with '&'.`,
+    );
+    this.name = "ReferencedItemNotFoundError";
+  }
+}
+
+export class TimerMissingUnitError extends Error {
+  constructor() {
+    super("Timer missing unit");
+    this.name = "TimerMissingUnitError";
+  }
+}
+
+export class InvalidScalingValueError extends Error {
+  constructor() {
+    super("Scaling variables should be numbers");
+    this.name = "InvalidScalingValueError";
+  }
+}
+
+export class RecipeNotFoundError extends Error {
+  constructor(path: string) {
+    super(`Recipe not found: ${path}`);
+    this.name = "RecipeNotFoundError";
+  }
+}
+
+export class CircularRecipeReferenceError extends Error {
+  /** The paths of the recipes referencing each other, starting and ending with the same recipe */
+  chain: string[];
+
+  constructor(chain: string[]) {
+    super(`Circular recipe reference: ${chain.join(" -> ")}`);
+    this.name = "CircularRecipeReferenceError";
+    this.chain = chain;
+  }
+}
@@ -0,0 +1,248 @@
+import { CooklangDocument } from "./classes/cooklang_document";
+import type { CstNode, FormatOptions } from "./types";
+import { nameBoundaryRegex } from "./serializer";
+
+/**
+ * Default order of the front matter keys, following the fields of {@link Metadata}
+ */
+const defaultMetadataOrder = [
+  "title",
+  "tags",
+  "source",
+  "source.name",
+  "source.url",
+  "source.author",
+  "author",
+  "servings",
+  "yield",
+  "serves",
+  "course",
+  "category",
+  "locale",
+  "prep time",
+  "time.prep",
+  "cook time",
+  "time.cook",
+  "time required",
+  "time",
+  "duration",
+  "difficulty",
+  "cuisine",
+  "diet",
+  "description",
+  "images",
+  "pictures",
+  "image",
+  "picture",
+  "introduction",
+];
+
+/**
+ * Checks whether the braces of a single-word ingredient or cookware can be removed without
+ * merging its name with the node which follows it
+ * @param next - The node following the ingredient or cookware, if any.
+ * @returns `true` if the braces can be removed.
+ */
+function canRemoveBraces(next?: CstNode): boolean {
+  if (next === undefined || next.type === "newline") return true;
+  if (next.type === "text") {
+    return nameBoundaryRegex.test(next.raw) && !next.raw.startsWith("{");
+  }
+  // Block comments are removed along with the whitespaces which follow them
+  return next.type !== "comment" && next.type !== "blockComment";
+}
+
+/**
+ * Rewrites the content of a front matter block: entries are sorted, lists are written in
+ * the same style, and a single space is used after each key.
+ * Lines which are not entries (e.g. comments) stay before the entry which follows them.
+ * @param raw - The front matter block, including the `---` delimiters.
+ * @param options - The formatting options.
+ * @returns The formatted front matter block.
+ */
+function formatFrontMatter(raw: string, options: FormatOptions): string {
+  const order = options.metadataOrder ?? defaultMetadataOrder;
+  const lines = raw.split(/\r\n?|\n/).slice(1, -1);
+
+  const entries: { key: string; lines: string[]; leading: string[] }[] = [];
+  let leading: string[] = [];
+  for (const line of lines) {
+    const keyMatch = line.match(/^([^\s#-][^:]*):(.*)$/);
+    if (keyMatch) {
+      entries.push({
+        key: keyMatch[1]!.trim(),
+        lines: [keyMatch[2]!.trim()],
+        leading,
+      });
+      leading = [];
+    } else if (
+      entries.length > 0 &&
+      leading.length === 0 &&
+      // List items and continuation lines
+      /^(?:\s*-|\s+\S)/.test(line)
+    ) {
+      entries[entries.length - 1]!.lines.push(line);
+    } else {
+      leading.push(line);
+    }
+  }
+
+  const rank = (key: string) => {
+    const index = order.indexOf(key);
+    return index === -1 ? order.length : index;
+  };
+  // Array.prototype.sort is stable, so unlisted keys keep their original order
+  entries.sort((a, b) => rank(a.key) - rank(b.key));
+
+  const formatted: string[] = [];
+  for (const entry of entries) {
+    formatted.push(...entry.leading);
+    const [value, ...continuation] = entry.lines as [string, ...string[]];
+    const inlineList = value.match(/^\[(.*)\]$/);
+    const isBlockList =
+      value === "" &&
+      continuation.length > 0 &&
+      continuation.every((line) => /^\s*-/.test(line));
+    const items = inlineList
+      ? inlineList[1]!
+          .split(",")
+          .map((item) => item.trim())
+          .filter((item) => item !== "")
+      : continuation.map((line) => line.replace(/^\s*-\s*/, "").trim());
+    // Lists whose items could be split differently are kept as-is, e.g. `["salt, pepper"]` or `- salt, pepper`
+    const canRewrite = inlineList
+      ? !/["']/.test(inlineList[1]!)
+      : options.listStyle !== "inline" ||
+        items.every((item) => !/[,[\]{}]/.test(item));
+    if ((inlineList || isBlockList) && canRewrite) {
+      if (options.listStyle === "inline") {
+        formatted.push(`${entry.key}: [${items.join(", ")}]`);
+      } else {
+        formatted.push(`${entry.key}:`, ...items.map((item) => `  - ${item}`));
+      }
+    } else {
+      formatted.push(
+        value === "" ? `${entry.key}:` : `${entry.key}: ${value}`,
+        ...continuation.map((line) => line.trimEnd()),
+      );
+    }
+  }
+  formatted.push(...leading);
+
+  return ["---", ...formatted, "---"].join("\n");
+}
+
+/**
+ * Rewrites a recipe into a canonical style, while preserving its meaning and its comments:
+ * - front matter entries are sorted and lists are written in the same style, see {@link FormatOptions}
+ * - spaces around quantities and units are removed, e.g. `@sugar{0.5%cup}` instead of `@sugar{ 0.5 % cup }`
+ * - empty braces after single-word ingredients and cookware are removed when not needed, e.g. `@salt` instead of `@salt{}`
+ * - section headers are written with the same markers, e.g. `== Dough ==`
+ * - trailing whitespaces are removed and the recipe ends with a single line break
+ *
+ * Formatting an already formatted recipe does not change it.
+ *
+ * @example
+ * ```typescript
+ * import { format } from @tmlmt/cooklang-parser;
+ *
+ * format("=Dough\nAdd @salt{} and @sugar{ 0.5 % cup }.");
+ * // == Dough ==
+ * // Add @salt and @sugar{0.5%cup}.
+ * ```
+ *
+ * @param content - The recipe content to format.
+ * @param options - The formatting options, see {@link FormatOptions}
+ * @returns The formatted recipe content.
+ *
+ * @category Functions
+ */
+export function format(content: string, options: FormatOptions = {}): string {
+  const doc = new CooklangDocument(content);
+  const sectionMarker = options.sectionMarker ?? "==";
+
+  for (const [i, node] of doc.nodes.entries()) {
+    const next = doc.nodes[i + 1];
+    if (node.type === "frontMatter") {
+      node.raw = formatFrontMatter(node.raw, options);
+    } else if (node.type === "ingredient") {
+      const quantity = node.quantity?.trim();
+      const unit = node.unit?.trim();
+      if (
+        node.braces &&
+        !node.fixed &&
+        !quantity &&
+        !unit &&
+        !/\s/.test(node.name) &&
+        (node.preparation !== undefined || canRemoveBraces(next))
+      ) {
+        node.braces = false;
+      }
+      doc.updateIngredient(node, {
+        quantity: quantity || undefined,
+        unit: unit || undefined,
+        preparation: node.preparation?.trim(),
+      });
+    } else if (node.type === "cookware") {
+      const quantity = node.quantity?.trim();
+      if (
+        node.braces &&
+        !node.scalable &&
+        !quantity &&
+        !/\s/.test(node.name) &&
+        canRemoveBraces(next)
+      ) {
+        node.braces = false;
+      }
+      doc.updateCookware(node, { quantity: quantity || undefined });
+    } else if (node.type === "timer") {
+      doc.updateTimer(node, {
+        quantity: node.quantity.trim(),
+        unit: node.unit?.trim(),
+      });
+    }
+  }
+
+  // Rewriting lines: section headers and trailing whitespaces
+  const nodes: CstNode[] = [];
+  let line: CstNode[] = [];
+  const flushLine = () => {
+    const first = line[0];
+    if (
+      first?.type === "text" &&
+      first.raw.startsWith("=") &&
+      // The parser ignores tokens in section headers, so only text and comments are expected
+      line.every(
+        (node) =>
+          node === first ||
+          node.type === "comment" ||
+          node.type === "blockComment",
+      )
+    ) {
+      const name = first.raw.replace(/^=+|=+\s*$/g, "").trim();
+      first.raw =
+        (name ? `${sectionMarker} ${name} ${sectionMarker}` : sectionMarker) +
+        (line.length > 1 ? " " : "");
+    }
+    const last = line[line.length - 1];
+    if (last?.type === "text" || last?.type === "comment") {
+      last.raw = last.raw.trimEnd();
+    }
+    for (const node of line) {
+      if (node.raw !== "") nodes.push(node);
+    }
+    line = [];
+  };
+  for (const node of doc.nodes) {
+    if (node.type === "newline") {
+      flushLine();
+      nodes.push({ ...node, raw: "\n" });
+    } else {
+      line.push(node);
+    }
+  }
+  flushLine();
+  doc.nodes = nodes;
+
+  return doc.toString().trim() + "\n";
+}
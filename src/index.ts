@@ -2,9 +2,28 @@ import { CategoryConfig } from "./classes/category_config";
 import { Recipe } from "./classes/recipe";
 import { ShoppingList } from "./classes/shopping_list";
 import { Section } from "./classes/section";
+import { CooklangDocument } from "./classes/cooklang_document";
+import { DensityRegistry } from "./classes/density_registry";
+import { UnitRegistry } from "./classes/unit_registry";
+import { Quantity } from "./classes/quantity";
+import { Pantry } from "./classes/pantry";
+import { RecipeResolver } from "./classes/recipe_resolver";
+import { InMemoryRecipeLoader } from "./classes/in_memory_recipe_loader";
+import { FileSystemRecipeLoader } from "./classes/file_system_recipe_loader";
+import { RecipeCollection } from "./classes/recipe_collection";
+import { format } from "./formatter";
+import { lint } from "./linter";
+import { humanizeQuantity, formatQuantity } from "./units";
+import { getLocalePack } from "./locales";
+import {
+  flattenRecipe,
+  getSubRecipeFactor,
+  scaleSubRecipes,
+} from "./sub_recipes";
 
 import type {
   Metadata,
+  MetadataValue,
   Ingredient,
   IngredientFlag,
   IngredientExtras,
@@ -30,13 +49,74 @@ import type {
   CategoryIngredient,
   Category,
   QuantityPart,
+  SourcePosition,
+  SourceSpan,
+  MetadataSpans,
+  ParseOptions,
+  Diagnostic,
+  DiagnosticSeverity,
+  CstNode,
+  CstTriviaNode,
+  CstIngredientNode,
+  CstCookwareNode,
+  CstTimerNode,
+  FormatOptions,
+  LintRuleCode,
+  LintRules,
+  Duration,
+  RecipeTimes,
+  DurationRange,
+  TimersDuration,
+  ScaleOptions,
+  TimerScalingPolicy,
+  CookwareScalingPolicy,
+  TargetUnitSystem,
+  PreferredUnit,
+  HumanizeOptions,
+  FormatQuantityOptions,
+  UnitType,
+  UnitSystem,
+  UnitDefinition,
+  LocalePack,
+  QuantityWithUnit,
+  RoundingMode,
+  RoundingStrategy,
+  AddedIngredient,
+  PantryItem,
+  PantryStatus,
+  RecipeLoader,
+  ResolvedRecipe,
+  SubRecipe,
+  RecipeIndexField,
+  RecipeFilter,
+  RecipeQuery,
+  CollectionRecipe,
+  RecipeQueryResult,
 } from "./types";
 
 export {
   Recipe,
   ShoppingList,
   CategoryConfig,
+  CooklangDocument,
+  DensityRegistry,
+  UnitRegistry,
+  Quantity,
+  Pantry,
+  RecipeResolver,
+  InMemoryRecipeLoader,
+  FileSystemRecipeLoader,
+  RecipeCollection,
+  format,
+  lint,
+  humanizeQuantity,
+  formatQuantity,
+  getLocalePack,
+  getSubRecipeFactor,
+  scaleSubRecipes,
+  flattenRecipe,
   Metadata,
+  MetadataValue,
   Ingredient,
   IngredientFlag,
   IngredientExtras,
@@ -63,4 +143,47 @@ export {
   Category,
   Section,
   QuantityPart,
+  SourcePosition,
+  SourceSpan,
+  MetadataSpans,
+  ParseOptions,
+  Diagnostic,
+  DiagnosticSeverity,
+  CstNode,
+  CstTriviaNode,
+  CstIngredientNode,
+  CstCookwareNode,
+  CstTimerNode,
+  FormatOptions,
+  LintRuleCode,
+  LintRules,
+  Duration,
+  RecipeTimes,
+  DurationRange,
+  TimersDuration,
+  ScaleOptions,
+  TimerScalingPolicy,
+  CookwareScalingPolicy,
+  TargetUnitSystem,
+  PreferredUnit,
+  HumanizeOptions,
+  FormatQuantityOptions,
+  UnitType,
+  UnitSystem,
+  UnitDefinition,
+  LocalePack,
+  QuantityWithUnit,
+  RoundingMode,
+  RoundingStrategy,
+  AddedIngredient,
+  PantryItem,
+  PantryStatus,
+  RecipeLoader,
+  ResolvedRecipe,
+  SubRecipe,
+  RecipeIndexField,
+  RecipeFilter,
+  RecipeQuery,
+  CollectionRecipe,
+  RecipeQueryResult,
 };
@@ -0,0 +1,202 @@
+import { Recipe } from "./classes/recipe";
+import type {
+  Diagnostic,
+  DiagnosticSeverity,
+  LintRuleCode,
+  LintRules,
+  SourceSpan,
+} from "./types";
+import { normalizeUnit } from "./units";
+import { normalizeTimeUnit } from "./durations";
+
+/**
+ * Default severity of each lint rule
+ */
+const defaultSeverities: Record<LintRuleCode, DiagnosticSeverity> = {
+  "ingredient-missing-quantity": "warning",
+  "unknown-unit": "warning",
+  "duplicate-ingredient": "warning",
+  "unused-optional-cookware": "warning",
+  "timer-unit-not-time": "error",
+  "missing-title": "warning",
+  "missing-servings": "warning",
+  "invalid-servings": "error",
+  "duplicate-section": "warning",
+};
+
+/**
+ * Checks a recipe against a set of style and correctness rules, see {@link LintRuleCode}.
+ *
+ * When a cooklang string is provided, it is parsed with {@link ParseOptions.recover} and
+ * {@link ParseOptions.spans}, so that parsing errors are reported as well and every problem
+ * is located in the content. When a {@link Recipe} is provided, its own
+ * {@link Recipe.diagnostics | diagnostics} are reported, and problems are only located if it
+ * was parsed with {@link ParseOptions.spans}.
+ *
+ * @example
+ * ```typescript
+ * import { lint } from @tmlmt/cooklang-parser;
+ *
+ * const diagnostics = lint("Add @salt and bake for ~{20%minutes}.", {
+ *   "missing-servings": false,
+ *   "missing-title": "error",
+ * });
+ * // [
+ * //   { severity: "warning", code: "ingredient-missing-quantity", ... },
+ * //   { severity: "error", code: "missing-title", ... },
+ * // ]
+ * ```
+ *
+ * @param input - The recipe or the cooklang string to check.
+ * @param rules - The configuration of the rules, see {@link LintRules}. All rules are enabled by default.
+ * @returns The problems found, starting with the parsing ones.
+ *
+ * @category Functions
+ */
+export function lint(
+  input: Recipe | string,
+  rules: LintRules = {},
+): Diagnostic[] {
+  const recipe =
+    typeof input === "string"
+      ? new Recipe(input, { recover: true, spans: true })
+      : input;
+  const diagnostics: Diagnostic[] = [...recipe.diagnostics];
+
+  const report = (
+    code: LintRuleCode,
+    message: string,
+    span: SourceSpan | undefined,
+    suggestion?: string,
+  ) => {
+    const rule = rules[code] ?? true;
+    if (rule === false) return;
+    const diagnostic: Diagnostic = {
+      severity: rule === true ? defaultSeverities[code] : rule,
+      code,
+      message,
+    };
+    if (span) diagnostic.span = span;
+    if (suggestion) diagnostic.suggestion = suggestion;
+    diagnostics.push(diagnostic);
+  };
+
+  // Metadata
+  if (!recipe.metadata.title) {
+    report(
+      "missing-title",
+      "The recipe has no title",
+      undefined,
+      "Add a `title` entry to the front matter",
+    );
+  }
+  const servingsKey = (["servings", "yield", "serves"] as const).find(
+    (key) => recipe.metadata[key] !== undefined,
+  );
+  if (servingsKey === undefined) {
+    report(
+      "missing-servings",
+      "The recipe has no servings",
+      undefined,
+      "Add a `servings` entry to the front matter",
+    );
+  } else if (recipe.servings === undefined || !(recipe.servings > 0)) {
+    report(
+      "invalid-servings",
+      `The ${servingsKey} of the recipe cannot be used for scaling`,
+      recipe.metadataSpans?.[servingsKey],
+      `Start the ${servingsKey} value with a positive number, e.g. \`${servingsKey}: 4, 4 slices\``,
+    );
+  }
+
+  // Ingredients
+  const ingredientNames = new Set<string>();
+  for (const ingredient of recipe.ingredients) {
+    const name = ingredient.name.toLowerCase();
+    // Duplicates created on purpose by references with incompatible quantities are already reported by the parser
+    if (ingredientNames.has(name) && !ingredient.separateReference) {
+      report(
+        "duplicate-ingredient",
+        `The ingredient "${ingredient.name}" is declared several times and listed as separate ingredients`,
+        ingredient.span,
+        `Use the '&' modifier to reference the first occurrence of "${ingredient.name}"`,
+      );
+    }
+    ingredientNames.add(name);
+
+    if (ingredient.quantity === undefined) {
+      report(
+        "ingredient-missing-quantity",
+        `The ingredient "${ingredient.name}" has no quantity`,
+        ingredient.span,
+      );
+    }
+
+    const units = new Set(
+      (ingredient.quantityParts ?? [])
+        .map((part) => part.unit)
+        .filter((unit) => unit !== undefined),
+    );
+    for (const unit of units) {
+      if (normalizeUnit(unit, recipe.units) === undefined) {
+        report(
+          "unknown-unit",
+          `The unit "${unit}" of the ingredient "${ingredient.name}" is not a known unit and will neither be converted nor added to other units`,
+          ingredient.span,
+        );
+      }
+    }
+  }
+
+  // Cookware
+  const usedCookware = new Set<number>();
+  for (const section of recipe.sections) {
+    for (const element of section.content) {
+      if (element.type === "step") {
+        for (const item of element.items) {
+          if (item.type === "cookware") usedCookware.add(item.index);
+        }
+      }
+    }
+  }
+  for (const [index, cookware] of recipe.cookware.entries()) {
+    if (cookware.flags.includes("optional") && !usedCookware.has(index)) {
+      report(
+        "unused-optional-cookware",
+        `The optional cookware "${cookware.name}" is not used in any step`,
+        cookware.span,
+        `Remove "${cookware.name}" from the cookware`,
+      );
+    }
+  }
+
+  // Timers
+  for (const timer of recipe.timers) {
+    if (timer.unit && normalizeTimeUnit(timer.unit) === undefined) {
+      report(
+        "timer-unit-not-time",
+        `The unit "${timer.unit}" of ${timer.name ? `the timer "${timer.name}"` : "a timer"} is not a time unit`,
+        timer.span,
+        "Use a time unit, e.g. `minutes` or `h`",
+      );
+    }
+  }
+
+  // Sections
+  const sectionNames = new Set<string>();
+  for (const section of recipe.sections) {
+    if (!section.name) continue;
+    const name = section.name.toLowerCase();
+    if (sectionNames.has(name)) {
+      report(
+        "duplicate-section",
+        `The section "${section.name}" is defined several times`,
+        section.span,
+        "Merge the sections or rename one of them",
+      );
+    }
+    sectionNames.add(name);
+  }
+
+  return diagnostics;
+}
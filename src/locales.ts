@@ -0,0 +1,188 @@
+import type { LocalePack } from "./types";
+
+/**
+ * Built-in locale packs, by language
+ */
+const localePacks: Record<string, LocalePack> = {
+  en: {
+    units: {
+      pinch: ["pinches"],
+    },
+    decimalSeparator: ".",
+    groupSeparators: [","],
+    numbers: {
+      one: 1,
+      two: 2,
+      three: 3,
+      four: 4,
+      five: 5,
+      six: 6,
+      seven: 7,
+      eight: 8,
+      nine: 9,
+      ten: 10,
+      eleven: 11,
+      twelve: 12,
+    },
+  },
+  fr: {
+    units: {
+      g: ["gramme"],
+      kg: ["kilogramme"],
+      oz: ["once", "onces"],
+      lb: ["livre", "livres"],
+      tsp: [
+        "cuillère à café",
+        "cuillères à café",
+        "cuillère à thé",
+        "cuillères à thé",
+        "c. à c.",
+        "c.à.c.",
+        "càc",
+      ],
+      tbsp: [
+        "cuillère à soupe",
+        "cuillères à soupe",
+        "c. à s.",
+        "c.à.s.",
+        "càs",
+      ],
+      cup: ["tasse", "tasses"],
+      pinch: ["pincée", "pincées"],
+      piece: ["pièce", "pièces"],
+    },
+    decimalSeparator: ",",
+    groupSeparators: [" ", "\u202f", "\u00a0"],
+    numbers: {
+      un: 1,
+      une: 1,
+      deux: 2,
+      trois: 3,
+      quatre: 4,
+      cinq: 5,
+      six: 6,
+      sept: 7,
+      huit: 8,
+      neuf: 9,
+      dix: 10,
+      onze: 11,
+      douze: 12,
+    },
+  },
+  de: {
+    units: {
+      g: ["Gramm"],
+      kg: ["Kilogramm"],
+      oz: ["Unze", "Unzen"],
+      lb: ["Pfund"],
+      tsp: ["TL", "Teelöffel"],
+      tbsp: ["EL", "Esslöffel"],
+      cup: ["Tasse", "Tassen"],
+      pinch: ["Prise", "Prisen"],
+      piece: ["Stück", "Stk"],
+    },
+    decimalSeparator: ",",
+    groupSeparators: [".", " "],
+    numbers: {
+      ein: 1,
+      eine: 1,
+      eins: 1,
+      zwei: 2,
+      drei: 3,
+      vier: 4,
+      fünf: 5,
+      sechs: 6,
+      sieben: 7,
+      acht: 8,
+      neun: 9,
+      zehn: 10,
+      elf: 11,
+      zwölf: 12,
+    },
+  },
+  es: {
+    units: {
+      g: ["gramo", "gramos"],
+      kg: ["kilogramo", "kilogramos"],
+      oz: ["onza", "onzas"],
+      lb: ["libra", "libras"],
+      ml: ["mililitro", "mililitros"],
+      cl: ["centilitro", "centilitros"],
+      dl: ["decilitro", "decilitros"],
+      l: ["litro", "litros"],
+      tsp: ["cucharadita", "cucharaditas", "cdta", "cdita"],
+      tbsp: ["cucharada", "cucharadas", "cda"],
+      cup: ["taza", "tazas"],
+      pinch: ["pizca", "pizcas"],
+      piece: ["pieza", "piezas", "unidad", "unidades"],
+    },
+    decimalSeparator: ",",
+    groupSeparators: [".", " "],
+    numbers: {
+      uno: 1,
+      un: 1,
+      una: 1,
+      dos: 2,
+      tres: 3,
+      cuatro: 4,
+      cinco: 5,
+      seis: 6,
+      siete: 7,
+      ocho: 8,
+      nueve: 9,
+      diez: 10,
+      once: 11,
+      doce: 12,
+    },
+  },
+};
+
+/**
+ * Gets the built-in locale pack of a locale, which provides the unit aliases and the number format
+ * of its language. English (`en`), French (`fr`), German (`de`) and Spanish (`es`) are supported.
+ *
+ * Units which are not built-in, such as `pinch`, have aliases in the locale packs as well, which are used
+ * once the unit is added to the {@link UnitRegistry}.
+ *
+ * @example
+ * ```typescript
+ * import { getLocalePack } from @tmlmt/cooklang-parser;
+ *
+ * getLocalePack("de-DE")?.units.tbsp;
+ * // ["EL", "Esslöffel"]
+ * ```
+ *
+ * @param locale - The locale, e.g. `fr`, `fr-FR` or `fr_FR`. Case-insensitive.
+ * @returns The locale pack of the language of the locale, or `undefined` if not supported.
+ *
+ * @category Functions
+ */
+export function getLocalePack(locale: string): LocalePack | undefined {
+  const language = locale.trim().toLowerCase().split(/[-_]/)[0]!;
+  return localePacks[language];
+}
+
+const escapeRegex = (str: string) => str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Rewrites the numbers of a quantity written in the number format of a locale into the cooklang
+ * format, e.g. `1.000,5` into `1000.5` in German. Other numbers are left untouched.
+ * @param input - The quantity to rewrite, e.g. `1.000,5` or `1,5-2`.
+ * @param locale - The locale pack.
+ * @returns The rewritten quantity.
+ */
+export function delocalizeNumbers(input: string, locale: LocalePack): string {
+  const decimal = escapeRegex(locale.decimalSeparator);
+  const groups = locale.groupSeparators.map(escapeRegex).join("|");
+  const numberRegex = new RegExp(
+    (groups ? `\\d{1,3}(?:(?:${groups})\\d{3})+(?:${decimal}\\d+)?|` : "") +
+      `\\d+${decimal}\\d+`,
+    "g",
+  );
+  return input.replace(numberRegex, (match) =>
+    match
+      .split(locale.decimalSeparator)
+      .map((part) => part.replace(/\D/g, ""))
+      .join("."),
+  );
+}
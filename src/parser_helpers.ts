@@ -6,6 +6,13 @@ import type {
   TextValue,
   DecimalValue,
   FractionValue,
+  SourceSpan,
+  MetadataSpans,
+  MetadataValue,
+  Diagnostic,
+  ParseOptions,
+  LocalePack,
+  QuantityWithUnit,
 } from "./types";
 import {
   metadataRegex,
@@ -13,6 +20,7 @@ import {
   numberLikeRegex,
   scalingMetaValueRegex,
 } from "./regex";
+import { parseDocument } from "yaml";
 import { Section as SectionObject } from "./classes/section";
 import type { Ingredient, Note, Step, Cookware } from "./types";
 import {
@@ -20,23 +28,34 @@ import {
   getDefaultQuantityValue,
   CannotAddTextValueError,
   IncompatibleUnitsError,
-  Quantity,
   addQuantityValues,
+  unicodeFractions,
 } from "./units";
-import { ReferencedItemCannotBeRedefinedError } from "./errors";
+import {
+  ReferencedItemCannotBeRedefinedError,
+  ReferencedItemNotFoundError,
+  InvalidScalingValueError,
+} from "./errors";
+import { delocalizeNumbers, getLocalePack } from "./locales";
 
 /**
  * Pushes a pending note to the section content if it's not empty.
  * @param section - The current section object.
  * @param note - The note content.
+ * @param span - The source span of the note, if tracked.
  * @returns An empty string if the note was pushed, otherwise the original note.
  */
 export function flushPendingNote(
   section: SectionObject,
   note: Note["note"],
+  span?: SourceSpan,
 ): Note["note"] {
   if (note.length > 0) {
-    section.content.push({ type: "note", note });
+    const newNote: Note = { type: "note", note };
+    if (span) {
+      newNote.span = span;
+    }
+    section.content.push(newNote);
     return "";
   }
   return note;
@@ -44,6 +63,7 @@ export function flushPendingNote(
 
 /**
  * Pushes pending step items and a pending note to the section content.
+ * If the first and last items have a source span, the step will span from the former to the latter.
  * @param section - The current section object.
  * @param items - The list of step items. This array will be cleared.
  * @returns true if the items were pushed, otherwise false.
@@ -53,19 +73,195 @@ export function flushPendingItems(
   items: Step["items"],
 ): boolean {
   if (items.length > 0) {
-    section.content.push({ type: "step", items: [...items] });
+    const step: Step = { type: "step", items: [...items] };
+    const firstSpan = items[0]!.span;
+    const lastSpan = items[items.length - 1]!.span;
+    if (firstSpan && lastSpan) {
+      step.span = { start: firstSpan.start, end: lastSpan.end };
+    }
+    section.content.push(step);
     items.length = 0;
     return true;
   }
   return false;
 }
 
+/**
+ * Represents a text derived from an original content, together with
+ * the offset in the original content of each of its characters.
+ */
+export interface MappedText {
+  /** The derived text */
+  text: string;
+  /** The original offset of each character of the derived text. Empty if offsets are not tracked */
+  offsets: number[];
+}
+
+/**
+ * Creates a {@link MappedText} from an original content, where each character maps to itself.
+ * @param content - The original content.
+ * @param trackOffsets - Whether to track the original offsets of the characters, which are
+ *   only needed to build source spans.
+ * @returns The mapped text.
+ */
+export function createMappedText(
+  content: string,
+  trackOffsets: boolean = true,
+): MappedText {
+  return {
+    text: content,
+    offsets: trackOffsets
+      ? Array.from({ length: content.length }, (_, i) => i)
+      : [],
+  };
+}
+
+/**
+ * Removes the matches of a regex from a mapped text, while keeping track of
+ * the original offsets of the remaining characters.
+ * Only the first match is removed if the regex is not global, similarly to `String.replace()`.
+ * @param source - The mapped text to remove matches from.
+ * @param regex - The regex to match.
+ * @returns The new mapped text.
+ */
+export function removeMatchesFromMappedText(
+  source: MappedText,
+  regex: RegExp,
+): MappedText {
+  const matches = regex.global
+    ? [...source.text.matchAll(regex)]
+    : [source.text.match(regex)].filter((m) => m !== null);
+  let text = "";
+  const offsets: number[] = [];
+  // Copying offsets one by one, as spreading them would overflow the call stack for long contents
+  const keepOffsets = (start: number, end: number) => {
+    for (let i = start; i < end && i < source.offsets.length; i++) {
+      offsets.push(source.offsets[i]!);
+    }
+  };
+  let cursor = 0;
+  for (const match of matches) {
+    text += source.text.slice(cursor, match.index);
+    keepOffsets(cursor, match.index!);
+    cursor = match.index! + match[0].length;
+  }
+  text += source.text.slice(cursor);
+  keepOffsets(cursor, source.text.length);
+  return { text, offsets };
+}
+
+/**
+ * Removes the leading and trailing whitespaces of a mapped text, similarly to `String.trim()`
+ * @param source - The mapped text to trim.
+ * @returns The trimmed mapped text.
+ */
+export function trimMappedText(source: MappedText): MappedText {
+  const start = source.text.length - source.text.trimStart().length;
+  const end = source.text.trimEnd().length;
+  if (end <= start) {
+    return { text: "", offsets: [] };
+  }
+  return {
+    text: source.text.slice(start, end),
+    offsets: source.offsets.slice(start, end),
+  };
+}
+
+/**
+ * Splits a mapped text into lines, similarly to `String.split(/\r\n?|\n/)`
+ * @param source - The mapped text to split.
+ * @returns The list of mapped lines.
+ */
+export function splitMappedTextLines(source: MappedText): MappedText[] {
+  const lines: MappedText[] = [];
+  let cursor = 0;
+  for (const match of source.text.matchAll(/\r\n?|\n/g)) {
+    lines.push({
+      text: source.text.slice(cursor, match.index),
+      offsets: source.offsets.slice(cursor, match.index),
+    });
+    cursor = match.index + match[0].length;
+  }
+  lines.push({
+    text: source.text.slice(cursor),
+    offsets: source.offsets.slice(cursor),
+  });
+  return lines;
+}
+
+/**
+ * Gets the offsets at which each line of a content starts
+ * @param content - The content.
+ * @returns The list of start offsets, one per line.
+ */
+export function getLineStarts(content: string): number[] {
+  const lineStarts = [0];
+  for (const match of content.matchAll(/\r\n?|\n/g)) {
+    lineStarts.push(match.index + match[0].length);
+  }
+  return lineStarts;
+}
+
+/**
+ * Builds a source span from the start and end offsets of a range of the original content
+ * @param lineStarts - The start offsets of each line of the original content, see {@link getLineStarts}
+ * @param startOffset - The offset of the first character of the range
+ * @param endOffset - The offset right after the last character of the range
+ * @returns The source span.
+ */
+export function createSourceSpan(
+  lineStarts: number[],
+  startOffset: number,
+  endOffset: number,
+): SourceSpan {
+  const toPosition = (offset: number) => {
+    // Binary search of the last line starting at or before the offset
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid]! <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low]! + 1, offset };
+  };
+  return { start: toPosition(startOffset), end: toPosition(endOffset) };
+}
+
+/**
+ * Builds the source span of a range of characters of a mapped text
+ * @param lineStarts - The start offsets of each line of the original content, see {@link getLineStarts}
+ * @param source - The mapped text.
+ * @param start - The index of the first character of the range in the mapped text.
+ * @param end - The index right after the last character of the range in the mapped text. Must be greater than `start`.
+ * @returns The source span, relative to the original content, or `undefined` if the offsets of the mapped text are not tracked.
+ */
+export function createMappedSourceSpan(
+  lineStarts: number[],
+  source: MappedText,
+  start: number,
+  end: number,
+): SourceSpan | undefined {
+  if (source.offsets.length === 0) {
+    return undefined;
+  }
+  return createSourceSpan(
+    lineStarts,
+    source.offsets[start]!,
+    source.offsets[end - 1]! + 1,
+  );
+}
+
 /**
  * Finds an ingredient in the list (case-insensitively) and updates it, or adds it if not present.
  * This function mutates the `ingredients` array.
  * @param ingredients - The list of ingredients.
  * @param newIngredient - The ingredient to find or add.
  * @param isReference - Whether this is a reference ingredient (`&` modifier).
+ * @param options - The density and unit registries used to add quantities, see {@link ParseOptions}
  * @returns The index of the ingredient in the list.
  * @returns An object containing the index of the ingredient and its quantity part in the list.
  */
@@ -73,6 +269,7 @@ export function findAndUpsertIngredient(
   ingredients: Ingredient[],
   newIngredient: Ingredient,
   isReference: boolean,
+  options: Pick<ParseOptions, "densities" | "units"> = {},
 ): {
   ingredientIndex: number;
   quantityPartIndex: number | undefined;
@@ -86,9 +283,7 @@ export function findAndUpsertIngredient(
     );
 
     if (indexFind === -1) {
-      throw new Error(
-        `Referenced ingredient "${name}" not found. A referenced ingredient must be declared before being referenced with '&'.`,
-      );
+      throw new ReferencedItemNotFoundError("ingredient", name);
     }
 
     // Ingredient already exists, update it
@@ -108,13 +303,16 @@ export function findAndUpsertIngredient(
 
     let quantityPartIndex = undefined;
     if (quantity !== undefined) {
-      const currentQuantity: Quantity = {
+      const currentQuantity: QuantityWithUnit = {
         value: existingIngredient.quantity ?? getDefaultQuantityValue(),
         unit: existingIngredient.unit ?? "",
       };
       const newQuantity = { value: quantity, unit: unit ?? "" };
       try {
-        const total = addQuantities(currentQuantity, newQuantity);
+        const total = addQuantities(currentQuantity, newQuantity, {
+          density: options.densities?.get(existingIngredient.name),
+          units: options.units,
+        });
         existingIngredient.quantity = total.value;
         existingIngredient.unit = total.unit || undefined;
         if (existingIngredient.quantityParts) {
@@ -168,9 +366,7 @@ export function findAndUpsertCookware(
     );
 
     if (index === -1) {
-      throw new Error(
-        `Referenced cookware "${name}" not found. A referenced cookware must be declared before being referenced with '&'.`,
-      );
+      throw new ReferencedItemNotFoundError("cookware", name);
     }
 
     const existingCookware = cookware[index]!;
@@ -187,6 +383,10 @@ export function findAndUpsertCookware(
       }
     }
 
+    if (newCookware.scalable) {
+      existingCookware.scalable = true;
+    }
+
     let quantityPartIndex = undefined;
     if (quantity !== undefined) {
       if (!existingCookware.quantity) {
@@ -256,8 +456,70 @@ export const parseFixedValue = (
   return { type: "decimal", value: Number(s) };
 };
 
-export function parseQuantityInput(input_str: string): FixedValue | Range {
-  const clean_str = String(input_str).trim();
+// Unicode vulgar fractions, by character, e.g. `½` => [1, 2]
+const vulgarFractions = new Map(
+  Object.entries(unicodeFractions).map(([fraction, char]) => [
+    char,
+    fraction.split("/").map(Number) as [number, number],
+  ]),
+);
+const vulgarFractionRegex = new RegExp(
+  `(\\d+)?\\s*([${[...vulgarFractions.keys()].join("")}])`,
+  "g",
+);
+
+/**
+ * Rewrites the mixed numbers, unicode vulgar fractions and number words of a quantity into the
+ * cooklang format, e.g. `1 1/2` into `3/2`, `1⅓` into `4/3` and `two` into `2`.
+ * @param input - The quantity to rewrite.
+ * @param numberWords - The number words to recognize, e.g. `{ two: 2 }`. Case-insensitive.
+ * @returns The rewritten quantity.
+ */
+export function rewriteNumberNotations(
+  input: string,
+  numberWords: Record<string, number> = {},
+): string {
+  const toFraction = (whole: string | undefined, num: number, den: number) =>
+    `${Number(whole ?? 0) * den + num}/${den}`;
+  return input
+    .replace(/\u2044/g, "/")
+    .replace(
+      vulgarFractionRegex,
+      (_, whole: string | undefined, char: string) =>
+        toFraction(whole, ...vulgarFractions.get(char)!),
+    )
+    .replace(
+      /(\d+)\s+(\d+)\/(\d+)/g,
+      (_, whole: string, num: string, den: string) =>
+        toFraction(whole, Number(num), Number(den)),
+    )
+    .replace(/\p{L}+/gu, (word) => {
+      const lower = word.toLowerCase();
+      return Object.hasOwn(numberWords, lower)
+        ? String(numberWords[lower])
+        : word;
+    });
+}
+
+/**
+ * Parses the quantity of an ingredient, cookware or timer
+ * @param input_str - The quantity to parse, e.g. `1/2`, `1-2` or `a pinch`.
+ * @param locale - The locale pack of the recipe, whose number format is used.
+ * @param numberWords - Whether to recognize number words, e.g. `two`, in the language of the locale,
+ *   English by default.
+ * @returns The parsed quantity value. Quantities which are not numbers or ranges are text values.
+ */
+export function parseQuantityInput(
+  input_str: string,
+  locale?: LocalePack,
+  numberWords: boolean = false,
+): FixedValue | Range {
+  const raw_str = String(input_str).trim();
+  let clean_str = locale ? delocalizeNumbers(raw_str, locale) : raw_str;
+  clean_str = rewriteNumberNotations(
+    clean_str,
+    numberWords ? (locale ?? getLocalePack("en")!).numbers : undefined,
+  );
 
   if (rangeRegex.test(clean_str)) {
     const range_parts = clean_str.split("-");
@@ -271,7 +533,13 @@ export function parseQuantityInput(input_str: string): FixedValue | Range {
     return { type: "range", min, max };
   }
 
-  return { type: "fixed", value: parseFixedValue(clean_str) };
+  // Texts are kept as written
+  return {
+    type: "fixed",
+    value: numberLikeRegex.test(clean_str)
+      ? parseFixedValue(clean_str)
+      : { type: "text", value: raw_str },
+  };
 }
 
 export function parseSimpleMetaVar(content: string, varName: string) {
@@ -289,10 +557,12 @@ export function parseScalingMetaVar(
 ): [number, string] | undefined {
   const varMatch = content.match(scalingMetaValueRegex(varName));
   if (!varMatch) return undefined;
-  if (isNaN(Number(varMatch[2]?.trim()))) {
-    throw new Error("Scaling variables should be numbers");
+  // The value can be followed by a unit, e.g. `yield: 800%g`
+  const value = varMatch[2]!.split("%")[0]!.trim();
+  if (value === "" || isNaN(Number(value))) {
+    throw new InvalidScalingValueError();
   }
-  return [Number(varMatch[2]?.trim()), varMatch[1]!.trim()];
+  return [Number(value), varMatch[1]!.trim()];
 }
 
 export function parseListMetaVar(content: string, varName: string) {
@@ -321,90 +591,262 @@ export function parseListMetaVar(content: string, varName: string) {
   }
 }
 
-export function extractMetadata(content: string): MetadataExtract {
+/**
+ * Locates the entries of the front matter of a recipe.
+ * An entry spans over its key and value, including any continuation line of the value.
+ * @param content - The original content of the recipe.
+ * @param keys - The metadata keys to locate.
+ * @returns The source span of each key found in the front matter.
+ */
+export function extractMetadataSpans(
+  content: string,
+  keys: (keyof Metadata)[],
+): MetadataSpans {
+  const spans: MetadataSpans = {};
+  const metadataMatch = content.match(
+    new RegExp(metadataRegex.source, metadataRegex.flags + "d"),
+  );
+  /* v8 ignore if -- @preserve */
+  if (!metadataMatch?.indices?.[1]) {
+    return spans;
+  }
+  const metadataContent = metadataMatch[1]!;
+  const metadataStart = metadataMatch.indices[1][0];
+  const lineStarts = getLineStarts(content);
+
+  for (const key of keys) {
+    const escapedKey = key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const entryMatch = metadataContent.match(
+      new RegExp(`^${escapedKey}:.*(?:\\r?\\n(?:[\\t ]+|-).*)*`, "m"),
+    );
+    if (entryMatch) {
+      const start = metadataStart + entryMatch.index!;
+      spans[key] = createSourceSpan(
+        lineStarts,
+        start,
+        start + entryMatch[0].trimEnd().length,
+      );
+    }
+  }
+  return spans;
+}
+
+/**
+ * Standard metadata entries, by type
+ */
+const stringMetaVars = [
+  "title",
+  "source",
+  "source.name",
+  "source.url",
+  "author",
+  "source.author",
+  "prep time",
+  "time.prep",
+  "cook time",
+  "time.cook",
+  "time required",
+  "time",
+  "duration",
+  "locale",
+  "introduction",
+  "description",
+  "course",
+  "category",
+  "diet",
+  "cuisine",
+  "difficulty",
+  "image",
+  "picture",
+] as const;
+const scalingMetaVars = ["serves", "yield", "servings"] as const;
+const listMetaVars = ["tags", "images", "pictures"] as const;
+
+/**
+ * Converts a YAML scalar into a string, or returns `undefined` for other values.
+ * Empty values (`null`) are converted into an empty string.
+ * @param value - The YAML value.
+ * @returns The string, if the value is a scalar.
+ */
+function stringifyMetaScalar(value: unknown): string | undefined {
+  if (value === null) {
+    return "";
+  }
+  if (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  ) {
+    return String(value).trim();
+  }
+  return undefined;
+}
+
+/**
+ * Extracts the metadata of a recipe from its front matter.
+ *
+ * The front matter is parsed as YAML. Standard entries are kept as strings (or lists of strings),
+ * nested standard entries (e.g. `source: { name, url }`) are mapped onto their dotted keys
+ * (e.g. `source.name`), and other entries are kept in {@link Metadata.custom} with their YAML type.
+ * If the front matter is not valid YAML, only the standard entries are extracted from the
+ * `key: value` lines.
+ *
+ * @param content - The original content of the recipe.
+ * @param diagnostics - If provided, YAML errors will be reported as warnings in this list,
+ *   as well as invalid scaling values if `recover` is enabled.
+ * @param recover - Whether to report invalid scaling values in the diagnostics instead of throwing an
+ *   error. Their raw value is then kept in the metadata.
+ * @returns The extracted metadata and number of servings.
+ * @throws {@link InvalidScalingValueError} if a scaling variable is not a number and `recover` is not enabled.
+ */
+export function extractMetadata(
+  content: string,
+  diagnostics?: Diagnostic[],
+  recover: boolean = false,
+): MetadataExtract {
   const metadata: Metadata = {};
   let servings: number | undefined = undefined;
 
   // Is there front-matter at all?
-  const metadataContent = content.match(metadataRegex)?.[1];
+  const metadataMatch = content.match(
+    new RegExp(metadataRegex.source, metadataRegex.flags + "d"),
+  );
+  const metadataContent = metadataMatch?.[1];
   if (!metadataContent) {
     return { metadata };
   }
-
-  // String metadata variables
-  for (const metaVar of [
-    "title",
-    "source",
-    "source.name",
-    "source.url",
-    "author",
-    "source.author",
-    "prep time",
-    "time.prep",
-    "cook time",
-    "time.cook",
-    "time required",
-    "time",
-    "duration",
-    "locale",
-    "introduction",
-    "description",
-    "course",
-    "category",
-    "diet",
-    "cuisine",
-    "difficulty",
-    "image",
-    "picture",
-  ] as (keyof Pick<
-    Metadata,
-    | "title"
-    | "source"
-    | "source.name"
-    | "source.url"
-    | "author"
-    | "source.author"
-    | "prep time"
-    | "time.prep"
-    | "cook time"
-    | "time.cook"
-    | "time required"
-    | "time"
-    | "duration"
-    | "locale"
-    | "introduction"
-    | "description"
-    | "course"
-    | "category"
-    | "diet"
-    | "cuisine"
-    | "difficulty"
-    | "image"
-    | "picture"
-  >)[]) {
-    const stringMetaValue = parseSimpleMetaVar(metadataContent, metaVar);
-    if (stringMetaValue) metadata[metaVar] = stringMetaValue;
+  const metadataStart = metadataMatch.indices![1]![0];
+
+  const document = parseDocument(metadataContent, { prettyErrors: false });
+  const yamlError = document.errors[0];
+  let entries: { [key: string]: unknown };
+  if (yamlError) {
+    const span = createSourceSpan(
+      getLineStarts(content),
+      metadataStart + yamlError.pos[0],
+      metadataStart + yamlError.pos[1],
+    );
+    diagnostics?.push({
+      severity: "warning",
+      code: "invalid-front-matter",
+      message: `Invalid YAML front matter at line ${span.start.line}: ${yamlError.message}`,
+      span,
+      suggestion:
+        "Fix the YAML syntax, e.g. by quoting values which contain a colon. Only the simple `key: value` entries have been extracted",
+    });
+    // Falling back to simple `key: value` lines
+    entries = {};
+    for (const metaVar of [...stringMetaVars, ...scalingMetaVars]) {
+      entries[metaVar] = parseSimpleMetaVar(metadataContent, metaVar);
+    }
+    for (const metaVar of listMetaVars) {
+      entries[metaVar] = parseListMetaVar(metadataContent, metaVar);
+    }
+  } else {
+    const parsed: unknown = document.toJS();
+    if (
+      typeof parsed !== "object" ||
+      parsed === null ||
+      Array.isArray(parsed)
+    ) {
+      if (parsed !== null) {
+        diagnostics?.push({
+          severity: "warning",
+          code: "invalid-front-matter",
+          message: "The front matter should be made of `key: value` entries",
+          span: createSourceSpan(
+            getLineStarts(content),
+            metadataStart,
+            metadataStart + metadataContent.length,
+          ),
+        });
+      }
+      return { metadata };
+    }
+    // Mapping nested standard entries onto their dotted keys
+    entries = {};
+    for (const [key, value] of Object.entries(
+      parsed as { [key: string]: unknown },
+    )) {
+      if (
+        (key === "source" || key === "time") &&
+        typeof value === "object" &&
+        value !== null &&
+        !Array.isArray(value)
+      ) {
+        for (const [subKey, subValue] of Object.entries(value)) {
+          entries[`${key}.${subKey}`] = subValue;
+        }
+      } else {
+        entries[key] = value;
+      }
+    }
   }
 
-  // String metadata variables
-  for (const metaVar of ["serves", "yield", "servings"] as (keyof Pick<
-    Metadata,
-    "servings" | "yield" | "serves"
-  >)[]) {
-    const scalingMetaValue = parseScalingMetaVar(metadataContent, metaVar);
-    if (scalingMetaValue && scalingMetaValue[1]) {
-      metadata[metaVar] = scalingMetaValue[1];
-      servings = scalingMetaValue[0];
+  for (const [key, value] of Object.entries(entries)) {
+    if (value === undefined) continue;
+
+    if ((stringMetaVars as readonly string[]).includes(key)) {
+      const stringMetaValue = stringifyMetaScalar(value);
+      if (stringMetaValue !== undefined) {
+        if (stringMetaValue) {
+          metadata[key as (typeof stringMetaVars)[number]] = stringMetaValue;
+        }
+        continue;
+      }
+    } else if ((listMetaVars as readonly string[]).includes(key)) {
+      const listMetaValue = Array.isArray(value)
+        ? value.map(stringifyMetaScalar).filter((v) => v !== undefined)
+        : stringifyMetaScalar(value)
+            ?.split(",")
+            .map((v) => v.trim())
+            .filter((v) => v !== "");
+      if (listMetaValue) {
+        if (listMetaValue.length > 0) {
+          metadata[key as (typeof listMetaVars)[number]] = listMetaValue;
+        }
+        continue;
+      }
+    } else if ((scalingMetaVars as readonly string[]).includes(key)) {
+      const scalingMetaValue = stringifyMetaScalar(value);
+      if (scalingMetaValue !== undefined) {
+        if (scalingMetaValue) {
+          metadata[key as (typeof scalingMetaVars)[number]] = scalingMetaValue;
+        }
+        continue;
+      }
     }
+    metadata.custom ??= {};
+    metadata.custom[key] = value as MetadataValue;
   }
 
-  // List metadata variables
-  for (const metaVar of ["tags", "images", "pictures"] as (keyof Pick<
-    Metadata,
-    "tags" | "images" | "pictures"
-  >)[]) {
-    const listMetaValue = parseListMetaVar(metadataContent, metaVar);
-    if (listMetaValue) metadata[metaVar] = listMetaValue;
+  // Scaling metadata variables, by increasing order of precedence
+  for (const metaVar of scalingMetaVars) {
+    const value = metadata[metaVar];
+    if (value === undefined) continue;
+    try {
+      const scalingMetaValue = parseScalingMetaVar(
+        `${metaVar}:${value}`,
+        metaVar,
+      );
+      if (!scalingMetaValue) {
+        throw new InvalidScalingValueError();
+      }
+      servings = scalingMetaValue[0];
+    } catch (e) {
+      /* v8 ignore else -- expliciting error type -- @preserve */
+      if (recover && diagnostics && e instanceof InvalidScalingValueError) {
+        diagnostics.push({
+          severity: "error",
+          code: "invalid-scaling-value",
+          message: `${e.message}: "${metaVar}" cannot be used for scaling`,
+          span: extractMetadataSpans(content, [metaVar])[metaVar],
+          suggestion: `Start the value of "${metaVar}" with a number, e.g. "${metaVar}: 4"`,
+        });
+        continue;
+      }
+      throw e;
+    }
   }
 
   return { metadata, servings };
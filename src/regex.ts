@@ -132,6 +132,9 @@ const multiwordCookware = createRegex()
     .notAnyOf("\\."+nonWordChar)
   .endGroup().positiveLookahead("\\s*(?:\\{[^\\}]*\\})")
   .literal("{")
+  .startNamedGroup("mCookwareQuantityModifier")
+    .literal("*").exactly(1)
+  .endGroup().optional()
   .startNamedGroup("mCookwareQuantity")
     .anyCharacter().zeroOrMore().lazy()
   .endGroup()
@@ -149,6 +152,9 @@ const singleWordCookware = createRegex()
   .endGroup()
   .startGroup()
     .literal("{")
+    .startNamedGroup("sCookwareQuantityModifier")
+      .literal("*").exactly(1)
+    .endGroup().optional()
     .startNamedGroup("sCookwareQuantity")
       .anyCharacter().zeroOrMore().lazy()
     .endGroup()
@@ -162,6 +168,9 @@ const timer = createRegex()
     .anyCharacter().zeroOrMore().lazy()
   .endGroup()
   .literal("{")
+  .startNamedGroup("timerQuantityModifier")
+    .literal("*").exactly(1)
+  .endGroup().optional()
   .startNamedGroup("timerQuantity")
     .anyCharacter().oneOrMore().lazy()
   .endGroup()
@@ -0,0 +1,277 @@
+import { parseDocument, stringify } from "yaml";
+import type { Recipe } from "./classes/recipe";
+import type {
+  Metadata,
+  MetadataValue,
+  FixedValue,
+  Range,
+  DecimalValue,
+  FractionValue,
+  Item,
+  Step,
+  Note,
+} from "./types";
+
+/**
+ * Characters which end the name of a single-word ingredient or cookware
+ */
+export const nameBoundaryRegex =
+  /^(?:$|[\s@#~[\]{(,;:!?]|\.(?:$|[\s@#~[\]{(,;:!?.]))/;
+
+/**
+ * Converts a numeric value into its cooklang representation, e.g. `1.5` or `1/2`
+ * @param value - The numeric value to convert.
+ * @returns The cooklang representation of the value.
+ */
+export function stringifyNumericValue(
+  value: DecimalValue | FractionValue,
+): string {
+  if (value.type === "decimal") {
+    return String(value.value);
+  }
+  return `${value.num}/${value.den}`;
+}
+
+/**
+ * Converts a quantity value into its cooklang representation, e.g. `1.5`, `1/2-1` or `a pinch`
+ * @param value - The quantity value to convert.
+ * @returns The cooklang representation of the quantity value.
+ */
+export function stringifyQuantityValue(value: FixedValue | Range): string {
+  if (value.type === "range") {
+    return `${stringifyNumericValue(value.min)}-${stringifyNumericValue(value.max)}`;
+  }
+  if (value.value.type === "text") {
+    return value.value.value;
+  }
+  return stringifyNumericValue(value.value);
+}
+
+/**
+ * Converts a quantity into the content of the braces of a cooklang item, e.g. `=1.5%kg`
+ * @param value - The quantity value.
+ * @param unit - The unit of the quantity, if any.
+ * @param scalable - Whether the quantity is scalable. Fixed quantities are prefixed with `=`.
+ * @returns The content of the braces.
+ */
+function stringifyBracesContent(
+  value: FixedValue | Range | undefined,
+  unit: string | undefined,
+  scalable: boolean = true,
+): string {
+  if (value === undefined) {
+    return "";
+  }
+  return (
+    (scalable ? "" : "=") +
+    stringifyQuantityValue(value) +
+    (unit ? `%${unit}` : "")
+  );
+}
+
+/**
+ * Checks whether braces are needed after the name of an ingredient or cookware so that it
+ * is not merged with the text which follows it
+ * @param name - The name of the ingredient or cookware.
+ * @param braces - The content of the braces.
+ * @param next - The item following the ingredient or cookware, if any.
+ * @returns `true` if braces are needed.
+ */
+function needsBraces(name: string, braces: string, next?: Item): boolean {
+  return (
+    braces.length > 0 ||
+    /\s/.test(name) ||
+    (next?.type === "text" && !nameBoundaryRegex.test(next.value))
+  );
+}
+
+/**
+ * Converts a metadata entry into a YAML line. Values which YAML would read differently
+ * (e.g. strings containing `: `) are quoted, as are list items.
+ * @param key - The key of the entry.
+ * @param value - The value of the entry.
+ * @param custom - Whether the entry is a custom one, whose type must be kept, e.g. the string `5`
+ *   must not be read back as a number. Standard entries are read back as strings anyway.
+ * @returns The YAML lines of the entry.
+ */
+function stringifyMetadataEntry(
+  key: string,
+  value: MetadataValue,
+  custom: boolean,
+): string {
+  if (typeof value === "string" || typeof value === "number") {
+    const plain = `${key}: ${value}`;
+    const document = parseDocument(plain);
+    const parsed: unknown = document.get(key);
+    if (
+      document.errors.length === 0 &&
+      (custom
+        ? parsed === value
+        : ["string", "number", "boolean"].includes(typeof parsed) &&
+          String(parsed as string | number | boolean) === String(value))
+    ) {
+      return plain;
+    }
+  }
+  return stringify({ [key]: value }).trimEnd();
+}
+
+/**
+ * Converts the metadata of a recipe into a front matter block
+ * @param metadata - The metadata to convert.
+ * @returns The front matter block, or an empty string if there is no metadata.
+ */
+export function serializeMetadata(metadata: Metadata): string {
+  const { custom, ...standard } = metadata;
+  const lines: string[] = [];
+  for (const [key, value] of Object.entries(standard)) {
+    if (value === undefined) continue;
+    lines.push(stringifyMetadataEntry(key, value, false));
+  }
+  for (const [key, value] of Object.entries(custom ?? {})) {
+    lines.push(stringifyMetadataEntry(key, value, true));
+  }
+  if (lines.length === 0) {
+    return "";
+  }
+  return ["---", ...lines, "---"].join("\n");
+}
+
+/**
+ * Converts a step of a recipe into a line of cooklang text
+ * @param recipe - The recipe the step belongs to.
+ * @param step - The step to convert.
+ * @param declared - The indexes of the ingredients and cookware which have already been declared
+ *   in previous steps, which will be updated. Further occurrences are written as references (`&`).
+ * @returns The cooklang line.
+ */
+function serializeStep(
+  recipe: Recipe,
+  step: Step,
+  declared: { ingredients: Set<number>; cookware: Set<number> },
+): string {
+  let line = "";
+  for (const [i, item] of step.items.entries()) {
+    const next = step.items[i + 1];
+    if (item.type === "text") {
+      line += item.value;
+    } else if (item.type === "ingredient") {
+      const ingredient = recipe.ingredients[item.index]!;
+      // Ingredients listed again by incompatible references are written as references again
+      const isReference =
+        declared.ingredients.has(item.index) ||
+        ingredient.separateReference === true;
+      declared.ingredients.add(item.index);
+      const part =
+        item.quantityPartIndex !== undefined
+          ? ingredient.quantityParts![item.quantityPartIndex]
+          : undefined;
+      const flags = ingredient.flags ?? [];
+
+      let modifiers = "";
+      let name: string;
+      if (isReference) {
+        modifiers = "&";
+        name =
+          item.displayName === ingredient.name
+            ? ingredient.name
+            : `${ingredient.name}|${item.displayName}`;
+      } else {
+        if (flags.includes("recipe")) modifiers += "@";
+        if (flags.includes("hidden")) modifiers += "-";
+        if (flags.includes("optional")) modifiers += "?";
+        if (flags.includes("recipe") && ingredient.extras) {
+          name = ingredient.extras.path.replace(/\.cook$/, "");
+        } else {
+          name =
+            item.displayName === ingredient.name
+              ? ingredient.name
+              : `${ingredient.name}|${item.displayName}`;
+        }
+      }
+
+      const braces = stringifyBracesContent(
+        part?.value,
+        part?.unit,
+        part?.scalable,
+      );
+      const preparation =
+        !isReference && ingredient.preparation
+          ? `(${ingredient.preparation})`
+          : "";
+      line +=
+        `@${modifiers}${name}` +
+        (needsBraces(name, braces, preparation ? undefined : next)
+          ? `{${braces}}`
+          : "") +
+        preparation;
+    } else if (item.type === "cookware") {
+      const cookware = recipe.cookware[item.index]!;
+      const isReference = declared.cookware.has(item.index);
+      declared.cookware.add(item.index);
+      const value =
+        item.quantityPartIndex !== undefined
+          ? cookware.quantityParts![item.quantityPartIndex]
+          : undefined;
+
+      let modifiers = "";
+      if (isReference) {
+        modifiers = "&";
+      } else {
+        if (cookware.flags.includes("hidden")) modifiers += "-";
+        if (cookware.flags.includes("optional")) modifiers += "?";
+      }
+      const braces =
+        (value !== undefined && cookware.scalable ? "*" : "") +
+        stringifyBracesContent(value, undefined);
+      line +=
+        `#${modifiers}${cookware.name}` +
+        (needsBraces(cookware.name, braces, next) ? `{${braces}}` : "");
+    } else {
+      const timer = recipe.timers[item.index]!;
+      line += `~${timer.name ?? ""}{${timer.scalable ? "*" : ""}${stringifyBracesContent(timer.duration, timer.unit)}}`;
+    }
+  }
+  return line;
+}
+
+/**
+ * Converts a note of a recipe into a cooklang block
+ * @param note - The note to convert.
+ * @returns The cooklang note block.
+ */
+function serializeNote(note: Note): string {
+  return `> ${note.note}`;
+}
+
+/**
+ * Converts a recipe back into a cooklang string
+ * @param recipe - The recipe to convert.
+ * @returns The cooklang string.
+ */
+export function serializeRecipe(recipe: Recipe): string {
+  const blocks: string[] = [];
+  const frontMatter = serializeMetadata(recipe.metadata);
+  if (frontMatter) {
+    blocks.push(frontMatter);
+  }
+
+  const declared = {
+    ingredients: new Set<number>(),
+    cookware: new Set<number>(),
+  };
+  for (const section of recipe.sections) {
+    if (section.name) {
+      blocks.push(`== ${section.name} ==`);
+    }
+    for (const element of section.content) {
+      blocks.push(
+        element.type === "step"
+          ? serializeStep(recipe, element, declared)
+          : serializeNote(element),
+      );
+    }
+  }
+
+  return blocks.join("\n\n") + "\n";
+}
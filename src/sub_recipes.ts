@@ -0,0 +1,305 @@
+import Big from "big.js";
+import type { Recipe } from "./classes/recipe";
+import { Quantity } from "./classes/quantity";
+import { Section } from "./classes/section";
+import { findAndUpsertIngredient } from "./parser_helpers";
+import type {
+  DecimalValue,
+  FixedValue,
+  FractionValue,
+  Ingredient,
+  Item,
+  ResolvedRecipe,
+  ScaleOptions,
+  SourceSpan,
+  SubRecipe,
+} from "./types";
+
+const toBig = (v: DecimalValue | FractionValue): Big =>
+  v.type === "decimal" ? Big(v.value) : Big(v.num).div(v.den);
+
+/**
+ * Computes the factor by which a recipe should be scaled to provide the quantity of the ingredient
+ * which references it, e.g. `@./sauces/bechamel{500%g}` or `@@pizza dough{2}`:
+ * - if the reference has a unit, the recipe must have a yield in a unit of the same type (e.g. `yield: 800%g`),
+ *   and the factor is the ratio between the referenced quantity and the yield
+ * - otherwise, the referenced quantity is a number of servings of the recipe, e.g. `servings: 4`, or a number
+ *   of batches if the recipe has no servings or only a yield with a unit
+ *
+ * @example
+ * ```typescript
+ * import { getSubRecipeFactor, Recipe } from @tmlmt/cooklang-parser;
+ *
+ * const pizza = new Recipe("Spread @./sauces/bechamel{500%g} on the dough");
+ * const bechamel = new Recipe("---\nyield: 1%kg\n---\nMelt @butter{100%g}");
+ * getSubRecipeFactor(pizza.ingredients[0], bechamel)?.toNumber();
+ * // 0.5
+ * ```
+ *
+ * @param ingredient - The ingredient referencing the recipe.
+ * @param recipe - The referenced recipe.
+ * @returns The scaling factor, or `undefined` if the recipe should be used as-is: the reference has
+ *   no quantity, a text or range quantity, or a unit which cannot be converted into the unit of the yield.
+ *
+ * @category Functions
+ */
+export function getSubRecipeFactor(
+  ingredient: Ingredient,
+  recipe: Recipe,
+): Big | undefined {
+  const quantity = ingredient.quantity;
+  if (quantity?.type !== "fixed" || quantity.value.type === "text") {
+    return undefined;
+  }
+
+  const [yieldValue, yieldUnit] = String(recipe.metadata.yield ?? "")
+    .split("%")
+    .map((s) => s.trim());
+
+  if (ingredient.unit) {
+    if (!yieldUnit || !(Number(yieldValue) > 0)) return undefined;
+    let converted: FixedValue;
+    try {
+      converted = Quantity.from(quantity, ingredient.unit)
+        .convert(yieldUnit, recipe.units)
+        .toValue() as FixedValue;
+    } catch {
+      return undefined;
+    }
+    return toBig(converted.value as DecimalValue | FractionValue).div(
+      Number(yieldValue),
+    );
+  }
+
+  const amount = toBig(quantity.value);
+  // Without servings, a yield with a unit does not count servings
+  if (
+    !recipe.servings ||
+    (yieldUnit && recipe.metadata.servings === undefined)
+  ) {
+    return amount;
+  }
+  return amount.div(recipe.servings);
+}
+
+/**
+ * Scales the recipes referenced by a recipe so that they provide the quantities of the ingredients
+ * which reference them, see {@link getSubRecipeFactor}. The referenced recipes of the scaled recipes are
+ * scaled in turn, so that the whole dish can be cooked at any size by resolving a scaled recipe.
+ *
+ * @example
+ * ```typescript
+ * import { RecipeResolver, scaleSubRecipes } from @tmlmt/cooklang-parser;
+ *
+ * const resolver = new RecipeResolver(loader);
+ * const lasagna = await resolver.resolve(recipe.scaleTo(8), "lasagna.cook");
+ * const scaled = scaleSubRecipes(lasagna);
+ * scaled.subRecipes[0].factor; // 2
+ * scaled.subRecipes[0].recipe.metadata.yield; // "1000%g"
+ * ```
+ *
+ * @param resolved - The recipe and the recipes it references, see {@link RecipeResolver}
+ * @param options - The options used to scale the referenced recipes, see {@link ScaleOptions}
+ * @returns A new tree of recipes, where referenced recipes are scaled and their {@link SubRecipe.factor | factor} set.
+ *
+ * @category Functions
+ */
+export function scaleSubRecipes(
+  resolved: ResolvedRecipe,
+  options: ScaleOptions = {},
+): ResolvedRecipe {
+  const scaleChildren = (parent: ResolvedRecipe): SubRecipe[] =>
+    parent.subRecipes.map((subRecipe) => {
+      const ingredient = parent.recipe.ingredients[subRecipe.ingredientIndex]!;
+      const factor = getSubRecipeFactor(ingredient, subRecipe.recipe);
+      const scaled: SubRecipe = {
+        ingredientIndex: subRecipe.ingredientIndex,
+        path: subRecipe.path,
+        recipe: factor
+          ? subRecipe.recipe.scaleBy(factor, options)
+          : subRecipe.recipe,
+        subRecipes: [],
+      };
+      if (factor) scaled.factor = factor.toNumber();
+      scaled.subRecipes = scaleChildren({
+        ...scaled,
+        subRecipes: subRecipe.subRecipes,
+      });
+      return scaled;
+    });
+
+  return { ...resolved, subRecipes: scaleChildren(resolved) };
+}
+
+/**
+ * Inlines the recipes referenced by a recipe, recursively, into a single recipe, e.g. for printing:
+ * - the sections of each referenced recipe are inserted before the sections of the recipe, and named after
+ *   the ingredient which references it, e.g. `Pizza dough`, or `Pizza dough: Kneading` for named sections
+ * - the ingredients and timers of the referenced recipes are appended to those of the recipe, and the
+ *   items of their steps point to them
+ * - ingredients used by several recipes are merged like references, e.g. `@&flour{100%g}`, unless their
+ *   flags differ or their quantities cannot be added
+ * - cookware used by several recipes is only listed once, with the largest of its quantities
+ *
+ * Metadata, servings and times are those of the recipe. Referenced recipes are inlined as-is, so
+ * they should be scaled first with {@link scaleSubRecipes} to match the quantities of their references.
+ * Their source spans are dropped, as they point to other sources.
+ *
+ * @example
+ * ```typescript
+ * import { flattenRecipe, RecipeResolver, scaleSubRecipes } from @tmlmt/cooklang-parser;
+ *
+ * const resolver = new RecipeResolver(loader);
+ * const pizza = flattenRecipe(scaleSubRecipes(await resolver.load("pizza.cook")));
+ * pizza.sections.map((section) => section.name);
+ * // ["Pizza dough", ""]
+ * ```
+ *
+ * @param resolved - The recipe and the recipes it references, see {@link RecipeResolver}
+ * @returns A new recipe, which includes the referenced recipes.
+ *
+ * @category Functions
+ */
+export function flattenRecipe(resolved: ResolvedRecipe): Recipe {
+  const flattened = resolved.recipe.clone();
+  const subSections: Section[] = [];
+
+  for (const subRecipe of resolved.subRecipes) {
+    const recipe = flattenRecipe(subRecipe);
+    dropSpans(recipe);
+    const timerOffset = flattened.timers.length;
+    flattened.timers = flattened.timers.concat(recipe.timers);
+
+    const ingredientIndexes = recipe.ingredients.map((ingredient) => {
+      const index = flattened.ingredients.findIndex(
+        (i) => i.name.toLowerCase() === ingredient.name.toLowerCase(),
+      );
+      const flags = (i: Ingredient) => [...i.flags!].sort().join();
+      // Ingredients with other flags are different ingredients, e.g. an optional one
+      if (
+        index === -1 ||
+        flags(flattened.ingredients[index]!) !== flags(ingredient)
+      ) {
+        return {
+          index: flattened.ingredients.push(ingredient) - 1,
+          partOffset: 0,
+        };
+      }
+      // Merged like a reference to the ingredient, e.g. `@&flour{100%g}`
+      const partOffset =
+        flattened.ingredients[index]!.quantityParts?.length ?? 0;
+      const { ingredientIndex } = findAndUpsertIngredient(
+        flattened.ingredients,
+        ingredient,
+        true,
+        { densities: flattened.densities, units: flattened.units },
+      );
+      if (ingredientIndex !== index) {
+        ingredient.separateReference = true;
+        return { index: ingredientIndex, partOffset: 0 };
+      }
+      return { index, partOffset };
+    });
+
+    const cookwareIndexes = recipe.cookware.map((cookware) => {
+      const index = flattened.cookware.findIndex(
+        (c) => c.name.toLowerCase() === cookware.name.toLowerCase(),
+      );
+      if (index === -1) {
+        return { index: flattened.cookware.push(cookware) - 1, partOffset: 0 };
+      }
+      const existing = flattened.cookware[index]!;
+      const partOffset = existing.quantityParts?.length ?? 0;
+      if (cookware.quantity) {
+        // The same cookware can be used by each recipe in turn, so the largest quantity is needed
+        try {
+          if (
+            !existing.quantity ||
+            Quantity.from(cookware.quantity).compare(
+              Quantity.from(existing.quantity),
+            ) > 0
+          ) {
+            existing.quantity = cookware.quantity;
+          }
+        } catch {
+          // Text quantities cannot be compared, the cookware is listed separately
+          return {
+            index: flattened.cookware.push(cookware) - 1,
+            partOffset: 0,
+          };
+        }
+        existing.quantityParts = [
+          ...(existing.quantityParts ?? []),
+          ...cookware.quantityParts!,
+        ];
+      }
+      // Only optional or hidden if it is in all the recipes
+      existing.flags = existing.flags.filter((flag) =>
+        cookware.flags.includes(flag),
+      );
+      if (cookware.scalable) existing.scalable = true;
+      return { index, partOffset };
+    });
+
+    const remapItem = (item: Item): Item => {
+      switch (item.type) {
+        case "ingredient":
+        case "cookware": {
+          const { index, partOffset } = (
+            item.type === "ingredient" ? ingredientIndexes : cookwareIndexes
+          )[item.index]!;
+          const remapped = { ...item, index };
+          if (item.quantityPartIndex !== undefined) {
+            remapped.quantityPartIndex = item.quantityPartIndex + partOffset;
+          }
+          return remapped;
+        }
+        case "timer":
+          return { ...item, index: item.index + timerOffset };
+        default:
+          return item;
+      }
+    };
+
+    const referenceName =
+      resolved.recipe.ingredients[subRecipe.ingredientIndex]!.name;
+    const title =
+      referenceName.charAt(0).toUpperCase() + referenceName.slice(1);
+    for (const section of recipe.sections) {
+      const subSection = new Section(
+        section.name ? `${title}: ${section.name}` : title,
+      );
+      subSection.content = section.content.map((content) =>
+        content.type === "step"
+          ? { ...content, items: content.items.map(remapItem) }
+          : content,
+      );
+      subSections.push(subSection);
+    }
+  }
+
+  flattened.sections = [...subSections, ...flattened.sections];
+  return flattened;
+}
+
+/**
+ * Removes the source spans of a recipe, which point to another source once it is inlined into a recipe
+ * @param recipe - The recipe, modified in place.
+ */
+function dropSpans(recipe: Recipe) {
+  const elements: { span?: SourceSpan }[] = [
+    ...recipe.ingredients,
+    ...recipe.cookware,
+    ...recipe.timers,
+  ];
+  for (const section of recipe.sections) {
+    elements.push(section);
+    for (const content of section.content) {
+      elements.push(content);
+      if (content.type === "step") {
+        for (const item of content.items) elements.push(item);
+      }
+    }
+  }
+  for (const element of elements) delete element.span;
+}
@@ -1,5 +1,6 @@
 import type { Recipe } from "./classes/recipe";
-import type { Quantity } from "./units";
+import type { DensityRegistry } from "./classes/density_registry";
+import type { UnitRegistry } from "./classes/unit_registry";
 
 /**
  * Represents the metadata of a recipe.
@@ -49,6 +50,14 @@ export interface Metadata {
    * the prevailance order for the number which will used for scaling
    * is `servings` \> `yield` \> `serves`. See {@link Metadata.servings | servings}
    * for examples.
+   *
+   * The number can be followed by a unit, which is used to scale the recipe when it is
+   * referenced by another one with a quantity, see {@link getSubRecipeFactor}
+   *
+   * @example
+   * ```yaml
+   * yield: 800%g
+   * ```
    */
   yield?: number | string;
   /** The number of people the recipe serves.
@@ -66,11 +75,11 @@ export interface Metadata {
   course?: string;
   /** The category of the recipe. */
   category?: string;
-  /** The locale of the recipe. */
+  /** The locale of the recipe, used to recognize localized units and numbers, see {@link ParseOptions.locale} */
   locale?: string;
   /**
    *  The preparation time of the recipe.
-   *  Will not be further parsed into any DateTime format nor normalize
+   *  Parsed into {@link Recipe.times | times.prep}
    */
   "prep time"?: string;
   /**
@@ -79,7 +88,7 @@ export interface Metadata {
   "time.prep"?: string;
   /**
    *  The cooking time of the recipe.
-   *  Will not be further parsed into any DateTime format nor normalize
+   *  Parsed into {@link Recipe.times | times.cook}
    */
   "cook time"?: string;
   /**
@@ -88,7 +97,7 @@ export interface Metadata {
   "time.cook"?: string;
   /**
    *  The total time of the recipe.
-   *  Will not be further parsed into any DateTime format nor normalize
+   *  Parsed into {@link Recipe.times | times.total}
    */
   "time required"?: string;
   /*
@@ -117,6 +126,395 @@ export interface Metadata {
   picture?: string;
   /** The introduction of the recipe. */
   introduction?: string;
+  /**
+   * The front matter entries which are not part of the standard metadata, with their YAML type.
+   * Entries of nested standard keys which are not standard themselves are kept with their dotted key,
+   * e.g. `source.isbn`
+   *
+   * @example
+   * ```yaml
+   * ---
+   * rating: 4.5
+   * nutrition:
+   *   calories: 450
+   * ---
+   * ```
+   * gives `{ rating: 4.5, nutrition: { calories: 450 } }`
+   */
+  custom?: { [key: string]: MetadataValue };
+}
+
+/**
+ * Represents the value of a custom front matter entry, as parsed from YAML
+ * @category Types
+ */
+export type MetadataValue =
+  | string
+  | number
+  | boolean
+  | null
+  | MetadataValue[]
+  | { [key: string]: MetadataValue };
+
+/**
+ * Represents a position within the original content of a recipe.
+ * @category Types
+ */
+export interface SourcePosition {
+  /** The line number, starting at 1 */
+  line: number;
+  /** The column number within the line, starting at 1 */
+  column: number;
+  /** The offset from the beginning of the content, starting at 0 */
+  offset: number;
+}
+
+/**
+ * Represents a range of the original content of a recipe. The `start` position is
+ * inclusive while the `end` position is exclusive.
+ * @category Types
+ */
+export interface SourceSpan {
+  /** The position of the first character of the range */
+  start: SourcePosition;
+  /** The position right after the last character of the range */
+  end: SourcePosition;
+}
+
+/**
+ * Represents the source spans of the metadata entries of a recipe
+ * @category Types
+ */
+export type MetadataSpans = {
+  [key in keyof Metadata]?: SourceSpan;
+};
+
+/**
+ * Represents the options which can be passed when parsing a recipe
+ * @category Types
+ */
+export interface ParseOptions {
+  /**
+   * Whether to attach a {@link SourceSpan | source span} to every parsed element
+   * (items, steps, notes, ingredients, cookware, timers, section headers and metadata entries).
+   * Spans are relative to the original content, including front matter and comments.
+   * @defaultValue `false`
+   */
+  spans?: boolean;
+  /**
+   * Whether to recover from errors instead of throwing them. When enabled, the parser
+   * will keep going and produce a best-effort recipe, and the errors will be
+   * reported in the recipe's {@link Recipe.diagnostics | diagnostics}.
+   * @defaultValue `false`
+   */
+  recover?: boolean;
+  /**
+   * The density registry used to add mass and volume quantities of referenced ingredients,
+   * e.g. `@flour{100%g}` and `@&flour{1%cup}`. Without it, such quantities are listed as separate ingredients.
+   */
+  densities?: DensityRegistry;
+  /**
+   * The unit registry used to recognize, add and convert the units of the quantities.
+   * Defaults to the built-in units, see {@link UnitRegistry}
+   */
+  units?: UnitRegistry;
+  /**
+   * The locale of the recipe, e.g. `fr-FR`, or its locale pack. Its unit aliases are added to the unit
+   * registry, and the numbers of the quantities are read in its number format, e.g. `1.000,5` in German.
+   * Defaults to the `locale` of the metadata. See {@link getLocalePack} for the built-in locales.
+   */
+  locale?: string | LocalePack;
+  /**
+   * Whether to recognize number words in quantities, e.g. `@eggs{two}`, in the language of the
+   * {@link ParseOptions.locale | locale}, English by default. Mixed numbers (e.g. `1 1/2`) and unicode
+   * fractions (e.g. `1⅓`) are always recognized.
+   * @defaultValue `false`
+   */
+  numberWords?: boolean;
+}
+
+/**
+ * Represents how the timers of a recipe are scaled:
+ * - `"none"`: timers are not scaled
+ * - `"marked"`: only timers marked as scalable with `*` (e.g. `~{*20%minutes}`) are scaled linearly
+ * - `"linear"`: all timers are scaled linearly
+ * - `{ exponent }`: all timers are scaled by the factor raised to the power of `exponent`, e.g. `2/3` for
+ *   roasting times, which grow with the mass to the power of 2/3
+ * - a function returning the factor by which to scale each timer, `1` leaving it unchanged
+ * @category Types
+ */
+export type TimerScalingPolicy =
+  | "none"
+  | "marked"
+  | "linear"
+  | { exponent: number }
+  | ((timer: Timer, factor: number) => number);
+
+/**
+ * Represents which cookware quantities are scaled with a recipe:
+ * - `"none"`: cookware quantities are not scaled
+ * - `"marked"`: only the quantities of cookware marked as scalable with `*` (e.g. `#baking trays{*2}`) are scaled
+ * - `"all"`: all cookware quantities are scaled
+ *
+ * Scaled quantities are rounded up to the next integer, as cookware cannot be split.
+ * @category Types
+ */
+export type CookwareScalingPolicy = "none" | "marked" | "all";
+
+/**
+ * Options of {@link Recipe.scaleBy} and {@link Recipe.scaleTo}
+ * @category Types
+ */
+export interface ScaleOptions {
+  /**
+   * How the timers are scaled, see {@link TimerScalingPolicy}.
+   * Timers with a text duration are never scaled.
+   * @defaultValue `"marked"`
+   */
+  timers?: TimerScalingPolicy;
+  /**
+   * Which cookware quantities are scaled, see {@link CookwareScalingPolicy}
+   * @defaultValue `"marked"`
+   */
+  cookware?: CookwareScalingPolicy;
+}
+
+/**
+ * Represents the type of a unit. Units can only be converted into units of the same type.
+ * Custom types can be used for units which cannot be converted into mass or volume, e.g. `clove`.
+ * @category Types
+ */
+export type UnitType = "mass" | "volume" | "count" | (string & {});
+
+/**
+ * Represents the system of a unit, e.g. `metric`. Custom systems can be used, e.g. `japanese`.
+ * @category Types
+ */
+export type UnitSystem = "metric" | "imperial" | (string & {});
+
+/**
+ * Represents the definition of a unit, see {@link UnitRegistry}
+ * @category Types
+ */
+export interface UnitDefinition {
+  /** The canonical name of the unit, e.g. `g` */
+  name: string;
+  /** The type of the unit, e.g. `mass` */
+  type: UnitType;
+  /** The system of the unit, e.g. `metric` */
+  system: UnitSystem;
+  /** The aliases of the unit, e.g. `gram` and `grams` */
+  aliases: string[];
+  /**
+   * The conversion factor to the base unit of its type: grams for masses, milliliters for volumes,
+   * and any unit of your choice for custom types
+   */
+  toBase: number;
+}
+
+/**
+ * Represents the unit aliases and number format of a locale, see {@link getLocalePack}
+ * @category Types
+ */
+export interface LocalePack {
+  /**
+   * The aliases of the units in the language of the locale, by unit name, e.g. `{ tbsp: ["EL", "Esslöffel"] }`.
+   * Aliases of units which are not defined in the unit registry are ignored.
+   */
+  units: Record<string, string[]>;
+  /** The decimal separator of the numbers, e.g. `,` in `1,5` */
+  decimalSeparator: string;
+  /** The separators of the groups of thousands of the numbers, e.g. `.` in `1.000` */
+  groupSeparators: string[];
+  /**
+   * The number words of the language, e.g. `{ zwei: 2 }`, recognized as numbers with {@link ParseOptions.numberWords}.
+   * Lowercase.
+   */
+  numbers?: Record<string, number>;
+}
+
+/**
+ * Represents a unit system which the quantities of a recipe can be converted to:
+ * - `"metric"`: grams, kilograms, milliliters and liters
+ * - `"us"`: ounces, pounds, teaspoons, tablespoons, cups, quarts and gallons
+ * - `"imperial"`: ounces, pounds, teaspoons, tablespoons, imperial fluid ounces, imperial pints and imperial gallons
+ *
+ * Cups, quarts and gallons of the `"us"` system are US customary units.
+ * @category Types
+ */
+export type TargetUnitSystem = "metric" | "us" | "imperial";
+
+/**
+ * Represents a unit which quantities can be expressed in, see {@link HumanizeOptions}
+ * @category Types
+ */
+export interface PreferredUnit {
+  /** The name or alias of the unit, e.g. `kg` */
+  name: string;
+  /** The minimum value from which the unit is used, e.g. `1` to use kilograms from 1 kg */
+  min: number;
+}
+
+/**
+ * Options of the `humanizeQuantity()` function.
+ * @category Types
+ */
+export interface HumanizeOptions {
+  /**
+   * The units to choose from. Only the units of the same type and system as the quantity are considered.
+   * The largest unit in which the quantity reaches the minimum value is chosen, the smallest one otherwise.
+   * Defaults to grams, kilograms, milliliters, liters, ounces, pounds, teaspoons, tablespoons, cups, quarts and
+   * gallons, each used from 1 unit except cups which are used from a quarter of a cup. Quantities in imperial
+   * fluid ounces, pints or gallons default to teaspoons, tablespoons and these imperial units instead.
+   */
+  units?: PreferredUnit[];
+}
+
+/**
+ * Represents the direction in which values are rounded:
+ * - `"nearest"`: to the nearest value, halves being rounded away from zero
+ * - `"up"`: to the next value towards positive infinity
+ * - `"down"`: to the previous value towards negative infinity
+ * @category Types
+ */
+export type RoundingMode = "nearest" | "up" | "down";
+
+/**
+ * Represents how the values of a {@link Quantity} are rounded:
+ * - `{ decimals }`: to a number of decimals, e.g. `{ decimals: 2 }` for `0.33`. Values become decimals, unless
+ *   `keepFractions` is set, in which case fractions with a denominator up to 16 are left untouched, e.g. `2/3` but not `137/200`.
+ * - `{ denominator }`: to a multiple of a fraction, e.g. `{ denominator: 4 }` for the nearest quarter. Values become fractions.
+ * @category Types
+ */
+export type RoundingStrategy =
+  | { decimals: number; mode?: RoundingMode; keepFractions?: boolean }
+  | { denominator: number; mode?: RoundingMode };
+
+/**
+ * Options of the `formatQuantity()` function.
+ * @category Types
+ */
+export interface FormatQuantityOptions {
+  /**
+   * How fractions are rendered:
+   * - `"ascii"`: with a slash, e.g. `1/2`
+   * - `"unicode"`: with a unicode vulgar fraction if there is one, e.g. `½`, and with a slash otherwise
+   * - `"decimal"`: as a decimal number, e.g. `0.5`
+   * @defaultValue `"ascii"`
+   */
+  fractions?: "ascii" | "unicode" | "decimal";
+  /**
+   * Whether fractions greater than 1 are rendered as mixed numbers, e.g. `1 1/2` instead of `3/2`
+   * @defaultValue `true`
+   */
+  mixedNumbers?: boolean;
+  /**
+   * The maximum number of decimals of decimal numbers
+   * @defaultValue `2`
+   */
+  precision?: number;
+  /**
+   * The locale, or its locale pack, whose decimal separator is used, e.g. `1,5` in French.
+   * See {@link getLocalePack}
+   */
+  locale?: string | LocalePack;
+  /**
+   * The separator between the minimum and the maximum of a range
+   * @defaultValue `"–"` (en dash)
+   */
+  rangeSeparator?: string;
+  /**
+   * Whether to use the singular or plural form of the unit depending on the quantity, e.g. `1 cup` and
+   * `2 cups`. Forms are looked up in the name and aliases of the unit in the unit registry, so unknown
+   * units are rendered as-is.
+   * @defaultValue `true`
+   */
+  pluralize?: boolean;
+  /**
+   * The unit registry used to pluralize the units. Defaults to the built-in units, see {@link UnitRegistry}
+   */
+  units?: UnitRegistry;
+}
+
+/**
+ * Represents the severity of a {@link Diagnostic}
+ * @category Types
+ */
+export type DiagnosticSeverity = "error" | "warning";
+
+/**
+ * Represents a problem found in a recipe
+ * @category Types
+ */
+export interface Diagnostic {
+  /** The severity of the problem */
+  severity: DiagnosticSeverity;
+  /** A stable code identifying the kind of problem, e.g. `"timer-missing-unit"` */
+  code: string;
+  /** A human-readable description of the problem */
+  message: string;
+  /** The source span of the problem, relative to the original content */
+  span?: SourceSpan;
+  /** A human-readable suggestion to fix the problem */
+  suggestion?: string;
+}
+
+/**
+ * Represents a duration parsed from a human-written string, e.g. `1h 30min`
+ * @category Types
+ */
+export interface Duration {
+  /** The original string */
+  raw: string;
+  /** The duration in minutes */
+  minutes: number;
+  /** The duration in ISO 8601 format, e.g. `PT1H30M` */
+  iso: string;
+}
+
+/**
+ * Represents a duration in seconds, which can be a range, e.g. for a timer of `~{10-15%min}`
+ * @category Types
+ */
+export interface DurationRange {
+  /** The minimum duration, in seconds */
+  min: number;
+  /** The maximum duration, in seconds. Equal to `min` for fixed durations */
+  max: number;
+}
+
+/**
+ * Represents the total duration of the timers of a recipe, as given by {@link Recipe.getTimersDuration}
+ * @category Types
+ */
+export interface TimersDuration {
+  /** The total duration of the timers of the recipe */
+  total: DurationRange;
+  /** The total duration of the timers of each section, in the order of {@link Recipe.sections} */
+  sections: {
+    /** The name of the section */
+    name: string;
+    /** The total duration of the timers of the section */
+    duration: DurationRange;
+  }[];
+  /** The number of timers which could not be counted, as their unit is not a time unit or their duration is not a number */
+  skipped: number;
+}
+
+/**
+ * Represents the times of a recipe, parsed from its metadata
+ * @category Types
+ */
+export interface RecipeTimes {
+  /** The preparation time, from the `prep time` or `time.prep` metadata */
+  prep?: Duration;
+  /** The cooking time, from the `cook time` or `time.cook` metadata */
+  cook?: Duration;
+  /**
+   * The total time, from the `time required`, `time` or `duration` metadata.
+   * Defaults to the sum of the preparation and cooking times.
+   */
+  total?: Duration;
 }
 
 /**
@@ -180,11 +578,22 @@ export interface Range {
   max: DecimalValue | FractionValue;
 }
 
+/**
+ * Represents a quantity value with its unit
+ * @category Types
+ */
+export interface QuantityWithUnit {
+  /** The value of the quantity */
+  value: FixedValue | Range;
+  /** The unit of the quantity, if any */
+  unit?: string;
+}
+
 /**
  * Represents a contributor to an ingredient's total quantity
  * @category Types
  */
-export interface QuantityPart extends Quantity {
+export interface QuantityPart extends QuantityWithUnit {
   /** - If _true_, the quantity will scale
    * - If _false_, the quantity is fixed
    */
@@ -237,6 +646,14 @@ export interface Ingredient {
   flags?: IngredientFlag[];
   /** The collection of potential additional metadata for the ingredient */
   extras?: IngredientExtras;
+  /**
+   * Whether the ingredient was listed again by a reference whose quantity cannot be added to the one
+   * of the original ingredient, e.g. `@&flour{1%pinch}` after `@flour{100%g}`. Only set for such ingredients
+   */
+  separateReference?: boolean;
+  /** The source span of the item which declared the ingredient.
+   * Only set if parsed with {@link ParseOptions.spans} */
+  span?: SourceSpan;
 }
 
 /**
@@ -250,6 +667,18 @@ export interface Timer {
   duration: FixedValue | Range;
   /** The unit of the timer. */
   unit: string;
+  /**
+   * Whether the timer is marked as scalable with `*`, e.g. `~{*20%minutes}`.
+   * Only set for marked timers, see {@link ScaleOptions.timers}
+   */
+  scalable?: boolean;
+  /**
+   * The duration of the timer before scaling.
+   * Only set on timers which were scaled by {@link Recipe.scaleBy | scaleBy()} or {@link Recipe.scaleTo | scaleTo()}
+   */
+  originalDuration?: FixedValue | Range;
+  /** The source span of the timer. Only set if parsed with {@link ParseOptions.spans} */
+  span?: SourceSpan;
 }
 
 /**
@@ -261,6 +690,8 @@ export interface TextItem {
   type: "text";
   /** The content of the text item. */
   value: string;
+  /** The source span of the item. Only set if parsed with {@link ParseOptions.spans} */
+  span?: SourceSpan;
 }
 
 /**
@@ -278,6 +709,8 @@ export interface IngredientItem {
   /** The alias/name of the ingredient as it should be displayed in the preparation
    * for this occurence */
   displayName: string;
+  /** The source span of the item. Only set if parsed with {@link ParseOptions.spans} */
+  span?: SourceSpan;
 }
 
 /**
@@ -292,6 +725,8 @@ export interface CookwareItem {
   /** Index of the quantity part corresponding to this item / this occurence
    * of the cookware, which may be referenced elsewhere. */
   quantityPartIndex?: number;
+  /** The source span of the item. Only set if parsed with {@link ParseOptions.spans} */
+  span?: SourceSpan;
 }
 
 /**
@@ -303,6 +738,8 @@ export interface TimerItem {
   type: "timer";
   /** The index of the timer, within the {@link Recipe.timers | list of timers} */
   index: number;
+  /** The source span of the item. Only set if parsed with {@link ParseOptions.spans} */
+  span?: SourceSpan;
 }
 
 /**
@@ -319,6 +756,8 @@ export interface Step {
   type: "step";
   /** The items in the step. */
   items: Item[];
+  /** The source span of the step. Only set if parsed with {@link ParseOptions.spans} */
+  span?: SourceSpan;
 }
 
 /**
@@ -329,6 +768,8 @@ export interface Note {
   type: "note";
   /** The content of the note. */
   note: string;
+  /** The source span of the note. Only set if parsed with {@link ParseOptions.spans} */
+  span?: SourceSpan;
 }
 
 /**
@@ -350,6 +791,157 @@ export interface Cookware {
   quantityParts?: (FixedValue | Range)[];
   /** A list of potential state modifiers or other flags for the cookware */
   flags: CookwareFlag[];
+  /**
+   * Whether the quantity of the cookware is marked as scalable with `*` on any of its occurrences,
+   * e.g. `#baking trays{*2}`. Only set for marked cookware, see {@link ScaleOptions.cookware}
+   */
+  scalable?: boolean;
+  /** The source span of the item which declared the cookware.
+   * Only set if parsed with {@link ParseOptions.spans} */
+  span?: SourceSpan;
+}
+
+/**
+ * Represents a source of recipes, used to load the recipes referenced by other recipes,
+ * e.g. `@./essentials/pizza dough{1}`. See {@link RecipeResolver}
+ * @category Types
+ */
+export interface RecipeLoader {
+  /**
+   * Loads the content of a recipe.
+   * @param path - The path of the recipe, e.g. `essentials/pizza dough.cook`.
+   * @returns The cooklang content of the recipe.
+   * @throws {@link RecipeNotFoundError} if there is no recipe at this path
+   */
+  load(path: string): Promise<string>;
+}
+
+/**
+ * Represents a recipe together with the recipes it references, recursively.
+ * @category Types
+ */
+export interface ResolvedRecipe {
+  /** The path of the recipe, as given to the {@link RecipeLoader} */
+  path: string;
+  /** The parsed recipe. */
+  recipe: Recipe;
+  /** The recipes referenced by the ingredients of the recipe, in the order of the ingredients. */
+  subRecipes: SubRecipe[];
+}
+
+/**
+ * Represents a recipe referenced by an ingredient of another recipe.
+ * @category Types
+ */
+export interface SubRecipe extends ResolvedRecipe {
+  /** The index of the referencing ingredient, within the {@link Recipe.ingredients | list of ingredients} of the parent recipe */
+  ingredientIndex: number;
+  /**
+   * The factor by which the recipe was scaled to provide the quantity of the referencing ingredient.
+   * Only set by {@link scaleSubRecipes}, if the recipe was scaled
+   */
+  factor?: number;
+}
+
+/**
+ * Represents the fields by which the recipes of a {@link RecipeCollection} are indexed:
+ * - `tags`, `course`, `cuisine`, `diet` and `category`: the corresponding metadata. Values of the
+ *   other metadata than `tags` can list several terms separated by commas, e.g. `diet: vegan, gluten-free`,
+ *   or as a YAML list, e.g. `diet: [vegan, gluten-free]`
+ * - `ingredients` and `cookware`: the names of the ingredients and cookware used in the recipe
+ * @category Types
+ */
+export type RecipeIndexField =
+  | "tags"
+  | "course"
+  | "cuisine"
+  | "diet"
+  | "category"
+  | "ingredients"
+  | "cookware";
+
+/**
+ * Represents a set of terms to look for in the recipes of a {@link RecipeCollection}, by indexed field.
+ * Terms are case-insensitive, and must match a whole value, e.g. `chicken` does not match `chicken stock`
+ *
+ * @example
+ * ```typescript
+ * { diet: "vegetarian", cookware: ["dutch oven", "blender"] }
+ * ```
+ * @category Types
+ */
+export type RecipeFilter = Partial<Record<RecipeIndexField, string | string[]>>;
+
+/**
+ * Represents a query of the recipes of a {@link RecipeCollection}. The terms of the query are
+ * those which the recipes must all have, see {@link RecipeFilter}
+ *
+ * @example
+ * ```typescript
+ * // Vegetarian mains without chicken, ready in 30 minutes, which use a dutch oven
+ * {
+ *   diet: "vegetarian",
+ *   course: "main",
+ *   cookware: "dutch oven",
+ *   exclude: { ingredients: "chicken" },
+ *   maxTime: 30,
+ *   sortBy: "time",
+ * }
+ * ```
+ * @category Types
+ */
+export interface RecipeQuery extends RecipeFilter {
+  /**
+   * The terms which the recipes must not have. Like the other terms, they must match a whole value,
+   * e.g. excluding the `chicken` ingredient does not exclude recipes which only use `chicken stock`
+   */
+  exclude?: RecipeFilter;
+  /** Text to look for in the title of the recipes, case-insensitively. */
+  search?: string;
+  /**
+   * The maximum {@link RecipeTimes.total | total time} of the recipes, in minutes.
+   * Recipes without total time are excluded.
+   */
+  maxTime?: number;
+  /**
+   * The order of the recipes: by title (or path, for recipes without title), or by total time.
+   * Recipes are in the order they were added by default.
+   */
+  sortBy?: "title" | "time";
+  /**
+   * The direction of the order.
+   * @defaultValue `"asc"`
+   */
+  order?: "asc" | "desc";
+  /**
+   * The number of matching recipes to skip, for pagination.
+   * @defaultValue `0`
+   */
+  offset?: number;
+  /** The maximum number of recipes to return, for pagination. */
+  limit?: number;
+}
+
+/**
+ * Represents a recipe of a {@link RecipeCollection}
+ * @category Types
+ */
+export interface CollectionRecipe {
+  /** The path of the recipe within the collection. */
+  path: string;
+  /** The parsed recipe. */
+  recipe: Recipe;
+}
+
+/**
+ * Represents the result of a {@link RecipeQuery}
+ * @category Types
+ */
+export interface RecipeQueryResult {
+  /** The number of matching recipes, before pagination. */
+  total: number;
+  /** The matching recipes, sorted and paginated. */
+  recipes: CollectionRecipe[];
 }
 
 /**
@@ -357,7 +949,7 @@ export interface Cookware {
  * @category Types
  */
 export interface CategorizedIngredients {
-  [category: string]: Ingredient[];
+  [category: string]: AddedIngredient[];
 }
 
 /**
@@ -369,6 +961,10 @@ export interface RecipeWithFactor {
   recipe: Recipe;
   /** The factor the recipe is scaled by. */
   factor: number;
+  /** The recipes referenced by the recipe, which are expanded into their own ingredients. */
+  subRecipes?: SubRecipe[];
+  /** The path of the recipe, if it was added with the recipes it references, see {@link ResolvedRecipe} */
+  path?: string;
 }
 
 /**
@@ -380,6 +976,10 @@ export interface RecipeWithServings {
   recipe: Recipe;
   /** The servings the recipe is scaled to */
   servings: number;
+  /** The recipes referenced by the recipe, which are expanded into their own ingredients. */
+  subRecipes?: SubRecipe[];
+  /** The path of the recipe, if it was added with the recipes it references, see {@link ResolvedRecipe} */
+  path?: string;
 }
 
 /**
@@ -392,7 +992,45 @@ export type AddedRecipe = RecipeWithFactor | RecipeWithServings;
  * Represents an ingredient that has been added to a shopping list
  * @category Types
  */
-export type AddedIngredient = Pick<Ingredient, "name" | "quantity" | "unit">;
+export type AddedIngredient = Pick<Ingredient, "name" | "quantity" | "unit"> & {
+  /**
+   * How much of the ingredient is available in the pantry, see {@link PantryStatus}.
+   * Only set if the shopping list has a pantry, see {@link ShoppingList.set_pantry | set_pantry()}
+   */
+  pantryStatus?: PantryStatus;
+  /**
+   * The paths of the recipes which pulled the ingredient into the shopping list, be they added recipes or
+   * the recipes they reference. Only set for recipes added with the recipes they reference, see
+   * {@link ShoppingList.add_recipe | add_recipe()}
+   */
+  sources?: string[];
+};
+
+/**
+ * Represents how much of an ingredient of a shopping list is available in the pantry:
+ * - `"covered"`: enough of the ingredient is available, nothing needs to be bought
+ * - `"partial"`: some of the ingredient is available, and the quantity of the ingredient is what remains to be bought
+ * - `"needed"`: the ingredient is not available, or its quantity cannot be compared with what is available
+ * @category Types
+ */
+export type PantryStatus = "covered" | "partial" | "needed";
+
+/**
+ * Represents an ingredient available in a {@link Pantry}.
+ * @category Types
+ */
+export interface PantryItem {
+  /** The name of the ingredient. */
+  name: string;
+  /** The aliases of the ingredient, including its name. */
+  aliases: string[];
+  /** The available quantity of the ingredient. Any quantity is considered available if undefined. */
+  quantity?: FixedValue | Range;
+  /** The unit of the available quantity. */
+  unit?: string;
+  /** The location of the ingredient, e.g. `fridge`, if it is listed under one. */
+  location?: string;
+}
 
 /**
  * Represents an ingredient in a category.
@@ -415,3 +1053,157 @@ export interface Category {
   /** The ingredients in the category. */
   ingredients: CategoryIngredient[];
 }
+
+/**
+ * Represents a node of a `CooklangDocument` which is kept as is, i.e. the front matter,
+ * comments, text and line breaks.
+ * @category Types
+ */
+export interface CstTriviaNode {
+  /** The type of the node. */
+  type: "frontMatter" | "comment" | "blockComment" | "text" | "newline";
+  /** The exact source text of the node. */
+  raw: string;
+  /** The span of the node in the content the document was created from. Not updated by edits. */
+  span: SourceSpan;
+}
+
+/**
+ * Represents an ingredient token of a `CooklangDocument`, e.g. `@flour{=1,5%kg}(sifted)`.
+ * All fields are kept as written in the source.
+ * @category Types
+ */
+export interface CstIngredientNode {
+  /** The type of the node. */
+  type: "ingredient";
+  /** The exact source text of the node. */
+  raw: string;
+  /** The span of the node in the content the document was created from. Not updated by edits. */
+  span: SourceSpan;
+  /** The modifiers of the ingredient, e.g. `?` or `&` */
+  modifiers: string;
+  /** The name of the ingredient, including its alias (`name|alias`) and recipe path (`./path`) if any */
+  name: string;
+  /** Whether the quantity is fixed, i.e. prefixed with `=` */
+  fixed: boolean;
+  /** The raw quantity of the ingredient, e.g. `1,5` */
+  quantity?: string;
+  /** The unit of the ingredient */
+  unit?: string;
+  /** The preparation of the ingredient */
+  preparation?: string;
+  /** Whether the ingredient is followed by braces, even empty ones */
+  braces: boolean;
+}
+
+/**
+ * Represents a cookware token of a `CooklangDocument`, e.g. `#pot{2}`.
+ * All fields are kept as written in the source.
+ * @category Types
+ */
+export interface CstCookwareNode {
+  /** The type of the node. */
+  type: "cookware";
+  /** The exact source text of the node. */
+  raw: string;
+  /** The span of the node in the content the document was created from. Not updated by edits. */
+  span: SourceSpan;
+  /** The modifiers of the cookware, e.g. `?` or `&` */
+  modifiers: string;
+  /** The name of the cookware */
+  name: string;
+  /** Whether the quantity is marked as scalable with `*` */
+  scalable: boolean;
+  /** The raw quantity of the cookware, without the `*` marker */
+  quantity?: string;
+  /** Whether the cookware is followed by braces, even empty ones */
+  braces: boolean;
+}
+
+/**
+ * Represents a timer token of a `CooklangDocument`, e.g. `~rest{10%minutes}`.
+ * All fields are kept as written in the source.
+ * @category Types
+ */
+export interface CstTimerNode {
+  /** The type of the node. */
+  type: "timer";
+  /** The exact source text of the node. */
+  raw: string;
+  /** The span of the node in the content the document was created from. Not updated by edits. */
+  span: SourceSpan;
+  /** The name of the timer, empty if anonymous */
+  name: string;
+  /** Whether the duration is marked as scalable with `*` */
+  scalable: boolean;
+  /** The raw duration of the timer, without the `*` marker */
+  quantity: string;
+  /** The unit of the timer */
+  unit?: string;
+}
+
+/**
+ * Represents a node of the lossless concrete syntax tree of a `CooklangDocument`
+ * @category Types
+ */
+export type CstNode =
+  | CstTriviaNode
+  | CstIngredientNode
+  | CstCookwareNode
+  | CstTimerNode;
+
+/**
+ * Options of the `format()` function.
+ * @category Types
+ */
+export interface FormatOptions {
+  /**
+   * The order in which the front matter keys are written. Keys which are not listed are written
+   * after the listed ones, in their original order.
+   * Defaults to the order of the fields of {@link Metadata}
+   */
+  metadataOrder?: string[];
+  /**
+   * The style of the front matter lists: `block` (`- item` on each line) or `inline` (`[item1, item2]`).
+   * Defaults to `block`.
+   */
+  listStyle?: "block" | "inline";
+  /**
+   * The marker written around section names, e.g. `==` for `== Dough ==`. Defaults to `==`.
+   */
+  sectionMarker?: string;
+}
+
+/**
+ * Stable codes of the rules checked by the `lint()` function:
+ * - `ingredient-missing-quantity`: an ingredient has no quantity
+ * - `unknown-unit`: an ingredient unit is not a known unit, and will therefore not be converted nor added to other units
+ * - `duplicate-ingredient`: an ingredient is declared several times without the `&` modifier, creating several list entries
+ * - `unused-optional-cookware`: an optional cookware is not used in any step, e.g. after steps of a parsed recipe were removed
+ * - `timer-unit-not-time`: a timer unit is not a time unit
+ * - `missing-title`: the `title` metadata is missing
+ * - `missing-servings`: none of the `servings`, `yield` or `serves` metadata are set
+ * - `invalid-servings`: the servings metadata cannot be used for scaling
+ * - `duplicate-section`: several sections have the same name
+ * @category Types
+ */
+export type LintRuleCode =
+  | "ingredient-missing-quantity"
+  | "unknown-unit"
+  | "duplicate-ingredient"
+  | "unused-optional-cookware"
+  | "timer-unit-not-time"
+  | "missing-title"
+  | "missing-servings"
+  | "invalid-servings"
+  | "duplicate-section";
+
+/**
+ * Configuration of the rules checked by the `lint()` function, see {@link LintRuleCode}.
+ * Each rule can be disabled with `false`, enabled with its default severity with `true`,
+ * or enabled with a given {@link DiagnosticSeverity}. Rules which are not configured are enabled.
+ * @category Types
+ */
+export type LintRules = {
+  [code in LintRuleCode]?: boolean | DiagnosticSeverity;
+};
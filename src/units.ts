@@ -1,160 +1,40 @@
-import type { FixedValue, Range, DecimalValue, FractionValue } from "./types";
+import type {
+  FixedValue,
+  Range,
+  DecimalValue,
+  FractionValue,
+  TargetUnitSystem,
+  PreferredUnit,
+  HumanizeOptions,
+  UnitDefinition,
+  UnitSystem,
+  FormatQuantityOptions,
+  QuantityWithUnit,
+  RoundingStrategy,
+} from "./types";
 import Big from "big.js";
-export type UnitType = "mass" | "volume" | "count";
-export type UnitSystem = "metric" | "imperial";
-
-export interface UnitDefinition {
-  name: string; // canonical name, e.g. 'g'
-  type: UnitType;
-  system: UnitSystem;
-  aliases: string[]; // e.g. ['gram', 'grams']
-  toBase: number; // conversion factor to the base unit of its type
-}
-
-export interface Quantity {
-  value: FixedValue | Range;
-  unit?: string;
-}
-
-// Base units: mass -> gram (g), volume -> milliliter (ml)
-const units: UnitDefinition[] = [
-  // Mass (Metric)
-  {
-    name: "g",
-    type: "mass",
-    system: "metric",
-    aliases: ["gram", "grams", "grammes"],
-    toBase: 1,
-  },
-  {
-    name: "kg",
-    type: "mass",
-    system: "metric",
-    aliases: ["kilogram", "kilograms", "kilogrammes", "kilos", "kilo"],
-    toBase: 1000,
-  },
-  // Mass (Imperial)
-  {
-    name: "oz",
-    type: "mass",
-    system: "imperial",
-    aliases: ["ounce", "ounces"],
-    toBase: 28.3495,
-  },
-  {
-    name: "lb",
-    type: "mass",
-    system: "imperial",
-    aliases: ["pound", "pounds"],
-    toBase: 453.592,
-  },
-
-  // Volume (Metric)
-  {
-    name: "ml",
-    type: "volume",
-    system: "metric",
-    aliases: ["milliliter", "milliliters", "millilitre", "millilitres", "cc"],
-    toBase: 1,
-  },
-  {
-    name: "cl",
-    type: "volume",
-    system: "metric",
-    aliases: ["centiliter", "centiliters", "centilitre", "centilitres"],
-    toBase: 10,
-  },
-  {
-    name: "dl",
-    type: "volume",
-    system: "metric",
-    aliases: ["deciliter", "deciliters", "decilitre", "decilitres"],
-    toBase: 100,
-  },
-  {
-    name: "l",
-    type: "volume",
-    system: "metric",
-    aliases: ["liter", "liters", "litre", "litres"],
-    toBase: 1000,
-  },
-  {
-    name: "tsp",
-    type: "volume",
-    system: "metric",
-    aliases: ["teaspoon", "teaspoons"],
-    toBase: 5,
-  },
-  {
-    name: "tbsp",
-    type: "volume",
-    system: "metric",
-    aliases: ["tablespoon", "tablespoons"],
-    toBase: 15,
-  },
-
-  // Volume (Imperial)
-  {
-    name: "fl-oz",
-    type: "volume",
-    system: "imperial",
-    aliases: ["fluid ounce", "fluid ounces"],
-    toBase: 29.5735,
-  },
-  {
-    name: "cup",
-    type: "volume",
-    system: "imperial",
-    aliases: ["cups"],
-    toBase: 236.588,
-  },
-  {
-    name: "pint",
-    type: "volume",
-    system: "imperial",
-    aliases: ["pints"],
-    toBase: 473.176,
-  },
-  {
-    name: "quart",
-    type: "volume",
-    system: "imperial",
-    aliases: ["quarts"],
-    toBase: 946.353,
-  },
-  {
-    name: "gallon",
-    type: "volume",
-    system: "imperial",
-    aliases: ["gallons"],
-    toBase: 3785.41,
-  },
-
-  // Count units (no conversion, but recognized as a type)
-  {
-    name: "piece",
-    type: "count",
-    system: "metric",
-    aliases: ["pieces", "pc"],
-    toBase: 1,
-  },
-];
+import { UnitRegistry } from "./classes/unit_registry";
+import { getLocalePack } from "./locales";
+import { Quantity } from "./classes/quantity";
 
-const unitMap = new Map<string, UnitDefinition>();
-for (const unit of units) {
-  unitMap.set(unit.name.toLowerCase(), unit);
-  for (const alias of unit.aliases) {
-    unitMap.set(alias.toLowerCase(), unit);
-  }
-}
+const defaultUnitRegistry = new UnitRegistry();
 
-export function normalizeUnit(unit: string = ""): UnitDefinition | undefined {
-  return unitMap.get(unit.toLowerCase().trim());
+/**
+ * Finds the definition of a unit from its name or one of its aliases, case-insensitively
+ * @param unit - The name or alias of the unit.
+ * @param registry - The unit registry to search in. Defaults to the built-in units.
+ * @returns The definition of the unit, or `undefined` if unknown.
+ */
+export function normalizeUnit(
+  unit: string = "",
+  registry: UnitRegistry = defaultUnitRegistry,
+): UnitDefinition | undefined {
+  return registry.get(unit);
 }
 
 export class CannotAddTextValueError extends Error {
-  constructor() {
-    super("Cannot add a quantity with a text value.");
+  constructor(operation: string = "add") {
+    super(`Cannot ${operation} a quantity with a text value.`);
     this.name = "CannotAddTextValueError";
   }
 }
@@ -199,109 +79,445 @@ export function multiplyNumericValue(
   v: DecimalValue | FractionValue,
   factor: number | Big,
 ): DecimalValue | FractionValue {
-  if (v.type === "decimal") {
-    return { type: "decimal", value: Big(v.value).times(factor).toNumber() };
-  }
-  return simplifyFraction(Big(v.num).times(factor).toNumber(), v.den);
+  const product = Quantity.from({ type: "fixed", value: v })
+    .multiply(factor)
+    .toValue() as FixedValue;
+  return product.value as DecimalValue | FractionValue;
 }
 
+/**
+ * Adds two numeric values exactly. The sum of two fractions is a fraction, and the sum of a fraction and a
+ * decimal is a decimal, unless it cannot be written as one, e.g. `1/3 + 0.5` is `5/6`.
+ * @param val1 - The first value.
+ * @param val2 - The second value.
+ * @returns The sum of the values.
+ */
 export function addNumericValues(
   val1: DecimalValue | FractionValue,
   val2: DecimalValue | FractionValue,
 ): DecimalValue | FractionValue {
-  let num1: number;
-  let den1: number;
-  let num2: number;
-  let den2: number;
-
-  if (val1.type === "decimal") {
-    num1 = val1.value;
-    den1 = 1;
-  } else {
-    num1 = val1.num;
-    den1 = val1.den;
-  }
+  const sum = Quantity.from({ type: "fixed", value: val1 })
+    .add(Quantity.from({ type: "fixed", value: val2 }))
+    .toValue() as FixedValue;
+  return sum.value as DecimalValue | FractionValue;
+}
 
-  if (val2.type === "decimal") {
-    num2 = val2.value;
-    den2 = 1;
-  } else {
-    num2 = val2.num;
-    den2 = val2.den;
-  }
+/**
+ * Multiplies a quantity value by a factor, exactly, then rounds it.
+ *
+ * @param value - The quantity value. Text values are returned as-is.
+ * @param factor - The factor to multiply the value by.
+ * @param rounding - The rounding strategy, see {@link RoundingStrategy}. By default, decimals are rounded to
+ *   2 decimals and fractions are kept as-is when their denominator is up to 16, e.g. `1/2` times `4/3` is `2/3`
+ *   but `1/2` times `1.37` is `0.69`.
+ * @returns The multiplied quantity value.
+ */
+export function multiplyQuantityValue(
+  value: FixedValue | Range,
+  factor: number | Big,
+  rounding: RoundingStrategy = { decimals: 2, keepFractions: true },
+): FixedValue | Range {
+  return Quantity.from(value).multiply(factor).round(rounding).toValue();
+}
 
-  // Return 0 if both values are 0
-  if (num1 === 0 && num2 === 0) {
-    return { type: "decimal", value: 0 };
-  }
+const ceilNumericValue = (
+  v: DecimalValue | FractionValue,
+  factor: number | Big,
+): DecimalValue => {
+  const value = v.type === "decimal" ? Big(v.value) : Big(v.num).div(v.den);
+  return {
+    type: "decimal",
+    value: value.times(factor).round(0, Big.roundUp).toNumber(),
+  };
+};
 
-  // We only return a fraction where both input values are fractions themselves or only one while the other is 0
-  if (
-    (val1.type === "fraction" && val2.type === "fraction") ||
-    (val1.type === "fraction" && val2.type === "decimal" && val2.value === 0) ||
-    (val2.type === "fraction" && val1.type === "decimal" && val1.value === 0)
-  ) {
-    const commonDen = den1 * den2;
-    const sumNum = num1 * den2 + num2 * den1;
-    return simplifyFraction(sumNum, commonDen);
-  } else {
+/**
+ * Multiplies a quantity value by a factor and rounds the result up to the next integer,
+ * e.g. for items which cannot be split such as cookware
+ *
+ * @param value - The quantity value. Text values are returned as-is.
+ * @param factor - The factor to multiply the value by.
+ * @returns The multiplied and rounded quantity value
+ */
+export function multiplyAndCeilQuantityValue(
+  value: FixedValue | Range,
+  factor: number | Big,
+): FixedValue | Range {
+  if (value.type === "range") {
     return {
-      type: "decimal",
-      value: Big(num1).div(den1).add(Big(num2).div(den2)).toNumber(),
+      type: "range",
+      min: ceilNumericValue(value.min, factor),
+      max: ceilNumericValue(value.max, factor),
     };
   }
+  if (value.value.type === "text") {
+    return value;
+  }
+  return { type: "fixed", value: ceilNumericValue(value.value, factor) };
 }
 
-const toRoundedDecimal = (v: DecimalValue | FractionValue): DecimalValue => {
-  const value = v.type === "decimal" ? v.value : v.num / v.den;
-  return { type: "decimal", value: Math.floor(value * 100) / 100 };
+// Units used when converting to a system, in increasing size, with the minimum value for which each one is used
+const conversionTargets: Record<
+  TargetUnitSystem,
+  Record<"mass" | "volume", PreferredUnit[]>
+> = {
+  metric: {
+    mass: [
+      { name: "g", min: 0 },
+      { name: "kg", min: 1 },
+    ],
+    volume: [
+      { name: "ml", min: 0 },
+      { name: "l", min: 1 },
+    ],
+  },
+  us: {
+    mass: [
+      { name: "oz", min: 0 },
+      { name: "lb", min: 1 },
+    ],
+    volume: [
+      { name: "tsp", min: 0 },
+      { name: "tbsp", min: 1 },
+      { name: "cup", min: 0.25 },
+      { name: "quart", min: 1 },
+      { name: "gallon", min: 1 },
+    ],
+  },
+  imperial: {
+    mass: [
+      { name: "oz", min: 0 },
+      { name: "lb", min: 1 },
+    ],
+    volume: [
+      { name: "tsp", min: 0 },
+      { name: "tbsp", min: 1 },
+      { name: "imp-fl-oz", min: 1 },
+      { name: "imp-pint", min: 1 },
+      { name: "imp-gallon", min: 1 },
+    ],
+  },
 };
 
-export function multiplyQuantityValue(
+// Imperial volumes, which are larger than their US customary namesakes, and are therefore not mixed with US units
+const imperialVolumes = ["imp-fl-oz", "imp-pint", "imp-gallon"];
+
+const defaultPreferredUnits: PreferredUnit[] = [
+  ...conversionTargets.metric.mass,
+  ...conversionTargets.metric.volume,
+  ...conversionTargets.us.mass,
+  ...conversionTargets.us.volume,
+];
+
+// Units which are measured with spoons and cups, and are therefore expressed in quarters
+const quarterUnits = ["tsp", "tbsp", "cup"];
+
+// Spoons are used along with cups, so they are considered as part of the imperial system when choosing a unit
+const getUnitFamily = (def: UnitDefinition): UnitSystem =>
+  def.name === "tsp" || def.name === "tbsp" ? "imperial" : def.system;
+
+const roundConvertedValue = (
+  value: number,
+  unit: UnitDefinition,
+): DecimalValue | FractionValue => {
+  if (quarterUnits.includes(unit.name)) {
+    const quarters = Math.round(value * 4);
+    if (quarters > 0) {
+      return simplifyFraction(quarters, 4);
+    }
+  }
+  return { type: "decimal", value: Big(value).prec(3).toNumber() };
+};
+
+/**
+ * Expresses a quantity in the largest of the candidate units in which it reaches the minimum value
+ * of the unit, rounding the converted value.
+ * @param value - The numeric quantity value.
+ * @param def - The unit of the quantity.
+ * @param candidates - The candidate units, which must be of the same type as `def` and known to the registry.
+ * @param registry - The unit registry.
+ * @returns The quantity in the chosen unit, or `undefined` if it is already expressed in it.
+ */
+function convertToBestUnit(
   value: FixedValue | Range,
-  factor: number | Big,
-): FixedValue | Range {
-  if (value.type === "fixed") {
-    const newValue = multiplyNumericValue(
-      value.value as DecimalValue | FractionValue,
-      Big(factor),
+  def: UnitDefinition,
+  candidates: PreferredUnit[],
+  registry: UnitRegistry,
+): QuantityWithUnit | undefined {
+  const toBase = (v: DecimalValue | FractionValue) =>
+    Big(v.type === "decimal" ? v.value : Big(v.num).div(v.den))
+      .times(def.toBase)
+      .toNumber();
+  const minInBase = toBase(
+    value.type === "range" ? value.min : (value.value as DecimalValue),
+  );
+  const target = candidates
+    .map((candidate) => ({
+      ...candidate,
+      def: normalizeUnit(candidate.name, registry)!,
+    }))
+    .sort((a, b) => a.def.toBase - b.def.toBase)
+    .reduce((prev, current) =>
+      minInBase / current.def.toBase >= current.min ? current : prev,
     );
-    if (
-      factor === parseInt(factor.toString()) || // e.g. 2 === int
-      Big(1).div(factor).toNumber() === parseInt(Big(1).div(factor).toString()) // e.g. 0.25 => 4 === int
-    ) {
-      // Preserve fractions
-      return {
-        type: "fixed",
-        value: newValue,
-      };
-    }
-    // We might multiply with big decimal number so rounding into decimal value
-    return {
-      type: "fixed",
-      value: toRoundedDecimal(newValue),
-    };
+  if (target.def.name === def.name) {
+    return undefined;
   }
 
+  const convert = (v: DecimalValue | FractionValue) =>
+    roundConvertedValue(toBase(v) / target.def.toBase, target.def);
   return {
-    type: "range",
-    min: multiplyNumericValue(value.min, factor),
-    max: multiplyNumericValue(value.max, factor),
+    value:
+      value.type === "range"
+        ? { type: "range", min: convert(value.min), max: convert(value.max) }
+        : { type: "fixed", value: convert(value.value as DecimalValue) },
+    unit: target.def.name,
   };
 }
 
-const convertQuantityValue = (
-  value: FixedValue | Range,
-  def: UnitDefinition,
-  targetDef: UnitDefinition,
-): FixedValue | Range => {
-  if (def.name === targetDef.name) return value;
+/**
+ * Converts a quantity into a unit of another system, e.g. `500 g` into `1.1 lb` or `250 ml` into `1 cup`.
+ * The target unit is the largest one of the system in which the quantity is still meaningful, and the
+ * converted value is rounded to 3 significant digits, or to the nearest quarter for spoons and cups.
+ *
+ * @param quantity - The quantity to convert.
+ * @param system - The unit system to convert to.
+ * @param registry - The unit registry. Defaults to the built-in units.
+ * @returns The converted quantity. Quantities with a text value, a unit which is unknown or neither a mass nor
+ *   a volume, or a unit which already belongs to the target system are returned as-is. US customary volumes
+ *   belong to the `"us"` system only, and imperial volumes to the `"imperial"` system only.
+ */
+export function convertQuantityToSystem(
+  quantity: QuantityWithUnit,
+  system: TargetUnitSystem,
+  registry: UnitRegistry = defaultUnitRegistry,
+): QuantityWithUnit {
+  const def = normalizeUnit(quantity.unit, registry);
+  const { value } = quantity;
+  if (
+    !def ||
+    (def.type !== "mass" && def.type !== "volume") ||
+    (value.type === "fixed" && value.value.type === "text")
+  ) {
+    return quantity;
+  }
+
+  const family = system === "metric" ? "metric" : "imperial";
+  // Targets which the registry defines in another system, e.g. a metric cup, are left out
+  const targets = conversionTargets[system][
+    def.type as "mass" | "volume"
+  ].filter((target) => {
+    const targetDef = normalizeUnit(target.name, registry);
+    return targetDef !== undefined && getUnitFamily(targetDef) === family;
+  });
+  // US customary volumes are not part of the imperial system, and imperial volumes are not part of the US one
+  const inSystem =
+    def.system === family &&
+    (family === "metric" ||
+      def.type !== "volume" ||
+      imperialVolumes.includes(def.name) === (system === "imperial"));
+  if (
+    targets.length === 0 ||
+    inSystem ||
+    targets.some((target) => target.name === def.name)
+  ) {
+    return quantity;
+  }
+
+  return convertToBestUnit(value, def, targets, registry)!;
+}
+
+/**
+ * Expresses a quantity in its most readable unit of the same type and system,
+ * e.g. `1500 g` as `1.5 kg`, `48 tsp` as `1 cup` or `0.25 tbsp` as `3/4 tsp`.
+ * Teaspoons and tablespoons are considered as part of the same system as cups, while imperial volumes are
+ * not expressed in US customary units, and vice versa.
+ *
+ * @example
+ * ```typescript
+ * import { humanizeQuantity } from @tmlmt/cooklang-parser;
+ *
+ * humanizeQuantity({ value: { type: "fixed", value: { type: "decimal", value: 1500 } }, unit: "g" });
+ * // { value: { type: "fixed", value: { type: "decimal", value: 1.5 } }, unit: "kg" }
+ * ```
+ *
+ * @param quantity - The quantity to humanize.
+ * @param options - The humanizing options, see {@link HumanizeOptions}
+ * @param registry - The unit registry, see {@link UnitRegistry}. Defaults to the built-in units.
+ * @returns The humanized quantity, with its value rounded to 3 significant digits or to the nearest quarter
+ *   for spoons and cups. Quantities which are already in the most readable unit, or which have a text value
+ *   or an unknown or count unit, are returned as-is.
+ *
+ * @category Functions
+ */
+export function humanizeQuantity(
+  quantity: QuantityWithUnit,
+  options: HumanizeOptions = {},
+  registry: UnitRegistry = defaultUnitRegistry,
+): QuantityWithUnit {
+  const def = normalizeUnit(quantity.unit, registry);
+  const { value } = quantity;
+  if (
+    !def ||
+    def.type === "count" ||
+    (value.type === "fixed" && value.value.type === "text")
+  ) {
+    return quantity;
+  }
 
-  const factor = def.toBase / targetDef.toBase;
+  const isImperialVolume = imperialVolumes.includes(def.name);
+  const defaultUnits = isImperialVolume
+    ? conversionTargets.imperial.volume
+    : defaultPreferredUnits;
+  const candidates = (options.units ?? defaultUnits).filter((candidate) => {
+    const candidateDef = normalizeUnit(candidate.name, registry);
+    return (
+      candidateDef !== undefined &&
+      candidateDef.type === def.type &&
+      getUnitFamily(candidateDef) === getUnitFamily(def) &&
+      (candidateDef.system !== "imperial" ||
+        imperialVolumes.includes(candidateDef.name) === isImperialVolume)
+    );
+  });
+  if (candidates.length === 0) {
+    return quantity;
+  }
+
+  return convertToBestUnit(value, def, candidates, registry) ?? quantity;
+}
 
-  return multiplyQuantityValue(value, factor);
+// Unicode vulgar fractions, by fraction
+export const unicodeFractions: Record<string, string> = {
+  "1/2": "½",
+  "1/3": "⅓",
+  "2/3": "⅔",
+  "1/4": "¼",
+  "3/4": "¾",
+  "1/5": "⅕",
+  "2/5": "⅖",
+  "3/5": "⅗",
+  "4/5": "⅘",
+  "1/6": "⅙",
+  "5/6": "⅚",
+  "1/8": "⅛",
+  "3/8": "⅜",
+  "5/8": "⅝",
+  "7/8": "⅞",
+  "1/7": "⅐",
+  "1/9": "⅑",
+  "1/10": "⅒",
 };
 
+/**
+ * Finds the singular or plural form of a unit among the name and aliases of its definition,
+ * e.g. `cups` for `cup`, by adding or removing a trailing `s` or `es`
+ * @param unit - The unit as written.
+ * @param plural - Whether the plural form is wanted.
+ * @param registry - The unit registry.
+ * @returns The form of the unit, or the unit itself if not found.
+ */
+function pluralizeUnit(
+  unit: string,
+  plural: boolean,
+  registry: UnitRegistry,
+): string {
+  const def = normalizeUnit(unit, registry);
+  if (!def) return unit;
+  const lower = unit.toLowerCase();
+  return (
+    [def.name, ...def.aliases].find((form) => {
+      const [singular, pluralForm] = plural
+        ? [lower, form.toLowerCase()]
+        : [form.toLowerCase(), lower];
+      return pluralForm === `${singular}s` || pluralForm === `${singular}es`;
+    }) ?? unit
+  );
+}
+
+/**
+ * Renders a quantity value and its unit into display text, e.g. `1 1/2 cups`, `½ tsp` or `1–2 kg`.
+ *
+ * @example
+ * ```typescript
+ * import { formatQuantity } from @tmlmt/cooklang-parser;
+ *
+ * formatQuantity({ type: "fixed", value: { type: "fraction", num: 3, den: 2 } }, "cup", { fractions: "unicode" });
+ * // "1 ½ cups"
+ * formatQuantity({ type: "fixed", value: { type: "decimal", value: 1.5 } }, "kg", { locale: "fr" });
+ * // "1,5 kg"
+ * ```
+ *
+ * @param value - The quantity value to render.
+ * @param unit - The unit of the quantity, if any.
+ * @param options - The rendering options, see {@link FormatQuantityOptions}
+ * @returns The display text of the quantity.
+ *
+ * @category Functions
+ */
+export function formatQuantity(
+  value: FixedValue | Range,
+  unit?: string,
+  options: FormatQuantityOptions = {},
+): string {
+  const {
+    fractions = "ascii",
+    mixedNumbers = true,
+    precision = 2,
+    rangeSeparator = "–",
+    pluralize = true,
+  } = options;
+  const locale =
+    typeof options.locale === "string"
+      ? getLocalePack(options.locale)
+      : options.locale;
+  const decimalSeparator = locale?.decimalSeparator ?? ".";
+
+  const toNumber = (v: DecimalValue | FractionValue) =>
+    v.type === "decimal" ? v.value : v.num / v.den;
+  const formatDecimal = (v: number) =>
+    Big(v).round(precision).toString().replace(".", decimalSeparator);
+  const formatFraction = (num: number, den: number) => {
+    const fraction = `${num}/${den}`;
+    return fractions === "unicode"
+      ? (unicodeFractions[fraction] ?? fraction)
+      : fraction;
+  };
+  const formatNumber = (v: DecimalValue | FractionValue): string => {
+    if (v.type === "decimal" || fractions === "decimal") {
+      return formatDecimal(toNumber(v));
+    }
+    const simplified = simplifyFraction(v.num, v.den);
+    if (simplified.type === "decimal") {
+      return formatDecimal(simplified.value);
+    }
+    const { num, den } = simplified;
+    const whole = Math.trunc(num / den);
+    if (!mixedNumbers || whole === 0) {
+      return formatFraction(num, den);
+    }
+    return `${whole} ${formatFraction(Math.abs(num % den), den)}`;
+  };
+
+  let text: string;
+  let amount: number | undefined;
+  if (value.type === "range") {
+    text = `${formatNumber(value.min)}${rangeSeparator}${formatNumber(value.max)}`;
+    amount = toNumber(value.max);
+  } else if (value.value.type === "text") {
+    text = value.value.value;
+  } else {
+    text = formatNumber(value.value);
+    amount = toNumber(value.value);
+  }
+
+  if (!unit) return text;
+  const renderedUnit =
+    pluralize && amount !== undefined
+      ? pluralizeUnit(unit, amount > 1, options.units ?? defaultUnitRegistry)
+      : unit;
+  return `${text} ${renderedUnit}`;
+}
+
 /**
  * Get the default / neutral quantity which can be provided to addQuantity
  * for it to return the other value as result
@@ -363,8 +579,20 @@ export function addQuantityValues(
 
 /**
  * Adds two quantities, returning the result in the most appropriate unit.
+ * @param q1 - The first quantity.
+ * @param q2 - The second quantity.
+ * @param options - The options of the addition:
+ *   - `density`: the density of the ingredient in grams per milliliter, if known. When provided,
+ *     a mass and a volume can be added, the volume being converted into a mass.
+ *   - `units`: the unit registry. Defaults to the built-in units.
+ * @returns The sum of the quantities.
  */
-export function addQuantities(q1: Quantity, q2: Quantity): Quantity {
+export function addQuantities(
+  q1: QuantityWithUnit,
+  q2: QuantityWithUnit,
+  options: { density?: number; units?: UnitRegistry } = {},
+): QuantityWithUnit {
+  const { density, units = defaultUnitRegistry } = options;
   const v1 = q1.value;
   const v2 = q2.value;
 
@@ -376,14 +604,14 @@ export function addQuantities(q1: Quantity, q2: Quantity): Quantity {
     throw new CannotAddTextValueError();
   }
 
-  const unit1Def = normalizeUnit(q1.unit);
-  const unit2Def = normalizeUnit(q2.unit);
+  const unit1Def = normalizeUnit(q1.unit, units);
+  const unit2Def = normalizeUnit(q2.unit, units);
 
   const addQuantityValuesAndSetUnit = (
     val1: FixedValue | Range,
     val2: FixedValue | Range,
     unit: string | undefined,
-  ): Quantity => ({ value: addQuantityValues(val1, val2), unit });
+  ): QuantityWithUnit => ({ value: addQuantityValues(val1, val2), unit });
 
   // Case 2: one of the two values doesn't have a unit, we preserve its value and consider its unit to be that of the other one
   // If at least one of the two units is "", this preserves it versus setting the resulting unit as undefined
@@ -407,6 +635,31 @@ export function addQuantities(q1: Quantity, q2: Quantity): Quantity {
     // Case 4.1: different unit type => we can't add quantities
 
     if (unit1Def.type !== unit2Def.type) {
+      // Case 4.1.1: a mass and a volume of an ingredient with a known density => we convert the volume into a mass
+      if (
+        density !== undefined &&
+        [unit1Def.type, unit2Def.type].every(
+          (type) => type === "mass" || type === "volume",
+        )
+      ) {
+        const toMass = (
+          q: QuantityWithUnit,
+          def: UnitDefinition,
+        ): QuantityWithUnit =>
+          def.type === "mass"
+            ? q
+            : {
+                value: multiplyQuantityValue(q.value, def.toBase * density, {
+                  decimals: 2,
+                }),
+                unit: "g",
+              };
+        return addQuantities(
+          toMass(q1, unit1Def),
+          toMass(q2, unit2Def),
+          options,
+        );
+      }
       throw new IncompatibleUnitsError(
         `${unit1Def.type} (${q1.unit})`,
         `${unit2Def.type} (${q2.unit})`,
@@ -415,29 +668,95 @@ export function addQuantities(q1: Quantity, q2: Quantity): Quantity {
 
     let targetUnitDef: UnitDefinition;
 
+    const metricUnitDefs = units.units.filter(
+      (u) => u.type === unit1Def.type && u.system === "metric",
+    );
     // Case 4.2: same unit type but different system => we convert to metric
-    if (unit1Def.system !== unit2Def.system) {
-      const metricUnitDef = unit1Def.system === "metric" ? unit1Def : unit2Def;
-      targetUnitDef = units
-        .filter((u) => u.type === metricUnitDef.type && u.system === "metric")
-        .reduce((prev, current) =>
-          prev.toBase > current.toBase ? prev : current,
-        );
+    if (unit1Def.system !== unit2Def.system && metricUnitDefs.length > 0) {
+      targetUnitDef = metricUnitDefs.reduce((prev, current) =>
+        prev.toBase > current.toBase ? prev : current,
+      );
     }
-    // Case 4.3: same unit type, same system but different unit => we use the biggest unit of the two
+    // Case 4.3: same unit type, same system (or no metric unit) but different unit => we use the biggest unit of the two
     else {
       targetUnitDef = unit1Def.toBase >= unit2Def.toBase ? unit1Def : unit2Def;
     }
-    const convertedV1 = convertQuantityValue(v1, unit1Def, targetUnitDef);
-    const convertedV2 = convertQuantityValue(v2, unit2Def, targetUnitDef);
-
-    return addQuantityValuesAndSetUnit(
-      convertedV1,
-      convertedV2,
-      targetUnitDef.name,
-    );
+    // Values are converted exactly, and only their sum is rounded
+    const sum = Quantity.from(v1, q1.unit)
+      .convert(targetUnitDef.name, units)
+      .add(Quantity.from(v2, q2.unit).convert(targetUnitDef.name, units))
+      .round({ decimals: 2 });
+    return { value: sum.toValue(), unit: targetUnitDef.name };
   }
 
   // Case 5: the two quantities have different units of unknown type
   throw new IncompatibleUnitsError(q1.unit!, q2.unit!);
 }
+
+/**
+ * Subtracts a quantity from another one, e.g. what is available from what is needed.
+ * The result is expressed in the unit of the first quantity, or without unit if it has none, and never goes below zero.
+ * Ranges are subtracted so that the result covers all the possible differences, e.g. `2-4` minus `1-2` gives `0-3`.
+ * @param q1 - The quantity to subtract from.
+ * @param q2 - The quantity to subtract.
+ * @param options - The density of the ingredient, used to subtract a mass from a volume and vice versa,
+ *   and the unit registry. Defaults to the built-in units.
+ * @returns The difference of the quantities, clamped at zero.
+ * @throws {@link CannotAddTextValueError} if one of the quantities has a text value
+ * @throws {@link IncompatibleUnitsError} if the units cannot be converted into each other
+ */
+export function subtractQuantities(
+  q1: QuantityWithUnit,
+  q2: QuantityWithUnit,
+  options: { density?: number; units?: UnitRegistry } = {},
+): QuantityWithUnit {
+  const { density, units = defaultUnitRegistry } = options;
+  const minuend = Quantity.from(q1.value, q1.unit || undefined);
+  let subtrahend = Quantity.from(q2.value, q2.unit || undefined);
+
+  // A mass and a volume of an ingredient with a known density => we convert the second quantity into the type of the first one
+  const unit1Def = normalizeUnit(q1.unit, units);
+  const unit2Def = normalizeUnit(q2.unit, units);
+  if (
+    density !== undefined &&
+    unit1Def &&
+    unit2Def &&
+    unit1Def.type !== unit2Def.type &&
+    [unit1Def.type, unit2Def.type].every(
+      (type) => type === "mass" || type === "volume",
+    )
+  ) {
+    subtrahend =
+      unit2Def.type === "mass"
+        ? subtrahend.multiply(unit2Def.toBase / density)
+        : subtrahend.multiply(unit2Def.toBase * density);
+    subtrahend = Quantity.from(
+      subtrahend.toValue(),
+      unit2Def.type === "mass" ? "ml" : "g",
+    );
+  }
+
+  // Fractions are only kept when no conversion is needed, as converted values are decimals
+  const keepFractions =
+    !q1.unit || !q2.unit || q1.unit.toLowerCase() === q2.unit.toLowerCase();
+  const zero = Quantity.from(0, minuend.unit);
+  const clamp = (q: Quantity) => {
+    const clamped = q.compare(zero) < 0 ? zero : q;
+    return clamped.round({ decimals: 2, keepFractions });
+  };
+  const min = clamp(minuend.min.subtract(subtrahend.max, units));
+  const max = clamp(minuend.max.subtract(subtrahend.min, units));
+  const { unit } = q1;
+
+  if (min.equals(max)) {
+    return { value: min.toValue(), unit };
+  }
+  return {
+    value: {
+      type: "range",
+      min: (min.toValue() as FixedValue).value as DecimalValue | FractionValue,
+      max: (max.toValue() as FixedValue).value as DecimalValue | FractionValue,
+    },
+    unit,
+  };
+}
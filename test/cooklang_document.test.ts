@@ -0,0 +1,234 @@
+import { describe, it, expect } from "vitest";
+import { CooklangDocument } from "../src/classes/cooklang_document";
+import { complexRecipe, recipeToScale } from "./fixtures/recipes";
+
+const content = `---
+title: Pancakes
+---
+-- Grandma's recipe
+Mix @flour{1,5%kg} with @eggs{3} [- block -] in a #large bowl{}.
+Add @./sub/sauce{} and @milk|fresh milk{200%ml}. Wait ~{10%min}.\r
+@&eggs(beaten) #pan`;
+
+describe("parse", () => {
+  it("should preserve every byte of the content", () => {
+    for (const recipe of [content, complexRecipe, recipeToScale]) {
+      expect(new CooklangDocument(recipe).toString()).toBe(recipe);
+    }
+  });
+
+  it("should create an empty document without content", () => {
+    const doc = new CooklangDocument();
+    expect(doc.nodes).toEqual([]);
+    expect(doc.toString()).toBe("");
+  });
+
+  it("should split the content into nodes", () => {
+    const doc = new CooklangDocument(content);
+    expect(doc.nodes.map((node) => [node.type, node.raw])).toEqual([
+      ["frontMatter", "---\ntitle: Pancakes\n---"],
+      ["newline", "\n"],
+      ["comment", "-- Grandma's recipe"],
+      ["newline", "\n"],
+      ["text", "Mix "],
+      ["ingredient", "@flour{1,5%kg}"],
+      ["text", " with "],
+      ["ingredient", "@eggs{3}"],
+      ["text", " "],
+      ["blockComment", "[- block -] "],
+      ["text", "in a "],
+      ["cookware", "#large bowl{}"],
+      ["text", "."],
+      ["newline", "\n"],
+      ["text", "Add "],
+      ["ingredient", "@./sub/sauce{}"],
+      ["text", " and "],
+      ["ingredient", "@milk|fresh milk{200%ml}"],
+      ["text", ". Wait "],
+      ["timer", "~{10%min}"],
+      ["text", "."],
+      ["newline", "\r\n"],
+      ["ingredient", "@&eggs(beaten)"],
+      ["text", " "],
+      ["cookware", "#pan"],
+    ]);
+  });
+
+  it("should keep the fields of tokens as written", () => {
+    const doc = new CooklangDocument(content);
+    expect(doc.findIngredients("flour")[0]).toEqual({
+      type: "ingredient",
+      raw: "@flour{1,5%kg}",
+      span: {
+        start: { line: 5, column: 5, offset: 48 },
+        end: { line: 5, column: 19, offset: 62 },
+      },
+      modifiers: "",
+      name: "flour",
+      fixed: false,
+      quantity: "1,5",
+      unit: "kg",
+      preparation: undefined,
+      braces: true,
+    });
+    expect(doc.findIngredients("eggs")[1]).toMatchObject({
+      modifiers: "&",
+      preparation: "beaten",
+      braces: false,
+    });
+    expect(doc.findCookware("large bowl")[0]).toMatchObject({
+      quantity: undefined,
+      braces: true,
+    });
+    expect(doc.findTimers("")[0]).toMatchObject({
+      name: "",
+      quantity: "10",
+      unit: "min",
+    });
+  });
+
+  it("should split comments the same way as the recipe parser", () => {
+    const doc = new CooklangDocument("Mix [- slowly -- really -] @eggs");
+    expect(doc.nodes.map((node) => [node.type, node.raw])).toEqual([
+      ["text", "Mix [- slowly "],
+      ["comment", "-- really -] @eggs"],
+    ]);
+  });
+
+  it("should parse long documents", () => {
+    const content = "Mix @flour{100%g} -- comment\n".repeat(10000);
+    const doc = new CooklangDocument(content);
+    expect(doc.toString()).toBe(content);
+    expect(doc.nodes.filter((node) => node.type === "comment")).toHaveLength(
+      10000,
+    );
+  });
+});
+
+describe("find", () => {
+  it("should find ingredients by list name, ignoring case, aliases and paths", () => {
+    const doc = new CooklangDocument(content);
+    expect(doc.findIngredients("EGGS")).toHaveLength(2);
+    expect(doc.findIngredients("milk")).toHaveLength(1);
+    expect(doc.findIngredients("sauce")).toHaveLength(1);
+    expect(doc.findIngredients("butter")).toHaveLength(0);
+  });
+
+  it("should find cookware and timers ignoring case", () => {
+    const doc = new CooklangDocument(content);
+    expect(doc.findCookware("Pan")).toHaveLength(1);
+    expect(doc.findTimers("rest")).toHaveLength(0);
+  });
+});
+
+describe("updates", () => {
+  it("should only rewrite the edited ingredient", () => {
+    const doc = new CooklangDocument(content);
+    doc.updateIngredient(doc.findIngredients("flour")[0]!, { quantity: "2" });
+    expect(doc.toString()).toBe(
+      content.replace("@flour{1,5%kg}", "@flour{2%kg}"),
+    );
+  });
+
+  it("should add braces when needed", () => {
+    const doc = new CooklangDocument("Add @salt and @pepper.");
+    const [salt] = doc.findIngredients("salt");
+    const [pepper] = doc.findIngredients("pepper");
+    doc.updateIngredient(salt!, { fixed: true, quantity: "1", unit: "pinch" });
+    doc.updateIngredient(pepper!, {
+      name: "black pepper",
+      preparation: "ground",
+    });
+    expect(doc.toString()).toBe(
+      "Add @salt{=1%pinch} and @black pepper{}(ground).",
+    );
+  });
+
+  it("should remove fields set to undefined", () => {
+    const doc = new CooklangDocument("Add @flour{1%kg}(sifted)");
+    doc.updateIngredient(doc.findIngredients("flour")[0]!, {
+      quantity: undefined,
+      unit: undefined,
+      preparation: undefined,
+    });
+    expect(doc.toString()).toBe("Add @flour{}");
+  });
+
+  it("should update cookware", () => {
+    const doc = new CooklangDocument("Use a #pan and a #pot{}.");
+    doc.updateCookware(doc.findCookware("pan")[0]!, { quantity: "2" });
+    doc.updateCookware(doc.findCookware("pot")[0]!, { modifiers: "?" });
+    expect(doc.toString()).toBe("Use a #pan{2} and a #?pot{}.");
+  });
+
+  it("should only add braces to renamed items if their name contains spaces", () => {
+    const doc = new CooklangDocument("Put @salt in a #pan and a #pot.");
+    doc.renameIngredient("salt", "pepper");
+    doc.updateCookware(doc.findCookware("pan")[0]!, { name: "frying pan" });
+    doc.updateCookware(doc.findCookware("pot")[0]!, { name: "wok" });
+    expect(doc.toString()).toBe("Put @pepper in a #frying pan{} and a #wok.");
+  });
+
+  it("should update timers", () => {
+    const doc = new CooklangDocument("Bake ~oven{20%min} then ~rest{5%min}");
+    doc.updateTimer(doc.findTimers("oven")[0]!, { quantity: "25" });
+    doc.updateTimer(doc.findTimers("rest")[0]!, { unit: undefined });
+    expect(doc.toString()).toBe("Bake ~oven{25%min} then ~rest{5}");
+  });
+
+  it("should keep the scalable marker of cookware", () => {
+    const doc = new CooklangDocument("Use #trays{*2} and #pan");
+    const [trays] = doc.findCookware("trays");
+    expect(trays).toMatchObject({ scalable: true, quantity: "2" });
+    doc.updateCookware(trays!, { quantity: "3" });
+    doc.updateCookware(doc.findCookware("pan")[0]!, { scalable: true });
+    expect(doc.toString()).toBe("Use #trays{*3} and #pan{*}");
+  });
+
+  it("should keep the scalable marker of timers", () => {
+    const doc = new CooklangDocument("Bake ~oven{*20%min} then ~rest{5%min}");
+    const [oven] = doc.findTimers("oven");
+    expect(oven).toMatchObject({ scalable: true, quantity: "20" });
+    doc.updateTimer(oven!, { quantity: "25" });
+    doc.updateTimer(doc.findTimers("rest")[0]!, { scalable: true });
+    expect(doc.toString()).toBe("Bake ~oven{*25%min} then ~rest{*5%min}");
+  });
+
+  it("should rename all occurrences of an ingredient", () => {
+    const doc = new CooklangDocument(content);
+    expect(doc.renameIngredient("eggs", "duck eggs")).toHaveLength(2);
+    doc.renameIngredient("milk", "oat milk");
+    doc.renameIngredient("sauce", "gravy");
+    expect(doc.toString()).toBe(
+      content
+        .replace("@eggs{3}", "@duck eggs{3}")
+        .replace("@&eggs(beaten)", "@&duck eggs{}(beaten)")
+        .replace("@milk|fresh milk", "@oat milk|fresh milk")
+        .replace("@./sub/sauce", "@./sub/gravy"),
+    );
+  });
+
+  it("should throw when editing a node from another document", () => {
+    const doc = new CooklangDocument("Add @salt");
+    const other = new CooklangDocument("Add @salt");
+    expect(() =>
+      doc.updateIngredient(other.findIngredients("salt")[0]!, {
+        quantity: "1",
+      }),
+    ).toThrowError("The node does not belong to this document");
+  });
+});
+
+describe("toRecipe", () => {
+  it("should parse the edited document", () => {
+    const doc = new CooklangDocument(content);
+    doc.updateIngredient(doc.findIngredients("flour")[0]!, { quantity: "2" });
+    const recipe = doc.toRecipe();
+    expect(recipe.metadata.title).toBe("Pancakes");
+    expect(recipe.ingredients[0]).toMatchObject({
+      name: "flour",
+      quantity: { type: "fixed", value: { type: "decimal", value: 2 } },
+      unit: "kg",
+    });
+  });
+});
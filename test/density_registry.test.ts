@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { DensityRegistry } from "../src/classes/density_registry";
+import { UnitRegistry } from "../src/classes/unit_registry";
+
+describe("DensityRegistry", () => {
+  it("should include the built-in densities by default", () => {
+    const registry = new DensityRegistry();
+    expect(registry.get("water")).toBe(1);
+    expect(registry.get("All-Purpose Flour ")).toBe(0.53);
+    expect(registry.get("unicorn tears")).toBeUndefined();
+    expect(new DensityRegistry(false).get("water")).toBeUndefined();
+  });
+
+  it("should set and delete densities", () => {
+    const registry = new DensityRegistry();
+    registry.set(["almond flour", "Almond Meal"], 0.4);
+    registry.set("flour", 0.6);
+    expect(registry.get("almond meal")).toBe(0.4);
+    expect(registry.get("flour")).toBe(0.6);
+    registry.delete("Flour");
+    expect(registry.get("flour")).toBeUndefined();
+  });
+
+  it("should reject invalid densities", () => {
+    const registry = new DensityRegistry();
+    expect(() => registry.set("water", 0)).toThrowError("Invalid density: 0");
+    expect(() => registry.set("water", NaN)).toThrowError(
+      "Invalid density: NaN",
+    );
+  });
+
+  it("should convert quantities between mass and volume", () => {
+    const registry = new DensityRegistry();
+    expect(
+      registry.convert(
+        "flour",
+        {
+          value: { type: "fixed", value: { type: "decimal", value: 1 } },
+          unit: "cup",
+        },
+        "mass",
+      ),
+    ).toEqual({
+      value: { type: "fixed", value: { type: "decimal", value: 125.39 } },
+      unit: "g",
+    });
+    expect(
+      registry.convert(
+        "water",
+        {
+          value: {
+            type: "range",
+            min: { type: "decimal", value: 1 },
+            max: { type: "decimal", value: 2 },
+          },
+          unit: "kg",
+        },
+        "volume",
+      ),
+    ).toEqual({
+      value: {
+        type: "range",
+        min: { type: "decimal", value: 1000 },
+        max: { type: "decimal", value: 2000 },
+      },
+      unit: "ml",
+    });
+  });
+
+  it("should convert quantities with the units of a unit registry", () => {
+    const registry = new DensityRegistry();
+    const units = new UnitRegistry();
+    units.add({
+      name: "cup",
+      type: "volume",
+      system: "metric",
+      aliases: ["cups"],
+      toBase: 250,
+    });
+    expect(
+      registry.convert(
+        "water",
+        {
+          value: { type: "fixed", value: { type: "decimal", value: 1 } },
+          unit: "cup",
+        },
+        "mass",
+        units,
+      ),
+    ).toEqual({
+      value: { type: "fixed", value: { type: "decimal", value: 250 } },
+      unit: "g",
+    });
+  });
+
+  it("should not convert quantities which cannot be converted", () => {
+    const registry = new DensityRegistry();
+    const grams = {
+      value: { type: "fixed", value: { type: "decimal", value: 100 } },
+      unit: "g",
+    } as const;
+    expect(registry.convert("flour", grams, "mass")).toBe(grams);
+    expect(registry.convert("unicorn tears", grams, "volume")).toBeUndefined();
+    expect(
+      registry.convert("flour", { ...grams, unit: "pinch" }, "volume"),
+    ).toBeUndefined();
+    expect(
+      registry.convert("flour", { ...grams, unit: "pieces" }, "volume"),
+    ).toBeUndefined();
+    expect(
+      registry.convert(
+        "flour",
+        { value: { type: "fixed", value: { type: "text", value: "some" } } },
+        "volume",
+      ),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalizeTimeUnit,
+  parseDuration,
+  toIsoDuration,
+  extractRecipeTimes,
+  getTimerDuration,
+  addDurationRanges,
+} from "../src/durations";
+import { Recipe } from "../src/classes/recipe";
+
+describe("normalizeTimeUnit", () => {
+  it("should find time units by name or alias, ignoring case", () => {
+    expect(normalizeTimeUnit("Minutes")).toEqual({
+      name: "min",
+      aliases: ["m", "mn", "mins", "minute", "minutes"],
+      toSeconds: 60,
+    });
+    expect(normalizeTimeUnit(" h ")?.name).toBe("h");
+    expect(normalizeTimeUnit("cup")).toBeUndefined();
+    expect(normalizeTimeUnit()).toBeUndefined();
+  });
+});
+
+describe("toIsoDuration", () => {
+  it("should convert minutes into ISO 8601 durations", () => {
+    expect(toIsoDuration(0)).toBe("PT0M");
+    expect(toIsoDuration(90)).toBe("PT1H30M");
+    expect(toIsoDuration(120)).toBe("PT2H");
+    expect(toIsoDuration(1.5)).toBe("PT1M30S");
+    expect(toIsoDuration(1500)).toBe("PT25H");
+  });
+});
+
+describe("parseDuration", () => {
+  it.each([
+    ["1h 30min", 90],
+    ["90 minutes", 90],
+    ["1 hour 20 mins", 80],
+    ["1 hour and 20 mins", 80],
+    ["1 hr, 20 min.", 80],
+    ["1:30", 90],
+    ["1:30:30", 90.5],
+    ["1h30", 90],
+    ["1h50m", 110],
+    ["1,5 hours", 90],
+    ["45", 45],
+    ["30 seconds", 0.5],
+    ["2 days", 2880],
+    ["PT1H30M", 90],
+    ["P1DT2H", 1560],
+    ["pt45s", 0.75],
+  ])("should parse %s", (raw, minutes) => {
+    expect(parseDuration(raw)?.minutes).toBe(minutes);
+  });
+
+  it("should keep the raw string and give the ISO 8601 duration", () => {
+    expect(parseDuration(" 1h 30min ")).toEqual({
+      raw: " 1h 30min ",
+      minutes: 90,
+      iso: "PT1H30M",
+    });
+  });
+
+  it.each([
+    "",
+    "a while",
+    "PT",
+    "1 cup",
+    "about 1h",
+    "1h or so",
+    "30 1h",
+    "1 min 30",
+    "1:75",
+  ])("should not parse %j", (raw) => {
+    expect(parseDuration(raw)).toBeUndefined();
+  });
+});
+
+describe("extractRecipeTimes", () => {
+  it("should parse the time metadata and their aliases", () => {
+    expect(
+      extractRecipeTimes({
+        "time.prep": "10 min",
+        "cook time": "1h",
+        duration: "1h15",
+      }),
+    ).toEqual({
+      prep: { raw: "10 min", minutes: 10, iso: "PT10M" },
+      cook: { raw: "1h", minutes: 60, iso: "PT1H" },
+      total: { raw: "1h15", minutes: 75, iso: "PT1H15M" },
+    });
+  });
+
+  it("should sum the preparation and cooking times if no total time is given", () => {
+    expect(
+      extractRecipeTimes({ "prep time": "10 min", "time.cook": "20 min" }),
+    ).toEqual({
+      prep: { raw: "10 min", minutes: 10, iso: "PT10M" },
+      cook: { raw: "20 min", minutes: 20, iso: "PT20M" },
+      total: { raw: "10 min + 20 min", minutes: 30, iso: "PT30M" },
+    });
+    expect(extractRecipeTimes({ "cook time": "20 min" }).total).toEqual({
+      raw: "20 min",
+      minutes: 20,
+      iso: "PT20M",
+    });
+  });
+
+  it("should omit times which cannot be parsed", () => {
+    expect(
+      extractRecipeTimes({ "prep time": "a while", time: "overnight" }),
+    ).toEqual({});
+  });
+});
+
+describe("getTimerDuration", () => {
+  it("should convert fixed durations into seconds", () => {
+    expect(
+      getTimerDuration({
+        duration: { type: "fixed", value: { type: "decimal", value: 1.5 } },
+        unit: "hours",
+      }),
+    ).toEqual({ min: 5400, max: 5400 });
+    expect(
+      getTimerDuration({
+        duration: {
+          type: "fixed",
+          value: { type: "fraction", num: 1, den: 2 },
+        },
+        unit: "min",
+      }),
+    ).toEqual({ min: 30, max: 30 });
+  });
+
+  it("should convert ranges into minimum and maximum durations", () => {
+    expect(
+      getTimerDuration({
+        duration: {
+          type: "range",
+          min: { type: "decimal", value: 10 },
+          max: { type: "decimal", value: 15 },
+        },
+        unit: "s",
+      }),
+    ).toEqual({ min: 10, max: 15 });
+  });
+
+  it("should return undefined for non-time units and text durations", () => {
+    expect(
+      getTimerDuration({
+        duration: { type: "fixed", value: { type: "decimal", value: 1 } },
+        unit: "cup",
+      }),
+    ).toBeUndefined();
+    expect(
+      getTimerDuration({
+        duration: { type: "fixed", value: { type: "text", value: "a few" } },
+        unit: "minutes",
+      }),
+    ).toBeUndefined();
+  });
+});
+
+describe("addDurationRanges", () => {
+  it("should add minimum and maximum durations", () => {
+    expect(addDurationRanges({ min: 10, max: 20 }, { min: 5, max: 5 })).toEqual(
+      { min: 15, max: 25 },
+    );
+  });
+});
+
+describe("Recipe.getTimersDuration", () => {
+  it("should sum timers per section and overall", () => {
+    const recipe = new Recipe(`Boil for ~{10-15%minutes}.
+
+> Let it ~{5%min} rest
+
+== Bake ==
+Bake for ~{1%h} then ~{a few%minutes}.
+
+Rest for ~{2%cups}.`);
+    expect(recipe.getTimersDuration()).toEqual({
+      total: { min: 4200, max: 4500 },
+      sections: [
+        { name: "", duration: { min: 600, max: 900 } },
+        { name: "Bake", duration: { min: 3600, max: 3600 } },
+      ],
+      skipped: 2,
+    });
+  });
+});
+
+describe("Recipe.times", () => {
+  it("should be parsed from the metadata and kept when cloning", () => {
+    const recipe = new Recipe("---\nprep time: 1 hour 20 mins\n---\nMix");
+    expect(recipe.times.prep?.iso).toBe("PT1H20M");
+    expect(recipe.clone().times).toEqual(recipe.times);
+  });
+});
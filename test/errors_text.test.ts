@@ -1,5 +1,8 @@
 import { describe, it, expect } from "vitest";
-import { ReferencedItemCannotBeRedefinedError } from "../src/errors";
+import {
+  ReferencedItemCannotBeRedefinedError,
+  ReferencedItemNotFoundError,
+} from "../src/errors";
 
 describe("errors", () => {
   describe("ReferencedItemCannotBeRedefinedError", () => {
@@ -14,4 +17,13 @@ describe("errors", () => {
       );
     });
   });
+
+  describe("ReferencedItemNotFoundError", () => {
+    it("should contains expected text", () => {
+      const error = new ReferencedItemNotFoundError("cookware", "pan");
+      expect(error.message).toBe(
+        `Referenced cookware "pan" not found. A referenced cookware must be declared before being referenced with '&'.`,
+      );
+    });
+  });
 });
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { format } from "../src/formatter";
+import { Recipe } from "../src/classes/recipe";
+import { simpleRecipe, complexRecipe, recipeToScale } from "./fixtures/recipes";
+
+describe("format", () => {
+  it("should remove spaces around quantities and units", () => {
+    expect(
+      format("Add @sugar{ 0.5 % cup }( sifted ), #pot{ 2 } and ~{ 5 % min }."),
+    ).toBe("Add @sugar{0.5%cup}(sifted), #pot{2} and ~{5%min}.\n");
+  });
+
+  it("should remove redundant braces", () => {
+    expect(format("Add @salt{} and @eggs{}(beaten) in a #pan{}.")).toBe(
+      "Add @salt and @eggs(beaten) in a #pan.\n",
+    );
+    expect(format("Use #pan{}\n@salt{}")).toBe("Use #pan\n@salt\n");
+  });
+
+  it("should keep braces which are needed", () => {
+    const content = [
+      "Add @coarse salt{} and @salt{}y bits and @pepper{=}.",
+      "Add @butter{}{note} and #large pot{}.",
+      "Add @sugar{}-- sweet",
+      "Use #tray{*} and #pan{*2}",
+      "Add @salt{}[- c -] ok and #pan{}[- hot -]",
+    ].join("\n");
+    expect(format(content)).toBe(content + "\n");
+    expect(new Recipe(format("@salt{}[- c -] ok")).ingredients[0]!.name).toBe(
+      "salt",
+    );
+  });
+
+  it("should format section headers", () => {
+    expect(
+      format("=Dough\nMix @flour\n\n== Sauce   ==\nStir\n\n==   -- end"),
+    ).toBe("== Dough ==\nMix @flour\n\n== Sauce ==\nStir\n\n== -- end\n");
+    expect(format("= Dough =", { sectionMarker: "=" })).toBe("= Dough =\n");
+    expect(format("==Dough [- first -]")).toBe("== Dough == [- first -]\n");
+    expect(format("== @salt ==")).toBe("== @salt ==\n");
+  });
+
+  it("should remove trailing whitespaces and blank lines", () => {
+    expect(format("\n\nMix @flour   \n\nBake -- hot  \n\n\n")).toBe(
+      "Mix @flour\n\nBake -- hot\n",
+    );
+  });
+
+  it("should sort the front matter and normalize lists", () => {
+    const content = `---
+servings:4
+# Used by the website
+tags: [dinner,  easy]
+custom: value
+images:
+-   one.png
+    - two.png
+title: Pancakes
+description: A long
+  description
+---
+Mix @flour`;
+    expect(format(content)).toBe(`---
+title: Pancakes
+# Used by the website
+tags:
+  - dinner
+  - easy
+servings: 4
+description: A long
+  description
+images:
+  - one.png
+  - two.png
+custom: value
+---
+Mix @flour
+`);
+  });
+
+  it("should follow the metadata options", () => {
+    const content = "---\ntags:\n  - a\n  - b\ntitle: Pancakes\nempty:\n---\n";
+    expect(
+      format(content, {
+        metadataOrder: ["empty", "tags"],
+        listStyle: "inline",
+      }),
+    ).toBe("---\nempty:\ntags: [a, b]\ntitle: Pancakes\n---\n");
+  });
+
+  it("should keep lists whose items could be split differently", () => {
+    const inline = `---\ntags: ["salt, pepper", spicy]\n---\n`;
+    expect(format(inline)).toBe(inline);
+    expect(new Recipe(format(inline)).metadata.tags).toEqual([
+      "salt, pepper",
+      "spicy",
+    ]);
+    const block = `---\ntags:\n  - salt, pepper\n  - spicy\n---\n`;
+    expect(format(block, { listStyle: "inline" })).toBe(block);
+    expect(format(block)).toBe(block);
+  });
+
+  it("should keep trailing lines of the front matter", () => {
+    expect(format("---\ntitle: Pancakes\n# end\n---\n")).toBe(
+      "---\ntitle: Pancakes\n# end\n---\n",
+    );
+  });
+
+  it("should format long recipes", () => {
+    const content = "Mix @flour{100%g}  \n".repeat(20000);
+    expect(format(content)).toBe("Mix @flour{100%g}\n".repeat(20000));
+  });
+
+  it("should be idempotent and keep the meaning of recipes", () => {
+    for (const content of [simpleRecipe, complexRecipe, recipeToScale]) {
+      const formatted = format(content);
+      expect(format(formatted)).toBe(formatted);
+      const recipe = new Recipe(content);
+      const formattedRecipe = new Recipe(formatted);
+      expect(formattedRecipe.metadata).toEqual(recipe.metadata);
+      expect(formattedRecipe.ingredients).toEqual(recipe.ingredients);
+      expect(formattedRecipe.cookware).toEqual(recipe.cookware);
+      expect(formattedRecipe.timers).toEqual(recipe.timers);
+    }
+  });
+});
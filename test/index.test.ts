@@ -1,5 +1,26 @@
 import { describe, it, expect } from "vitest";
-import { Recipe, ShoppingList, CategoryConfig } from "../src/index";
+import {
+  Recipe,
+  ShoppingList,
+  CategoryConfig,
+  CooklangDocument,
+  DensityRegistry,
+  UnitRegistry,
+  Quantity,
+  Pantry,
+  RecipeResolver,
+  RecipeCollection,
+  InMemoryRecipeLoader,
+  FileSystemRecipeLoader,
+  getLocalePack,
+  getSubRecipeFactor,
+  scaleSubRecipes,
+  flattenRecipe,
+  formatQuantity,
+  format,
+  lint,
+  humanizeQuantity,
+} from "../src/index";
 
 describe("index", () => {
   it("should export Recipe", () => {
@@ -13,4 +34,72 @@ describe("index", () => {
   it("should export CategoryConfig", () => {
     expect(CategoryConfig).toBeDefined();
   });
+
+  it("should export CooklangDocument", () => {
+    expect(CooklangDocument).toBeDefined();
+  });
+
+  it("should export DensityRegistry", () => {
+    expect(DensityRegistry).toBeDefined();
+  });
+
+  it("should export UnitRegistry", () => {
+    expect(UnitRegistry).toBeDefined();
+  });
+
+  it("should export Quantity", () => {
+    expect(Quantity).toBeDefined();
+  });
+
+  it("should export Pantry", () => {
+    expect(Pantry).toBeDefined();
+  });
+
+  it("should export RecipeResolver", () => {
+    expect(RecipeResolver).toBeDefined();
+  });
+
+  it("should export RecipeCollection", () => {
+    expect(RecipeCollection).toBeDefined();
+  });
+
+  it("should export InMemoryRecipeLoader", () => {
+    expect(InMemoryRecipeLoader).toBeDefined();
+  });
+
+  it("should export FileSystemRecipeLoader", () => {
+    expect(FileSystemRecipeLoader).toBeDefined();
+  });
+
+  it("should export getLocalePack", () => {
+    expect(getLocalePack).toBeDefined();
+  });
+
+  it("should export getSubRecipeFactor", () => {
+    expect(getSubRecipeFactor).toBeDefined();
+  });
+
+  it("should export scaleSubRecipes", () => {
+    expect(scaleSubRecipes).toBeDefined();
+  });
+
+  it("should export flattenRecipe", () => {
+    expect(flattenRecipe).toBeDefined();
+  });
+
+  it("should export formatQuantity", () => {
+    expect(formatQuantity).toBeDefined();
+  });
+
+  it("should export format", () => {
+    expect(format).toBeDefined();
+  });
+
+  it("should export lint", () => {
+    expect(lint).toBeDefined();
+  });
+
+  it("should export humanizeQuantity", () => {
+    expect(humanizeQuantity).toBeDefined();
+  });
 });
@@ -0,0 +1,209 @@
+import { describe, it, expect } from "vitest";
+import { lint } from "../src/linter";
+import { Recipe } from "../src/classes/recipe";
+import { UnitRegistry } from "../src/classes/unit_registry";
+
+const frontMatter = "---\ntitle: Pancakes\nservings: 4\n---\n";
+const codes = (diagnostics: ReturnType<typeof lint>) =>
+  diagnostics.map((d) => d.code);
+
+describe("lint", () => {
+  it("should not report anything for a clean recipe", () => {
+    expect(
+      lint(
+        frontMatter +
+          "Mix @flour{200%g} in a #bowl for ~{2%minutes}.\n\n> Enjoy!",
+      ),
+    ).toEqual([]);
+  });
+
+  it("should report missing metadata", () => {
+    expect(lint("Mix @flour{200%g}")).toEqual([
+      {
+        severity: "warning",
+        code: "missing-title",
+        message: "The recipe has no title",
+        suggestion: "Add a `title` entry to the front matter",
+      },
+      {
+        severity: "warning",
+        code: "missing-servings",
+        message: "The recipe has no servings",
+        suggestion: "Add a `servings` entry to the front matter",
+      },
+    ]);
+  });
+
+  it("should report servings which cannot be used for scaling", () => {
+    const diagnostics = lint(
+      "---\ntitle: Pancakes\nyield: 0\n---\nMix @flour{200%g}",
+    );
+    expect(diagnostics).toEqual([
+      {
+        severity: "error",
+        code: "invalid-servings",
+        message: "The yield of the recipe cannot be used for scaling",
+        span: {
+          start: { line: 3, column: 1, offset: 20 },
+          end: { line: 3, column: 9, offset: 28 },
+        },
+        suggestion:
+          "Start the yield value with a positive number, e.g. `yield: 4, 4 slices`",
+      },
+    ]);
+  });
+
+  it("should report parsing errors along with invalid servings", () => {
+    expect(
+      codes(
+        lint("---\ntitle: Pancakes\nservings: a few\n---\nMix @flour{200%g}"),
+      ),
+    ).toEqual(["invalid-scaling-value", "invalid-servings"]);
+  });
+
+  it("should report ingredients without quantity or with unknown units", () => {
+    const diagnostics = lint(
+      frontMatter + "Mix @flour{200%g}, @salt and @garlic{2%cloves}.",
+    );
+    expect(codes(diagnostics)).toEqual([
+      "ingredient-missing-quantity",
+      "unknown-unit",
+    ]);
+    expect(diagnostics[1]).toMatchObject({
+      message:
+        'The unit "cloves" of the ingredient "garlic" is not a known unit and will neither be converted nor added to other units',
+      span: {
+        start: { line: 5, column: 30, offset: 65 },
+        end: { line: 5, column: 47, offset: 82 },
+      },
+    });
+  });
+
+  it("should report ingredients declared twice without reference", () => {
+    const diagnostics = lint(
+      frontMatter + "Mix @flour{200%g} and @Flour{100%g}.\nAdd @&flour{1%cup}.",
+    );
+    expect(codes(diagnostics)).toEqual([
+      "incompatible-reference-quantity",
+      "duplicate-ingredient",
+    ]);
+    expect(
+      codes(
+        lint(
+          new Recipe(
+            frontMatter +
+              "Mix @flour{200%g} and @Flour{100%g}.\nAdd @&flour{1%cup}.",
+          ),
+        ),
+      ),
+    ).toEqual(["incompatible-reference-quantity", "duplicate-ingredient"]);
+    expect(diagnostics[1]).toMatchObject({
+      message:
+        'The ingredient "Flour" is declared several times and listed as separate ingredients',
+      suggestion: `Use the '&' modifier to reference the first occurrence of "Flour"`,
+    });
+  });
+
+  it("should report unused optional cookware", () => {
+    const used = new Recipe(
+      frontMatter + "Mix in a #?bowl{} or a #?pot.\n\nServe on a #?plate.",
+    );
+    expect(lint(used)).toEqual([]);
+
+    // Steps removed from a parsed recipe, e.g. by an editor
+    const recipe = new Recipe(
+      frontMatter + "Mix in a #?bowl{} or a #?pot.\n\nServe on a #?plate.",
+    );
+    recipe.sections[0]!.content.splice(0, 1);
+    expect(lint(recipe)).toEqual([
+      {
+        severity: "warning",
+        code: "unused-optional-cookware",
+        message: 'The optional cookware "bowl" is not used in any step',
+        suggestion: 'Remove "bowl" from the cookware',
+      },
+      {
+        severity: "warning",
+        code: "unused-optional-cookware",
+        message: 'The optional cookware "pot" is not used in any step',
+        suggestion: 'Remove "pot" from the cookware',
+      },
+    ]);
+  });
+
+  it("should report timers whose unit is not a time unit", () => {
+    const diagnostics = lint(
+      frontMatter + "Bake for ~oven{20%minutes} then ~{2%cups} and ~rest{1%h}.",
+    );
+    expect(diagnostics).toEqual([
+      {
+        severity: "error",
+        code: "timer-unit-not-time",
+        message: 'The unit "cups" of a timer is not a time unit',
+        span: {
+          start: { line: 5, column: 33, offset: 68 },
+          end: { line: 5, column: 42, offset: 77 },
+        },
+        suggestion: "Use a time unit, e.g. `minutes` or `h`",
+      },
+    ]);
+    expect(lint(frontMatter + "Rest ~dough{1%cup}")[0]!.message).toBe(
+      'The unit "cup" of the timer "dough" is not a time unit',
+    );
+  });
+
+  it("should report repeated section names", () => {
+    const diagnostics = lint(
+      frontMatter + "== Dough ==\nMix @flour{1%kg}\n== dough ==\nRest",
+    );
+    expect(diagnostics).toEqual([
+      {
+        severity: "warning",
+        code: "duplicate-section",
+        message: 'The section "dough" is defined several times',
+        span: {
+          start: { line: 7, column: 1, offset: 65 },
+          end: { line: 7, column: 12, offset: 76 },
+        },
+        suggestion: "Merge the sections or rename one of them",
+      },
+    ]);
+  });
+
+  it("should recognize the units of the recipe's unit registry", () => {
+    const units = new UnitRegistry();
+    units.add({
+      name: "clove",
+      type: "clove",
+      system: "metric",
+      aliases: ["cloves"],
+      toBase: 1,
+    });
+    const recipe = new Recipe(frontMatter + "Mix @garlic{2%cloves}.", {
+      units,
+    });
+    expect(codes(lint(recipe))).toEqual([]);
+  });
+
+  it("should recognize the localized units of the recipe", () => {
+    const recipe = new Recipe(frontMatter + "Mix @Zucker{2%EL}.", {
+      locale: "de",
+    });
+    expect(codes(lint(recipe))).toEqual([]);
+  });
+
+  it("should follow the configuration of the rules", () => {
+    const content = "Mix @flour and @salt{1%pinch}";
+    expect(
+      lint(content, {
+        "missing-title": false,
+        "missing-servings": "error",
+        "ingredient-missing-quantity": true,
+        "unknown-unit": false,
+      }).map((d) => [d.code, d.severity]),
+    ).toEqual([
+      ["missing-servings", "error"],
+      ["ingredient-missing-quantity", "warning"],
+    ]);
+  });
+});
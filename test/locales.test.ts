@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { delocalizeNumbers, getLocalePack } from "../src/locales";
+
+describe("getLocalePack", () => {
+  it("should find the locale pack of the language of a locale", () => {
+    expect(getLocalePack("de")?.units.tbsp).toContain("EL");
+    expect(getLocalePack(" FR-fr ")?.units.tbsp).toContain("c. à s.");
+    expect(getLocalePack("es_MX")?.decimalSeparator).toBe(",");
+    expect(getLocalePack("en-US")?.decimalSeparator).toBe(".");
+  });
+
+  it("should return undefined for unsupported locales", () => {
+    expect(getLocalePack("it")).toBeUndefined();
+    expect(getLocalePack("")).toBeUndefined();
+  });
+});
+
+describe("delocalizeNumbers", () => {
+  it("should rewrite numbers written in the format of the locale", () => {
+    const de = getLocalePack("de")!;
+    expect(delocalizeNumbers("1.000,5", de)).toBe("1000.5");
+    expect(delocalizeNumbers("1,5-2,5", de)).toBe("1.5-2.5");
+    expect(delocalizeNumbers("1.000", de)).toBe("1000");
+    const fr = getLocalePack("fr")!;
+    expect(delocalizeNumbers("1 000,25", fr)).toBe("1000.25");
+    const en = getLocalePack("en")!;
+    expect(delocalizeNumbers("1,000.5", en)).toBe("1000.5");
+    expect(delocalizeNumbers("12,000-15,000", en)).toBe("12000-15000");
+  });
+
+  it("should leave other numbers and texts untouched", () => {
+    const de = getLocalePack("de")!;
+    expect(delocalizeNumbers("12", de)).toBe("12");
+    expect(delocalizeNumbers("1/2", de)).toBe("1/2");
+    expect(delocalizeNumbers("eine Prise", de)).toBe("eine Prise");
+    expect(
+      delocalizeNumbers("1.000", {
+        units: {},
+        decimalSeparator: ",",
+        groupSeparators: [],
+      }),
+    ).toBe("1.000");
+  });
+});
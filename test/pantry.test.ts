@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { Pantry } from "../src/classes/pantry";
+
+describe("Pantry", () => {
+  it("parses a config with locations and quantities", () => {
+    const config = `
+            [fridge]
+            milk = 1%l
+            butter|beurre = 125 % g
+
+            [cupboard]
+            eggs = 6
+            flour = 1-2%kg
+            salt
+        `;
+    const pantry = new Pantry(config);
+    expect(pantry.items).toEqual([
+      {
+        name: "milk",
+        aliases: ["milk"],
+        quantity: { type: "fixed", value: { type: "decimal", value: 1 } },
+        unit: "l",
+        location: "fridge",
+      },
+      {
+        name: "butter",
+        aliases: ["butter", "beurre"],
+        quantity: { type: "fixed", value: { type: "decimal", value: 125 } },
+        unit: "g",
+        location: "fridge",
+      },
+      {
+        name: "eggs",
+        aliases: ["eggs"],
+        quantity: { type: "fixed", value: { type: "decimal", value: 6 } },
+        location: "cupboard",
+      },
+      {
+        name: "flour",
+        aliases: ["flour"],
+        quantity: {
+          type: "range",
+          min: { type: "decimal", value: 1 },
+          max: { type: "decimal", value: 2 },
+        },
+        unit: "kg",
+        location: "cupboard",
+      },
+      { name: "salt", aliases: ["salt"], location: "cupboard" },
+    ]);
+  });
+
+  it("parses a config without locations", () => {
+    const pantry = new Pantry();
+    pantry.parse("rice = 1/2%kg\npepper");
+    expect(pantry.items).toEqual([
+      {
+        name: "rice",
+        aliases: ["rice"],
+        quantity: {
+          type: "fixed",
+          value: { type: "fraction", num: 1, den: 2 },
+        },
+        unit: "kg",
+      },
+      { name: "pepper", aliases: ["pepper"] },
+    ]);
+  });
+
+  it("gets ingredients by name or alias, case-insensitively", () => {
+    const pantry = new Pantry("[fridge]\nButter|beurre = 125%g");
+    expect(pantry.get("butter")?.name).toBe("Butter");
+    expect(pantry.get(" Beurre")?.name).toBe("Butter");
+    expect(pantry.get("milk")).toBeUndefined();
+  });
+
+  it("throws an error for duplicate ingredients or aliases", () => {
+    expect(() => new Pantry("milk = 1%l\nMilk = 2%l")).toThrow(
+      "Duplicate ingredient/alias found: Milk",
+    );
+  });
+
+  it("throws an error for ingredients without a name", () => {
+    expect(() => new Pantry("milk| = 1%l")).toThrow(
+      "Ingredient found without a name: milk| = 1%l",
+    );
+  });
+});
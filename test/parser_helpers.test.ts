@@ -1,6 +1,14 @@
 import { describe, it, expect } from "vitest";
 import { Section as SectionObject } from "../src/classes/section";
-import type { Step, MetadataExtract, Cookware, Ingredient } from "../src/types";
+import type {
+  Step,
+  MetadataExtract,
+  Cookware,
+  Ingredient,
+  Diagnostic,
+} from "../src/types";
+import { InvalidScalingValueError } from "../src/errors";
+import { getLocalePack } from "../src/locales";
 import {
   flushPendingNote,
   flushPendingItems,
@@ -9,9 +17,18 @@ import {
   parseListMetaVar,
   parseFixedValue,
   parseQuantityInput,
+  rewriteNumberNotations,
   extractMetadata,
   findAndUpsertCookware,
   findAndUpsertIngredient,
+  createMappedText,
+  removeMatchesFromMappedText,
+  trimMappedText,
+  splitMappedTextLines,
+  getLineStarts,
+  createSourceSpan,
+  createMappedSourceSpan,
+  extractMetadataSpans,
 } from "../src/parser_helpers";
 
 describe("parseSimpleMetaVar", () => {
@@ -56,6 +73,19 @@ describe("parseScalingMetaVar", () => {
       "Scaling variables should be numbers",
     );
   });
+  it("should parse scaling vars with a unit", () => {
+    expect(parseScalingMetaVar("yield: 800%g", "yield")).toEqual([
+      800,
+      "800%g",
+    ]);
+    expect(parseScalingMetaVar("yield: 1.5 % kg, 2 cakes", "yield")).toEqual([
+      1.5,
+      "1.5 % kg, 2 cakes",
+    ]);
+    expect(() => parseScalingMetaVar("yield: %g", "yield")).toThrowError(
+      "Scaling variables should be numbers",
+    );
+  });
   it("should accept various space patterns", () => {
     expect(parseScalingMetaVar("servings: 2,2 people", "servings")).toEqual([
       2,
@@ -246,6 +276,159 @@ images: [https://static01.nyt.com/images/2021/12/28/dining/yf-baked-feta/yf-bake
   });
 });
 
+describe("extractMetadata with YAML", () => {
+  it("should keep custom entries with their YAML type", () => {
+    const content = `---
+title: "Pancakes: the best"
+rating: 4.5
+vegan: true
+nutrition:
+  calories: 450
+  allergens: [gluten, eggs]
+equipment_notes: ~
+---`;
+    expect(extractMetadata(content)).toEqual({
+      servings: undefined,
+      metadata: {
+        title: "Pancakes: the best",
+        custom: {
+          rating: 4.5,
+          vegan: true,
+          nutrition: { calories: 450, allergens: ["gluten", "eggs"] },
+          equipment_notes: null,
+        },
+      },
+    });
+  });
+
+  it("should map nested standard entries onto their dotted keys", () => {
+    const content = `---
+source:
+  name: Grandma
+  url: https://example.com
+  isbn: 1234
+time:
+  prep: 10m
+  cook: 15
+---`;
+    expect(extractMetadata(content)).toEqual({
+      metadata: {
+        "source.name": "Grandma",
+        "source.url": "https://example.com",
+        "time.prep": "10m",
+        "time.cook": "15",
+        custom: { "source.isbn": 1234 },
+      },
+    });
+  });
+
+  it("should convert scalars of standard entries into strings", () => {
+    const content = `---
+title: 42
+servings: 4
+tags: breakfast, easy
+images: [1, 2]
+description:
+pictures:
+yield:
+---`;
+    expect(extractMetadata(content)).toEqual({
+      metadata: {
+        title: "42",
+        servings: "4",
+        tags: ["breakfast", "easy"],
+        images: ["1", "2"],
+      },
+      servings: 4,
+    });
+  });
+
+  it("should keep standard entries of unexpected types as custom entries", () => {
+    const content = `---
+title: [a, b]
+servings: { count: 4 }
+tags: { a: b }
+---`;
+    expect(extractMetadata(content)).toEqual({
+      metadata: {
+        custom: {
+          title: ["a", "b"],
+          servings: { count: 4 },
+          tags: { a: "b" },
+        },
+      },
+    });
+  });
+
+  it("should report YAML errors with line numbers and fall back to simple entries", () => {
+    const diagnostics: Diagnostic[] = [];
+    const content = `Intro
+---
+title: Pancakes: the best
+servings: 2
+tags: [a, b]
+---`;
+    expect(extractMetadata(content, diagnostics)).toEqual({
+      metadata: {
+        title: "Pancakes: the best",
+        servings: "2",
+        tags: ["a", "b"],
+      },
+      servings: 2,
+    });
+    expect(diagnostics).toEqual([
+      {
+        severity: "warning",
+        code: "invalid-front-matter",
+        message:
+          "Invalid YAML front matter at line 3: Nested mappings are not allowed in compact mappings",
+        span: {
+          start: { line: 3, column: 8, offset: 17 },
+          end: { line: 3, column: 9, offset: 18 },
+        },
+        suggestion:
+          "Fix the YAML syntax, e.g. by quoting values which contain a colon. Only the simple `key: value` entries have been extracted",
+      },
+    ]);
+  });
+
+  it("should report front matter which is not made of entries", () => {
+    const diagnostics: Diagnostic[] = [];
+    expect(extractMetadata("---\n- a\n- b\n---", diagnostics)).toEqual({
+      metadata: {},
+    });
+    expect(diagnostics).toMatchObject([
+      {
+        severity: "warning",
+        code: "invalid-front-matter",
+        message: "The front matter should be made of `key: value` entries",
+      },
+    ]);
+    expect(extractMetadata("---\n# only a comment\n---", diagnostics)).toEqual({
+      metadata: {},
+    });
+    expect(diagnostics).toHaveLength(1);
+  });
+
+  it("should throw or report invalid scaling values", () => {
+    const content = '---\nservings: two\nyield: ",2"\n---';
+    expect(() => extractMetadata(content)).toThrowError(
+      InvalidScalingValueError,
+    );
+    expect(() => extractMetadata('---\nyield: ",2"\n---')).toThrowError(
+      InvalidScalingValueError,
+    );
+    const diagnostics: Diagnostic[] = [];
+    expect(extractMetadata(content, diagnostics, true)).toEqual({
+      metadata: { servings: "two", yield: ",2" },
+    });
+    expect(diagnostics).toMatchObject([
+      { code: "invalid-scaling-value" },
+      { code: "invalid-scaling-value" },
+    ]);
+  });
+});
+
 describe("flushPendingNote", () => {
   it("should add a note to the section if the note is not empty", () => {
     const section = new SectionObject("Test Section");
@@ -594,4 +777,142 @@ describe("parseQuantityInput", () => {
       value: { type: "decimal", value: 1.2 },
     });
   });
+
+  it("parses mixed numbers and unicode fractions as fractions", () => {
+    expect(parseQuantityInput("1 1/2")).toEqual({
+      type: "fixed",
+      value: { type: "fraction", num: 3, den: 2 },
+    });
+    expect(parseQuantityInput("½")).toEqual({
+      type: "fixed",
+      value: { type: "fraction", num: 1, den: 2 },
+    });
+    expect(parseQuantityInput("1⅓-2 ¼")).toEqual({
+      type: "range",
+      min: { type: "fraction", num: 4, den: 3 },
+      max: { type: "fraction", num: 9, den: 4 },
+    });
+  });
+
+  it("parses number words only when asked to", () => {
+    expect(parseQuantityInput("two")).toEqual({
+      type: "fixed",
+      value: { type: "text", value: "two" },
+    });
+    expect(parseQuantityInput("Two", undefined, true)).toEqual({
+      type: "fixed",
+      value: { type: "decimal", value: 2 },
+    });
+    expect(parseQuantityInput("zwei-drei", getLocalePack("de"), true)).toEqual({
+      type: "range",
+      min: { type: "decimal", value: 2 },
+      max: { type: "decimal", value: 3 },
+    });
+  });
+
+  it("keeps texts as written", () => {
+    expect(parseQuantityInput(" one handful ", undefined, true)).toEqual({
+      type: "fixed",
+      value: { type: "text", value: "one handful" },
+    });
+    expect(parseQuantityInput("½ Tasse", getLocalePack("de"))).toEqual({
+      type: "fixed",
+      value: { type: "text", value: "½ Tasse" },
+    });
+  });
+});
+
+describe("rewriteNumberNotations", () => {
+  it("rewrites mixed numbers, unicode fractions and number words", () => {
+    expect(rewriteNumberNotations("1 1/2")).toBe("3/2");
+    expect(rewriteNumberNotations("1\u20443")).toBe("1/3");
+    expect(rewriteNumberNotations("2⅔")).toBe("8/3");
+    expect(rewriteNumberNotations("six", { six: 6 })).toBe("6");
+    expect(rewriteNumberNotations("constructor")).toBe("constructor");
+  });
+});
+
+describe("mapped text helpers", () => {
+  it("should keep track of original offsets when removing matches", () => {
+    const source = createMappedText("a--b\nc--d");
+    const result = removeMatchesFromMappedText(source, /--./g);
+    expect(result).toEqual({ text: "a\nc", offsets: [0, 4, 5] });
+  });
+
+  it("should only remove the first match of a non-global regex", () => {
+    const source = createMappedText("abab");
+    const result = removeMatchesFromMappedText(source, /b/);
+    expect(result).toEqual({ text: "aab", offsets: [0, 2, 3] });
+  });
+
+  it("should trim mapped texts", () => {
+    expect(trimMappedText(createMappedText("  ab "))).toEqual({
+      text: "ab",
+      offsets: [2, 3],
+    });
+    expect(trimMappedText(createMappedText("   "))).toEqual({
+      text: "",
+      offsets: [],
+    });
+  });
+
+  it("should split mapped texts into lines", () => {
+    const lines = splitMappedTextLines(createMappedText("a\r\nb\rc\nd"));
+    expect(lines.map((l) => l.text)).toEqual(["a", "b", "c", "d"]);
+    expect(lines.map((l) => l.offsets)).toEqual([[0], [3], [5], [7]]);
+  });
+});
+
+describe("source spans helpers", () => {
+  it("should get the start offsets of each line", () => {
+    expect(getLineStarts("ab\ncd\r\n\ne")).toEqual([0, 3, 7, 8]);
+  });
+
+  it("should convert offsets into positions", () => {
+    const lineStarts = getLineStarts("ab\ncd\nef");
+    expect(createSourceSpan(lineStarts, 0, 2)).toEqual({
+      start: { line: 1, column: 1, offset: 0 },
+      end: { line: 1, column: 3, offset: 2 },
+    });
+    expect(createSourceSpan(lineStarts, 4, 7)).toEqual({
+      start: { line: 2, column: 2, offset: 4 },
+      end: { line: 3, column: 2, offset: 7 },
+    });
+  });
+
+  it("should create spans from mapped texts", () => {
+    const content = "a[-x-]bc";
+    const mapped = removeMatchesFromMappedText(
+      createMappedText(content),
+      /\[-.*?-\]/g,
+    );
+    const span = createMappedSourceSpan(getLineStarts(content), mapped, 1, 3)!;
+    expect(content.slice(span.start.offset, span.end.offset)).toBe("bc");
+  });
+
+  it("should locate metadata entries", () => {
+    const content = `---
+title: Pancakes
+source.name: Grandma
+tags:
+- breakfast
+- easy
+---`;
+    const spans = extractMetadataSpans(content, [
+      "title",
+      "source.name",
+      "tags",
+      "author",
+    ]);
+    const textAt = (key: keyof typeof spans) =>
+      content.slice(spans[key]!.start.offset, spans[key]!.end.offset);
+    expect(textAt("title")).toBe("title: Pancakes");
+    expect(textAt("source.name")).toBe("source.name: Grandma");
+    expect(textAt("tags")).toBe("tags:\n- breakfast\n- easy");
+    expect(spans.author).toBeUndefined();
+  });
+
+  it("should not locate anything without front matter", () => {
+    expect(extractMetadataSpans("Just @eggs", ["title"])).toEqual({});
+  });
 });
@@ -0,0 +1,378 @@
+import { describe, it, expect } from "vitest";
+import Big from "big.js";
+import { Quantity } from "../src/classes/quantity";
+import { UnitRegistry } from "../src/classes/unit_registry";
+import { CannotAddTextValueError, IncompatibleUnitsError } from "../src/units";
+import type { FixedValue, Range } from "../src/types";
+
+const fraction = (num: number, den: number): FixedValue => ({
+  type: "fixed",
+  value: { type: "fraction", num, den },
+});
+const decimal = (value: number): FixedValue => ({
+  type: "fixed",
+  value: { type: "decimal", value },
+});
+const range = (min: number, max: number): Range => ({
+  type: "range",
+  min: { type: "decimal", value: min },
+  max: { type: "decimal", value: max },
+});
+const pinch = Quantity.from({
+  type: "fixed",
+  value: { type: "text", value: "a pinch" },
+});
+
+describe("Quantity", () => {
+  describe("creation", () => {
+    it("should create quantities from values and numbers", () => {
+      expect(Quantity.from(fraction(1, 2), "cup").toJSON()).toEqual({
+        value: fraction(1, 2),
+        unit: "cup",
+      });
+      expect(Quantity.from(range(1, 2)).toValue()).toEqual(range(1, 2));
+      expect(Quantity.from(1.5, "g").toValue()).toEqual(decimal(1.5));
+      expect(Quantity.from(Big(0.25)).toValue()).toEqual(decimal(0.25));
+      expect(pinch.toValue()).toEqual({
+        type: "fixed",
+        value: { type: "text", value: "a pinch" },
+      });
+    });
+
+    it("should create quantities from their JSON representation", () => {
+      const json = { value: fraction(3, 4), unit: "tbsp" };
+      expect(Quantity.fromJSON(json).toJSON()).toEqual(json);
+      expect(Quantity.fromJSON({ value: decimal(2) }).toJSON()).toEqual({
+        value: decimal(2),
+      });
+    });
+
+    it("should simplify fractions", () => {
+      expect(Quantity.from(fraction(2, 4)).toValue()).toEqual(fraction(1, 2));
+      expect(Quantity.from(fraction(4, 2)).toValue()).toEqual(decimal(2));
+      expect(Quantity.from(fraction(1.5, 2)).toValue()).toEqual(fraction(3, 4));
+    });
+
+    it("should be immutable", () => {
+      const quantity = Quantity.from(1, "g");
+      expect(Object.isFrozen(quantity)).toBe(true);
+      quantity.add(Quantity.from(1, "g"));
+      expect(quantity.toValue()).toEqual(decimal(1));
+    });
+
+    it("should give access to the ends of a range", () => {
+      const quantity = Quantity.from(range(1, 2), "cup");
+      expect(quantity.isRange).toBe(true);
+      expect(quantity.min.toJSON()).toEqual({ value: decimal(1), unit: "cup" });
+      expect(quantity.max.toJSON()).toEqual({ value: decimal(2), unit: "cup" });
+      const fixed = Quantity.from(1);
+      expect(fixed.isRange).toBe(false);
+      expect(fixed.min).toBe(fixed);
+      expect(fixed.max).toBe(fixed);
+      expect(pinch.isText).toBe(true);
+      expect(fixed.isText).toBe(false);
+    });
+  });
+
+  describe("arithmetic", () => {
+    it("should add fractions exactly", () => {
+      expect(
+        Quantity.from(fraction(1, 3))
+          .add(Quantity.from(fraction(1, 6)))
+          .toValue(),
+      ).toEqual(fraction(1, 2));
+      expect(
+        Quantity.from(fraction(1, 3))
+          .add(Quantity.from(fraction(2, 3)))
+          .toValue(),
+      ).toEqual(decimal(1));
+    });
+
+    it("should express sums of fractions and decimals as decimals when possible", () => {
+      expect(
+        Quantity.from(fraction(1, 4)).add(Quantity.from(0.5)).toValue(),
+      ).toEqual(decimal(0.75));
+      expect(
+        Quantity.from(fraction(1, 3)).add(Quantity.from(0.5)).toValue(),
+      ).toEqual(fraction(5, 6));
+      expect(
+        Quantity.from(0)
+          .add(Quantity.from(fraction(1, 4)))
+          .toValue(),
+      ).toEqual(fraction(1, 4));
+      expect(
+        Quantity.from(fraction(1, 4)).add(Quantity.from(0)).toValue(),
+      ).toEqual(fraction(1, 4));
+    });
+
+    it("should add ranges and fixed values", () => {
+      expect(
+        Quantity.from(range(1, 2)).add(Quantity.from(1)).toValue(),
+      ).toEqual(range(2, 3));
+      expect(
+        Quantity.from(1)
+          .add(Quantity.from(range(1, 2)))
+          .toValue(),
+      ).toEqual(range(2, 3));
+      expect(
+        Quantity.from(range(1, 2))
+          .add(Quantity.from(range(3, 4)))
+          .toValue(),
+      ).toEqual(range(4, 6));
+    });
+
+    it("should add quantities in the unit of the first one", () => {
+      expect(
+        Quantity.from(1, "kg").add(Quantity.from(500, "g")).toJSON(),
+      ).toEqual({ value: decimal(1.5), unit: "kg" });
+      expect(Quantity.from(1).add(Quantity.from(2, "g")).toJSON()).toEqual({
+        value: decimal(3),
+        unit: "g",
+      });
+      expect(Quantity.from(1, "G").add(Quantity.from(2, "g")).toJSON()).toEqual(
+        { value: decimal(3), unit: "G" },
+      );
+    });
+
+    it("should use the provided unit registry", () => {
+      const registry = new UnitRegistry();
+      registry.add({
+        name: "cup",
+        type: "volume",
+        system: "metric",
+        aliases: ["cups"],
+        toBase: 250,
+      });
+      expect(
+        Quantity.from(1, "cup")
+          .add(Quantity.from(125, "ml"), registry)
+          .toJSON(),
+      ).toEqual({ value: decimal(1.5), unit: "cup" });
+    });
+
+    it("should subtract quantities", () => {
+      expect(
+        Quantity.from(fraction(1, 2), "cup")
+          .subtract(Quantity.from(fraction(1, 3), "cup"))
+          .toJSON(),
+      ).toEqual({ value: fraction(1, 6), unit: "cup" });
+      expect(
+        Quantity.from(1, "kg").subtract(Quantity.from(250, "g")).toValue(),
+      ).toEqual(decimal(0.75));
+      expect(Quantity.from(1).subtract(Quantity.from(3)).toValue()).toEqual(
+        decimal(-2),
+      );
+    });
+
+    it("should subtract ranges end to opposite end", () => {
+      expect(
+        Quantity.from(range(2, 3))
+          .subtract(Quantity.from(range(0, 2)))
+          .toValue(),
+      ).toEqual(range(0, 3));
+      expect(
+        Quantity.from(range(2, 3)).subtract(Quantity.from(1)).toValue(),
+      ).toEqual(range(1, 2));
+      expect(
+        Quantity.from(5)
+          .subtract(Quantity.from(range(1, 2)))
+          .toValue(),
+      ).toEqual(range(3, 4));
+      expect(
+        Quantity.from(range(1, 2), "kg")
+          .subtract(Quantity.from(range(250, 500), "g"))
+          .toValue(),
+      ).toEqual(range(0.5, 1.75));
+    });
+
+    it("should not add or subtract incompatible quantities", () => {
+      expect(() => pinch.add(Quantity.from(1))).toThrow(
+        CannotAddTextValueError,
+      );
+      expect(() => Quantity.from(1).subtract(pinch)).toThrow(
+        "Cannot subtract a quantity with a text value.",
+      );
+      expect(() => Quantity.from(1, "g").add(Quantity.from(1, "ml"))).toThrow(
+        IncompatibleUnitsError,
+      );
+      expect(() =>
+        Quantity.from(1, "g").add(Quantity.from(1, "handful")),
+      ).toThrow(IncompatibleUnitsError);
+    });
+
+    it("should multiply and divide without losing precision", () => {
+      const third = Quantity.from(fraction(1, 3), "cup");
+      expect(third.multiply(3).toValue()).toEqual(decimal(1));
+      expect(third.multiply(2).toValue()).toEqual(fraction(2, 3));
+      expect(Quantity.from(2).multiply(Big(4).div(3)).toValue()).toEqual(
+        decimal(8 / 3),
+      );
+      expect(
+        Quantity.from(fraction(2, 1)).multiply(Big(4).div(3)).toValue(),
+      ).toEqual(fraction(8, 3));
+      expect(
+        Quantity.from(3)
+          .multiply({ type: "fraction", num: 1, den: 3 })
+          .toValue(),
+      ).toEqual(decimal(1));
+      expect(
+        Quantity.from(1).multiply({ type: "decimal", value: 1.5 }).toValue(),
+      ).toEqual(decimal(1.5));
+      expect(third.divide(2).toValue()).toEqual(fraction(1, 6));
+      expect(
+        Quantity.from(1).divide({ type: "fraction", num: 1, den: 4 }).toValue(),
+      ).toEqual(decimal(4));
+      expect(pinch.multiply(2).toValue()).toEqual(pinch.toValue());
+    });
+
+    it("should swap the ends of a range multiplied by a negative factor", () => {
+      expect(Quantity.from(range(1, 2)).multiply(-1).toValue()).toEqual(
+        range(-2, -1),
+      );
+      expect(Quantity.from(range(2, 4)).divide(-2).toValue()).toEqual(
+        range(-2, -1),
+      );
+    });
+
+    it("should not divide by zero", () => {
+      expect(() => Quantity.from(1).divide(0)).toThrow(
+        "Denominator cannot be zero.",
+      );
+    });
+  });
+
+  describe("comparison", () => {
+    it("should compare quantities across units", () => {
+      expect(Quantity.from(1, "kg").compare(Quantity.from(999, "g"))).toBe(1);
+      expect(Quantity.from(1, "kg").compare(Quantity.from(1000, "g"))).toBe(0);
+      expect(Quantity.from(fraction(1, 3)).compare(Quantity.from(0.5))).toBe(
+        -1,
+      );
+      expect(
+        Quantity.from(range(1, 2)).compare(Quantity.from(range(1, 3))),
+      ).toBe(-1);
+      expect(Quantity.from(range(1, 2)).compare(Quantity.from(1))).toBe(1);
+      expect(() => pinch.compare(Quantity.from(1))).toThrow(
+        "Cannot compare a quantity with a text value.",
+      );
+    });
+
+    it("should check whether quantities are equal", () => {
+      expect(
+        Quantity.from(fraction(1, 2), "cup").equals(Quantity.from(0.5, "cup")),
+      ).toBe(true);
+      expect(Quantity.from(1, "kg").equals(Quantity.from(1000, "g"))).toBe(
+        true,
+      );
+      expect(Quantity.from(1, "g").equals(Quantity.from(1, "ml"))).toBe(false);
+      expect(Quantity.from(range(1, 1)).equals(Quantity.from(1))).toBe(false);
+      expect(pinch.equals(Quantity.from(1))).toBe(false);
+      expect(
+        pinch.equals(
+          Quantity.from({
+            type: "fixed",
+            value: { type: "text", value: "a pinch" },
+          }),
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe("conversion", () => {
+    it("should convert quantities into other units", () => {
+      expect(Quantity.from(1.5, "kg").convert("g").toJSON()).toEqual({
+        value: decimal(1500),
+        unit: "g",
+      });
+      expect(Quantity.from(1, "cup").convert("ml").toValue()).toEqual(
+        decimal(236.588),
+      );
+      expect(
+        Quantity.from(fraction(1, 2), "cups").convert("cup").toJSON(),
+      ).toEqual({ value: fraction(1, 2), unit: "cup" });
+    });
+
+    it("should not convert incompatible quantities", () => {
+      expect(() => Quantity.from(1, "g").convert("ml")).toThrow(
+        IncompatibleUnitsError,
+      );
+      expect(() => Quantity.from(1).convert("g")).toThrow(
+        IncompatibleUnitsError,
+      );
+      expect(() => pinch.convert("g")).toThrow(
+        "Cannot convert a quantity with a text value.",
+      );
+    });
+  });
+
+  describe("rounding", () => {
+    it("should round to a number of decimals", () => {
+      const third = Quantity.from(fraction(1, 3));
+      expect(third.round({ decimals: 2 }).toValue()).toEqual(decimal(0.33));
+      expect(third.round({ decimals: 2, mode: "up" }).toValue()).toEqual(
+        decimal(0.34),
+      );
+      expect(
+        Quantity.from(0.678).round({ decimals: 2, mode: "down" }).toValue(),
+      ).toEqual(decimal(0.67));
+      expect(Quantity.from(0.125).round({ decimals: 2 }).toValue()).toEqual(
+        decimal(0.13),
+      );
+      expect(Quantity.from(-0.125).round({ decimals: 2 }).toValue()).toEqual(
+        decimal(-0.13),
+      );
+      expect(
+        Quantity.from(-0.121).round({ decimals: 2, mode: "down" }).toValue(),
+      ).toEqual(decimal(-0.13));
+    });
+
+    it("should keep fractions when requested", () => {
+      expect(
+        Quantity.from(fraction(1, 3))
+          .round({ decimals: 2, keepFractions: true })
+          .toValue(),
+      ).toEqual(fraction(1, 3));
+      expect(
+        Quantity.from(1.2345)
+          .round({ decimals: 2, keepFractions: true })
+          .toValue(),
+      ).toEqual(decimal(1.23));
+      expect(
+        Quantity.from(fraction(137, 200))
+          .round({ decimals: 2, keepFractions: true })
+          .toValue(),
+      ).toEqual(decimal(0.69));
+    });
+
+    it("should round to a multiple of a fraction", () => {
+      expect(Quantity.from(0.3).round({ denominator: 4 }).toValue()).toEqual(
+        fraction(1, 4),
+      );
+      expect(
+        Quantity.from(0.3).round({ denominator: 4, mode: "up" }).toValue(),
+      ).toEqual(fraction(1, 2));
+      expect(Quantity.from(0.9).round({ denominator: 4 }).toValue()).toEqual(
+        decimal(1),
+      );
+    });
+
+    it("should round both ends of ranges and leave text values as-is", () => {
+      expect(
+        Quantity.from(range(1.234, 2.345)).round({ decimals: 1 }).toValue(),
+      ).toEqual(range(1.2, 2.3));
+      expect(pinch.round({ decimals: 2 }).toValue()).toEqual(pinch.toValue());
+    });
+  });
+
+  describe("display", () => {
+    it("should render quantities as text", () => {
+      expect(Quantity.from(fraction(3, 2), "cup").toString()).toBe(
+        "1 1/2 cups",
+      );
+      expect(
+        Quantity.from(fraction(1, 2), "cup").toString({ fractions: "unicode" }),
+      ).toBe("½ cup");
+      expect(Quantity.from(range(1, 2)).toString()).toBe("1–2");
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import { describe, it, expect } from "vitest";
+import { RecipeCollection } from "../src/classes/recipe_collection";
+import { InMemoryRecipeLoader } from "../src/classes/in_memory_recipe_loader";
+import { Recipe } from "../src/classes/recipe";
+import { RecipeNotFoundError } from "../src/errors";
+
+const contents = {
+  "ratatouille.cook": `---
+title: Ratatouille
+tags: [summer, Provence]
+course: main
+cuisine: French
+diet: vegetarian, gluten-free
+time: 25 min
+---
+Simmer @eggplant{1}, @zucchini{2} and @tomatoes{4} in a #dutch oven{}.`,
+  "chicken stew.cook": `---
+title: Chicken stew
+tags: [winter]
+course: main
+cuisine: French
+time: 2h
+---
+Brown @chicken{1} in a #dutch oven{}, then add @carrots{3}.`,
+  "chickpea curry.cook": `---
+title: Chickpea curry
+course: Main
+cuisine: Indian
+diet: Vegetarian
+time: 20 min
+---
+Cook @chickpeas{400%g} with @coconut milk{400%ml} in a #Dutch Oven{}.`,
+  "lemonade.cook": `---
+course: drink
+diet: vegan
+---
+Mix @lemons{4}, @sugar{100%g} and @water{1%l} in a #jug{}.`,
+};
+
+const createCollection = () => {
+  const collection = new RecipeCollection();
+  for (const [path, content] of Object.entries(contents)) {
+    collection.set(path, content);
+  }
+  return collection;
+};
+
+const paths = (collection: RecipeCollection, query = {}) =>
+  collection.query(query).recipes.map(({ path }) => path);
+
+describe("RecipeCollection", () => {
+  it("should add, get and delete recipes", () => {
+    const recipes = createCollection();
+    expect(recipes.size).toBe(4);
+    expect(recipes.get("ratatouille.cook")?.metadata.title).toBe("Ratatouille");
+
+    const recipe = new Recipe("Mix @water{1%l} in a #jug{}.");
+    expect(recipes.set("water.cook", recipe)).toBe(recipe);
+    expect(recipes.get("water.cook")).toBe(recipe);
+
+    recipes.delete("water.cook");
+    recipes.delete("missing.cook");
+    expect(recipes.get("water.cook")).toBeUndefined();
+    expect(recipes.size).toBe(4);
+  });
+
+  it("should index the metadata, ingredients and cookware", () => {
+    const recipes = createCollection();
+    expect(recipes.values("tags")).toEqual(["provence", "summer", "winter"]);
+    expect(recipes.values("course")).toEqual(["drink", "main"]);
+    expect(recipes.values("cuisine")).toEqual(["french", "indian"]);
+    expect(recipes.values("diet")).toEqual([
+      "gluten-free",
+      "vegan",
+      "vegetarian",
+    ]);
+    expect(recipes.values("category")).toEqual([]);
+    expect(recipes.values("cookware")).toEqual(["dutch oven", "jug"]);
+    expect(recipes.values("ingredients")).toContain("coconut milk");
+
+    recipes.delete("lemonade.cook");
+    expect(recipes.values("cookware")).toEqual(["dutch oven"]);
+    expect(recipes.values("diet")).toEqual(["gluten-free", "vegetarian"]);
+  });
+
+  it("should index lists of courses, cuisines, diets and categories", () => {
+    const recipes = createCollection();
+    recipes.set(
+      "salad.cook",
+      "---\ndiet: [Vegetarian, gluten-free]\ncategory: [salads, 5, {}]\n---\nToss @lettuce{1}.",
+    );
+    expect(paths(recipes, { diet: "gluten-free" })).toEqual([
+      "ratatouille.cook",
+      "salad.cook",
+    ]);
+    expect(recipes.values("category")).toEqual(["5", "salads"]);
+  });
+
+  it("should reindex replaced recipes", () => {
+    const recipes = createCollection();
+    recipes.set("lemonade.cook", "---\ncourse: drink\n---\nMix @limes{4}.");
+    expect(recipes.size).toBe(4);
+    expect(paths(recipes, { ingredients: "lemons" })).toEqual([]);
+    expect(paths(recipes, { ingredients: "limes" })).toEqual(["lemonade.cook"]);
+    expect(paths(recipes, { diet: "vegan" })).toEqual([]);
+  });
+
+  it("should unindex recipes changed since they were added", () => {
+    const recipes = createCollection();
+    const lemonade = recipes.get("lemonade.cook")!;
+    lemonade.metadata.course = "dessert";
+    lemonade.ingredients = [];
+    expect(paths(recipes, { course: "drink" })).toEqual(["lemonade.cook"]);
+
+    recipes.set("lemonade.cook", lemonade);
+    expect(paths(recipes, { course: "drink" })).toEqual([]);
+    expect(paths(recipes, { course: "dessert" })).toEqual(["lemonade.cook"]);
+    expect(recipes.values("ingredients")).not.toContain("lemons");
+
+    lemonade.metadata.course = undefined;
+    recipes.delete("lemonade.cook");
+    expect(recipes.values("course")).toEqual(["main"]);
+  });
+
+  it("should find the recipes which have all the terms", () => {
+    const recipes = createCollection();
+    expect(paths(recipes)).toEqual(Object.keys(contents));
+    expect(paths(recipes, { course: "main", diet: "vegetarian" })).toEqual([
+      "ratatouille.cook",
+      "chickpea curry.cook",
+    ]);
+    expect(
+      paths(recipes, {
+        cuisine: "french",
+        ingredients: ["Chicken", "carrots"],
+      }),
+    ).toEqual(["chicken stew.cook"]);
+    expect(paths(recipes, { tags: "autumn" })).toEqual([]);
+  });
+
+  it("should leave out the recipes which have any excluded term", () => {
+    const recipes = createCollection();
+    expect(
+      paths(recipes, {
+        cookware: "dutch oven",
+        exclude: { ingredients: ["chicken", "chickpeas"] },
+      }),
+    ).toEqual(["ratatouille.cook"]);
+    expect(paths(recipes, { exclude: { course: "main" } })).toEqual([
+      "lemonade.cook",
+    ]);
+  });
+
+  it("should search the titles", () => {
+    const recipes = createCollection();
+    expect(paths(recipes, { search: " CHICK" })).toEqual([
+      "chicken stew.cook",
+      "chickpea curry.cook",
+    ]);
+  });
+
+  it("should filter by total time", () => {
+    const recipes = createCollection();
+    expect(
+      paths(recipes, {
+        diet: "vegetarian",
+        course: "main",
+        cookware: "dutch oven",
+        exclude: { ingredients: "chicken" },
+        maxTime: 30,
+      }),
+    ).toEqual(["ratatouille.cook", "chickpea curry.cook"]);
+    expect(paths(recipes, { maxTime: 20 })).toEqual(["chickpea curry.cook"]);
+  });
+
+  it("should sort the recipes", () => {
+    const recipes = createCollection();
+    expect(paths(recipes, { sortBy: "title" })).toEqual([
+      "chicken stew.cook",
+      "chickpea curry.cook",
+      "lemonade.cook",
+      "ratatouille.cook",
+    ]);
+    expect(paths(recipes, { sortBy: "title", order: "desc" })).toEqual([
+      "ratatouille.cook",
+      "lemonade.cook",
+      "chickpea curry.cook",
+      "chicken stew.cook",
+    ]);
+    expect(paths(recipes, { sortBy: "time" })).toEqual([
+      "chickpea curry.cook",
+      "ratatouille.cook",
+      "chicken stew.cook",
+      "lemonade.cook",
+    ]);
+    expect(paths(recipes, { sortBy: "time", order: "desc" })).toEqual([
+      "chicken stew.cook",
+      "ratatouille.cook",
+      "chickpea curry.cook",
+      "lemonade.cook",
+    ]);
+
+    // Recipes without total time come last in both orders
+    recipes.set("water.cook", "Pour @water{1%l} in a #jug{}.");
+    recipes.set("chocolate.cook", "---\ntime: 1h\n---\nMelt @chocolate{}.");
+    expect(paths(recipes, { sortBy: "time", order: "desc" })).toEqual([
+      "chicken stew.cook",
+      "chocolate.cook",
+      "ratatouille.cook",
+      "chickpea curry.cook",
+      "lemonade.cook",
+      "water.cook",
+    ]);
+    recipes.delete("water.cook");
+    recipes.delete("chocolate.cook");
+
+    expect(paths(recipes, { order: "desc" })).toEqual(
+      Object.keys(contents).reverse(),
+    );
+  });
+
+  it("should paginate the recipes", () => {
+    const recipes = createCollection();
+    const page = recipes.query({ sortBy: "title", offset: 1, limit: 2 });
+    expect(page.total).toBe(4);
+    expect(page.recipes.map(({ path }) => path)).toEqual([
+      "chickpea curry.cook",
+      "lemonade.cook",
+    ]);
+    expect(paths(recipes, { offset: 3 })).toEqual(["lemonade.cook"]);
+  });
+
+  it("should load recipes with a loader", async () => {
+    const recipes = new RecipeCollection({ locale: "fr" });
+    const loader = new InMemoryRecipeLoader({
+      ...contents,
+      "sel.cook": "Ajouter @sel{1%cuillère à café}.",
+    });
+    await recipes.load(loader, ["ratatouille.cook", "sel.cook"]);
+    expect(recipes.size).toBe(2);
+    expect(recipes.get("sel.cook")?.units?.get("cuillère à café")?.name).toBe(
+      "tsp",
+    );
+
+    await expect(
+      recipes.load(loader, ["lemonade.cook", "missing.cook"]),
+    ).rejects.toThrow(RecipeNotFoundError);
+    expect(recipes.size).toBe(2);
+  });
+});
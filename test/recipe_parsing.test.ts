@@ -1,7 +1,13 @@
 import { describe, it, expect } from "vitest";
 import { Recipe } from "../src/classes/recipe";
+import { DensityRegistry } from "../src/classes/density_registry";
+import { UnitRegistry } from "../src/classes/unit_registry";
 import { simpleRecipe, complexRecipe } from "./fixtures/recipes";
-import { ReferencedItemCannotBeRedefinedError } from "../src/errors";
+import {
+  ReferencedItemCannotBeRedefinedError,
+  InvalidScalingValueError,
+} from "../src/errors";
+import type { SourceSpan, Step } from "../src/types";
 
 describe("parse function", () => {
   it("parses basic metadata correctly", () => {
@@ -703,6 +709,7 @@ describe("parse function", () => {
         ],
         flags: [],
         preparation: undefined,
+        separateReference: true,
       });
     });
   });
@@ -892,4 +899,426 @@ Another step.
     const result = new Recipe(complexRecipe);
     expect(result).toMatchSnapshot();
   });
+
+  describe("source spans", () => {
+    const content = `---
+title: Pancakes
+tags:
+  - breakfast
+---
+-- A comment which shifts lines
+= Batter
+
+Mix @flour{100%g} [- block -] with #bowl{1}.
+  Rest ~{5%min}
+
+> A note
+on two lines
+`;
+    const textAt = (span?: SourceSpan) =>
+      content.slice(span!.start.offset, span!.end.offset);
+
+    it("does not attach spans by default", () => {
+      const result = new Recipe(content);
+      expect(result.metadataSpans).toBeUndefined();
+      expect(result.ingredients[0]!.span).toBeUndefined();
+      expect(result.sections[0]!.span).toBeUndefined();
+      expect(result.sections[0]!.content[0]!.span).toBeUndefined();
+    });
+
+    it("attaches spans relative to the original content to every item", () => {
+      const result = new Recipe(content, { spans: true });
+      const step = result.sections[0]!.content[0] as Step;
+      expect(step.items.map((item) => textAt(item.span))).toEqual([
+        "Mix ",
+        "@flour{100%g}",
+        " [- block -] with ",
+        "#bowl{1}",
+        ".",
+        "  Rest ",
+        "~{5%min}",
+      ]);
+      expect(step.items[1]!.span).toEqual({
+        start: { line: 9, column: 5, offset: 90 },
+        end: { line: 9, column: 18, offset: 103 },
+      });
+    });
+
+    it("attaches spans to ingredients, cookware and timers", () => {
+      const result = new Recipe(content, { spans: true });
+      expect(textAt(result.ingredients[0]!.span)).toBe("@flour{100%g}");
+      expect(textAt(result.cookware[0]!.span)).toBe("#bowl{1}");
+      expect(textAt(result.timers[0]!.span)).toBe("~{5%min}");
+    });
+
+    it("attaches spans to steps, notes and section headers", () => {
+      const result = new Recipe(content, { spans: true });
+      const section = result.sections[0]!;
+      expect(textAt(section.span)).toBe("= Batter");
+      expect(textAt(section.content[0]!.span)).toBe(
+        "Mix @flour{100%g} [- block -] with #bowl{1}.\n  Rest ~{5%min}",
+      );
+      expect(textAt(section.content[1]!.span)).toBe("> A note\non two lines");
+    });
+
+    it("attaches spans to metadata entries", () => {
+      const result = new Recipe(content, { spans: true });
+      expect(textAt(result.metadataSpans!.title)).toBe("title: Pancakes");
+      expect(textAt(result.metadataSpans!.tags)).toBe("tags:\n  - breakfast");
+      expect(result.metadataSpans!.title!.start).toEqual({
+        line: 2,
+        column: 1,
+        offset: 4,
+      });
+    });
+
+    it("keeps spans when cloning", () => {
+      const result = new Recipe(content, { spans: true });
+      expect(result.clone().metadataSpans).toEqual(result.metadataSpans);
+    });
+
+    it("parses long recipes, with or without spans", () => {
+      const longContent = "Mix @flour{100%g} -- comment\n".repeat(10000);
+      expect(longContent.length).toBeGreaterThan(250000);
+      expect(() => new Recipe(longContent)).not.toThrow();
+      const result = new Recipe(longContent, { spans: true });
+      expect(result.ingredients[0]!.span!.end.offset).toBe(17);
+    });
+
+    it("only locates the warnings of recipes parsed with spans", () => {
+      const reference = "Add @flour{100%g} and @&flour{1%cup}.";
+      expect(new Recipe(reference).diagnostics[0]!.span).toBeUndefined();
+      const span = new Recipe(reference, { spans: true }).diagnostics[0]!.span!;
+      expect(reference.slice(span.start.offset, span.end.offset)).toBe(
+        "@&flour{1%cup}",
+      );
+    });
+  });
+
+  describe("recovering parse", () => {
+    it("collects no diagnostics for a valid recipe", () => {
+      const result = new Recipe(simpleRecipe, { recover: true });
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it("reports invalid YAML front matter even without recovering", () => {
+      const result = new Recipe(
+        "---\ntitle: Pancakes: the best\ncustom: [a\n---\nMix @flour",
+      );
+      expect(result.metadata).toEqual({ title: "Pancakes: the best" });
+      expect(result.diagnostics.map((d) => [d.severity, d.code])).toEqual([
+        ["warning", "invalid-front-matter"],
+      ]);
+    });
+
+    it("keeps timers missing a unit and reports them", () => {
+      const result = new Recipe("Cook for ~{15}", { recover: true });
+      expect(result.timers).toEqual([
+        {
+          name: undefined,
+          duration: { type: "fixed", value: { type: "decimal", value: 15 } },
+          unit: "",
+        },
+      ]);
+      expect(result.diagnostics).toEqual([
+        {
+          severity: "error",
+          code: "timer-missing-unit",
+          message: "Timer missing unit",
+          span: {
+            start: { line: 1, column: 10, offset: 9 },
+            end: { line: 1, column: 15, offset: 14 },
+          },
+          suggestion: "Add a unit to the timer, e.g. ~{15%minutes}",
+        },
+      ]);
+    });
+
+    it("adds referenced items which are not found as new items", () => {
+      const result = new Recipe("Add @&flour{100%g} in a #&bowl", {
+        recover: true,
+      });
+      expect(result.ingredients.map((i) => i.name)).toEqual(["flour"]);
+      expect(result.cookware.map((i) => i.name)).toEqual(["bowl"]);
+      expect(result.diagnostics.map((d) => d.code)).toEqual([
+        "referenced-item-not-found",
+        "referenced-item-not-found",
+      ]);
+      expect(result.diagnostics[0]!.message).toMatch(
+        /Referenced ingredient "flour" not found/,
+      );
+      expect(result.diagnostics[1]!.message).toMatch(
+        /Referenced cookware "bowl" not found/,
+      );
+    });
+
+    it("keeps references redefining flags with the original flags only", () => {
+      const result = new Recipe(
+        "Add @flour{100%g} and @&-flour{50%g} in an #oven and #&?oven",
+        { recover: true },
+      );
+      expect(result.ingredients).toHaveLength(1);
+      expect(result.ingredients[0]!.flags).toEqual([]);
+      expect(result.ingredients[0]!.quantity).toEqual({
+        type: "fixed",
+        value: { type: "decimal", value: 150 },
+      });
+      expect(result.cookware).toHaveLength(1);
+      expect(result.cookware[0]!.flags).toEqual([]);
+      expect(result.diagnostics.map((d) => d.code)).toEqual([
+        "referenced-item-redefined",
+        "referenced-item-redefined",
+      ]);
+    });
+
+    it("adds references redefining flags like other references", () => {
+      const result = new Recipe(
+        "Add @flour{100%g} and @&-flour{1%cup}, then @salt{1%g} and @&?salt{1%cuillère à café}",
+        { recover: true, densities: new DensityRegistry(), locale: "fr" },
+      );
+      expect(result.ingredients).toHaveLength(2);
+      expect(result.ingredients[0]).toMatchObject({
+        quantity: { type: "fixed", value: { type: "decimal", value: 225.39 } },
+        unit: "g",
+      });
+      expect(result.ingredients[1]).toMatchObject({
+        quantity: { type: "fixed", value: { type: "decimal", value: 7 } },
+        unit: "g",
+      });
+      expect(result.diagnostics.map((d) => d.code)).toEqual([
+        "referenced-item-redefined",
+        "referenced-item-redefined",
+      ]);
+    });
+
+    it("reports invalid scaling values and keeps their raw value", () => {
+      const result = new Recipe(
+        `---
+servings: two
+---
+Add @eggs{2}`,
+        { recover: true },
+      );
+      expect(result.servings).toBeUndefined();
+      expect(result.metadata.servings).toBe("two");
+      expect(result.diagnostics).toEqual([
+        {
+          severity: "error",
+          code: "invalid-scaling-value",
+          message:
+            'Scaling variables should be numbers: "servings" cannot be used for scaling',
+          span: {
+            start: { line: 2, column: 1, offset: 4 },
+            end: { line: 2, column: 14, offset: 17 },
+          },
+          suggestion:
+            'Start the value of "servings" with a number, e.g. "servings: 4"',
+        },
+      ]);
+    });
+
+    it("collects all the errors of a recipe at once", () => {
+      const result = new Recipe("Add @&salt, cook ~{5} then ~{2}", {
+        recover: true,
+      });
+      expect(result.diagnostics).toHaveLength(3);
+    });
+
+    it("warns about references which could not be added in any mode", () => {
+      const result = new Recipe(
+        "Add @flour{100%g} and @&flour{1%cup}, in a #pan{1} and #&pan{a big one}",
+      );
+      expect(result.ingredients).toHaveLength(2);
+      expect(result.cookware).toHaveLength(2);
+      expect(result.diagnostics.map((d) => [d.severity, d.code])).toEqual([
+        ["warning", "incompatible-reference-quantity"],
+        ["warning", "incompatible-reference-quantity"],
+      ]);
+    });
+
+    it("adds mass and volume quantities of ingredients with a known density", () => {
+      const result = new Recipe(
+        "Add @flour{100%g} and @&flour{1%cup}, then @salt{1%tsp} and @&salt{1%g}",
+        { densities: new DensityRegistry() },
+      );
+      expect(result.ingredients).toHaveLength(2);
+      expect(result.ingredients[0]).toMatchObject({
+        quantity: { type: "fixed", value: { type: "decimal", value: 225.39 } },
+        unit: "g",
+      });
+      expect(result.ingredients[1]).toMatchObject({
+        quantity: { type: "fixed", value: { type: "decimal", value: 7 } },
+        unit: "g",
+      });
+      expect(result.diagnostics).toEqual([]);
+
+      const scaled = result.scaleBy(2);
+      expect(scaled.densities).toBe(result.densities);
+      expect(scaled.ingredients[0]!.quantity).toEqual({
+        type: "fixed",
+        value: { type: "decimal", value: 450.78 },
+      });
+    });
+
+    it("adds quantities with the units of the unit registry", () => {
+      const units = new UnitRegistry();
+      units.add({
+        name: "cup",
+        type: "volume",
+        system: "metric",
+        aliases: ["cups"],
+        toBase: 250,
+      });
+      const result = new Recipe("Add @milk{1%cup} and @&milk{250%ml}", {
+        units,
+      });
+      expect(result.units).toBe(units);
+      expect(result.ingredients[0]).toMatchObject({
+        quantity: { type: "fixed", value: { type: "decimal", value: 2 } },
+        unit: "cup",
+      });
+      const scaled = result.scaleBy(4);
+      expect(scaled.units).toBe(units);
+      expect(scaled.convertTo("us").ingredients[0]).toMatchObject({
+        quantity: { type: "fixed", value: { type: "decimal", value: 2.11 } },
+        unit: "quart",
+      });
+    });
+
+    it("still throws unexpected errors", () => {
+      expect(
+        () =>
+          new Recipe(
+            `---
+servings: two
+---`,
+          ),
+      ).toThrowError(InvalidScalingValueError);
+    });
+  });
+
+  describe("localized recipes", () => {
+    it("recognizes the unit aliases and number format of the metadata locale", () => {
+      const recipe = new Recipe(`---
+locale: de-DE
+---
+Gib @Zucker{1,5%EL} und @&Zucker{1%TL} hinzu, dann @Mehl{1.000,5%Gramm} und ~{1,5%Stunden}.`);
+      expect(recipe.units?.get("EL")?.name).toBe("tbsp");
+      expect(recipe.ingredients).toMatchObject([
+        {
+          name: "Zucker",
+          quantity: {
+            type: "fixed",
+            value: { type: "decimal", value: 1.83 },
+          },
+          unit: "tbsp",
+        },
+        {
+          name: "Mehl",
+          quantity: {
+            type: "fixed",
+            value: { type: "decimal", value: 1000.5 },
+          },
+          unit: "Gramm",
+        },
+      ]);
+      expect(recipe.timers[0]!.duration).toEqual({
+        type: "fixed",
+        value: { type: "decimal", value: 1.5 },
+      });
+    });
+
+    it("uses the locale of the options over the one of the metadata", () => {
+      const content = `---
+locale: en
+---
+Add @sugar{1%cuillère à soupe} and @&sugar{1%c. à c.}`;
+      expect(new Recipe(content).ingredients).toHaveLength(2);
+      const recipe = new Recipe(content, { locale: "fr_FR" });
+      expect(recipe.ingredients).toMatchObject([
+        {
+          quantity: {
+            type: "fixed",
+            value: { type: "decimal", value: 1.33 },
+          },
+          unit: "tbsp",
+        },
+      ]);
+    });
+
+    it("accepts custom locale packs and unit registries", () => {
+      const units = new UnitRegistry();
+      units.add({
+        name: "pinch",
+        type: "pinch",
+        system: "metric",
+        aliases: [],
+        toBase: 1,
+      });
+      const recipe = new Recipe("Add @salt{1%pizca} and @&salt{2%pinch}", {
+        units,
+        locale: {
+          units: { pinch: ["pizca"] },
+          decimalSeparator: ",",
+          groupSeparators: [],
+        },
+      });
+      expect(recipe.ingredients[0]).toMatchObject({
+        quantity: { type: "fixed", value: { type: "decimal", value: 3 } },
+        unit: "pinch",
+      });
+      expect(units.get("pizca")).toBeUndefined();
+    });
+
+    it("ignores unsupported locales", () => {
+      const recipe = new Recipe("Add @sugar{1%EL}", { locale: "it-IT" });
+      expect(recipe.units).toBeUndefined();
+    });
+  });
+
+  describe("number notations", () => {
+    it("parses mixed numbers and unicode fractions as scalable numbers", () => {
+      const recipe = new Recipe(
+        "Mix @flour{1 1/2%cups}, @sugar{½%cup} and @milk{1⅓%cup}.",
+      );
+      expect(recipe.ingredients.map((i) => i.quantity)).toEqual([
+        { type: "fixed", value: { type: "fraction", num: 3, den: 2 } },
+        { type: "fixed", value: { type: "fraction", num: 1, den: 2 } },
+        { type: "fixed", value: { type: "fraction", num: 4, den: 3 } },
+      ]);
+      expect(recipe.scaleBy(2).ingredients.map((i) => i.quantity)).toEqual([
+        { type: "fixed", value: { type: "decimal", value: 3 } },
+        { type: "fixed", value: { type: "decimal", value: 1 } },
+        { type: "fixed", value: { type: "fraction", num: 8, den: 3 } },
+      ]);
+    });
+
+    it("parses number words with the numberWords option", () => {
+      expect(new Recipe("Beat @eggs{two}.").ingredients[0]!.quantity).toEqual({
+        type: "fixed",
+        value: { type: "text", value: "two" },
+      });
+      const recipe = new Recipe("Beat @eggs{two} for ~{three%minutes}.", {
+        numberWords: true,
+      });
+      expect(recipe.ingredients[0]!.quantity).toEqual({
+        type: "fixed",
+        value: { type: "decimal", value: 2 },
+      });
+      expect(recipe.timers[0]!.duration).toEqual({
+        type: "fixed",
+        value: { type: "decimal", value: 3 },
+      });
+      const localized = new Recipe(
+        "---\nlocale: fr\n---\nBattre @œufs{deux}.",
+        {
+          numberWords: true,
+        },
+      );
+      expect(localized.ingredients[0]!.quantity).toEqual({
+        type: "fixed",
+        value: { type: "decimal", value: 2 },
+      });
+    });
+  });
 });
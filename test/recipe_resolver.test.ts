@@ -0,0 +1,189 @@
+import { describe, it, expect, vi } from "vitest";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { RecipeResolver } from "../src/classes/recipe_resolver";
+import { InMemoryRecipeLoader } from "../src/classes/in_memory_recipe_loader";
+import { FileSystemRecipeLoader } from "../src/classes/file_system_recipe_loader";
+import { Recipe } from "../src/classes/recipe";
+import {
+  CircularRecipeReferenceError,
+  RecipeNotFoundError,
+} from "../src/errors";
+
+const recipes = {
+  "mains/pizza.cook":
+    "Spread @@../sauces/tomato sauce{100%g} on @./pizza dough{1} and add @mozzarella{125%g}.",
+  "mains/pizza dough.cook": "Mix @flour{500%g}, @water{300%ml} and @@yeast{}.",
+  "mains/yeast.cook": "Feed @sugar{5%g} to @dry yeast{7%g}.",
+  "sauces/tomato sauce.cook": "Cook @tomatoes{400%g} with @olive oil{1%tbsp}.",
+};
+
+describe("RecipeResolver", () => {
+  it("should load a recipe and the recipes it references", async () => {
+    const resolver = new RecipeResolver(new InMemoryRecipeLoader(recipes));
+    const pizza = await resolver.load("./mains/pizza.cook");
+
+    expect(pizza.path).toBe("mains/pizza.cook");
+    expect(pizza.recipe.ingredients.map((i) => i.name)).toEqual([
+      "tomato sauce",
+      "pizza dough",
+      "mozzarella",
+    ]);
+    expect(
+      pizza.subRecipes.map(({ ingredientIndex, path }) => ({
+        ingredientIndex,
+        path,
+      })),
+    ).toEqual([
+      { ingredientIndex: 0, path: "sauces/tomato sauce.cook" },
+      { ingredientIndex: 1, path: "mains/pizza dough.cook" },
+    ]);
+    expect(pizza.subRecipes[0]!.subRecipes).toEqual([]);
+
+    const dough = pizza.subRecipes[1]!;
+    expect(dough.recipe.ingredients[0]!.name).toBe("flour");
+    expect(dough.subRecipes).toHaveLength(1);
+    expect(dough.subRecipes[0]!.path).toBe("mains/yeast.cook");
+    expect(dough.subRecipes[0]!.ingredientIndex).toBe(2);
+  });
+
+  it("should resolve the references of a parsed recipe", async () => {
+    const resolver = new RecipeResolver(new InMemoryRecipeLoader(recipes));
+    const recipe = new Recipe("Use @./pizza dough{2} and @salt.");
+
+    const resolved = await resolver.resolve(recipe, "mains/calzone.cook");
+    expect(resolved.recipe).toBe(recipe);
+    expect(resolved.path).toBe("mains/calzone.cook");
+    expect(resolved.subRecipes[0]!.path).toBe("mains/pizza dough.cook");
+
+    const fromRoot = await resolver.resolve(
+      new Recipe("Use @./mains/yeast{}."),
+    );
+    expect(fromRoot.path).toBe("");
+    expect(fromRoot.subRecipes[0]!.path).toBe("mains/yeast.cook");
+  });
+
+  it("should resolve absolute and parent paths", async () => {
+    const loader = new InMemoryRecipeLoader({
+      "/recipes/a.cook": "Add @@../shared/b{}.",
+      "/shared/b.cook": "Add @@/c{}.",
+      "/c.cook": "Add @@../../d{}.",
+      "/d.cook": "Add @salt.",
+      "../e.cook": "Add @salt.",
+    });
+    const resolver = new RecipeResolver(loader);
+
+    const a = await resolver.load("/recipes/a.cook");
+    expect(a.subRecipes[0]!.path).toBe("/shared/b.cook");
+    expect(a.subRecipes[0]!.subRecipes[0]!.path).toBe("/c.cook");
+    expect(a.subRecipes[0]!.subRecipes[0]!.subRecipes[0]!.path).toBe("/d.cook");
+
+    const root = await resolver.resolve(new Recipe("Add @./x/../../e{}."));
+    expect(root.subRecipes[0]!.path).toBe("../e.cook");
+  });
+
+  it("should use the parse options for the loaded recipes", async () => {
+    const resolver = new RecipeResolver(
+      new InMemoryRecipeLoader({
+        "sauce.cook": "Add @sel{1%cuillère à café}.",
+      }),
+      { locale: "fr" },
+    );
+    const recipe = await resolver.load("sauce.cook");
+    expect(recipe.recipe.ingredients[0]!.unit).toBe("cuillère à café");
+    expect(recipe.recipe.units?.get("cuillère à café")?.name).toBe("tsp");
+  });
+
+  it("should load and parse each recipe only once", async () => {
+    const loader = new InMemoryRecipeLoader({
+      ...recipes,
+      "menu.cook":
+        "Make @./mains/pizza{} and @./mains/pizza dough{} for tomorrow.",
+    });
+    const load = vi.spyOn(loader, "load");
+    const resolver = new RecipeResolver(loader);
+
+    const menu = await resolver.load("menu.cook");
+    expect(menu.subRecipes[1]!.recipe).toBe(
+      menu.subRecipes[0]!.subRecipes[1]!.recipe,
+    );
+    expect(load).toHaveBeenCalledTimes(5);
+
+    await resolver.load("menu.cook");
+    expect(load).toHaveBeenCalledTimes(5);
+
+    resolver.clearCache();
+    await resolver.load("menu.cook");
+    expect(load).toHaveBeenCalledTimes(10);
+  });
+
+  it("should report the chain of circular references", async () => {
+    const resolver = new RecipeResolver(
+      new InMemoryRecipeLoader({
+        "a.cook": "Add @./b{}.",
+        "b.cook": "Add @./sub/c{}.",
+        "sub/c.cook": "Add @@../b{}.",
+        "self.cook": "Add @@self{}.",
+      }),
+    );
+
+    const error = (await resolver
+      .load("a.cook")
+      .catch((e: unknown) => e)) as CircularRecipeReferenceError;
+    expect(error).toBeInstanceOf(CircularRecipeReferenceError);
+    expect(error.chain).toEqual(["a.cook", "b.cook", "sub/c.cook", "b.cook"]);
+    expect(error.message).toBe(
+      "Circular recipe reference: a.cook -> b.cook -> sub/c.cook -> b.cook",
+    );
+
+    await expect(resolver.load("self.cook")).rejects.toThrow(
+      "Circular recipe reference: self.cook -> self.cook",
+    );
+  });
+
+  it("should report missing recipes, and retry loading them", async () => {
+    const loader = new InMemoryRecipeLoader({ "a.cook": "Add @./b{}." });
+    const resolver = new RecipeResolver(loader);
+
+    await expect(resolver.load("a.cook")).rejects.toThrow(RecipeNotFoundError);
+    await expect(resolver.load("a.cook")).rejects.toThrow(
+      "Recipe not found: b.cook",
+    );
+
+    loader.set("./b.cook", "Add @salt.");
+    const a = await resolver.load("a.cook");
+    expect(a.subRecipes[0]!.recipe.ingredients[0]!.name).toBe("salt");
+  });
+});
+
+describe("FileSystemRecipeLoader", () => {
+  it("should load recipes from files", async () => {
+    const root = mkdtempSync(join(tmpdir(), "cooklang-"));
+    try {
+      for (const [path, content] of Object.entries(recipes)) {
+        mkdirSync(join(root, path, ".."), { recursive: true });
+        writeFileSync(join(root, path), content);
+      }
+      const loader = new FileSystemRecipeLoader(root);
+      expect(loader.root).toBe(root);
+      expect(await loader.load("mains/yeast.cook")).toBe(
+        recipes["mains/yeast.cook"],
+      );
+
+      const pizza = await new RecipeResolver(loader).load("mains/pizza.cook");
+      expect(pizza.subRecipes[1]!.subRecipes[0]!.path).toBe("mains/yeast.cook");
+
+      await expect(loader.load("missing.cook")).rejects.toThrow(
+        RecipeNotFoundError,
+      );
+      await expect(loader.load("mains")).rejects.toThrow("EISDIR");
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it("should resolve paths against the current directory by default", () => {
+    expect(new FileSystemRecipeLoader().root).toBe(".");
+  });
+});
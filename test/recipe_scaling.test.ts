@@ -1,4 +1,5 @@
 import { describe, it, expect } from "vitest";
+import Big from "big.js";
 import { Recipe } from "../src/classes/recipe";
 import {
   recipeToScale,
@@ -158,6 +159,14 @@ describe("scaleBy", () => {
     });
   });
 
+  it("should turn fractions into decimals when scaled by non-integer factors", () => {
+    const scaledRecipe = baseRecipe.scaleBy(1.37);
+    expect(scaledRecipe.ingredients[1]!.quantity).toEqual({
+      type: "fixed",
+      value: { type: "decimal", value: 0.69 },
+    });
+  });
+
   it("should update the servings property", () => {
     const scaledRecipe = baseRecipe.scaleBy(2);
     expect(scaledRecipe.servings).toBe(4);
@@ -216,6 +225,22 @@ serves: 2, some
     expect(scaledRecipe.metadata.serves).toBe("2, some");
   });
 
+  it("should scale yields with a unit", () => {
+    const recipe = new Recipe(`
+---
+yield: 800%g
+---
+Mix @flour{500%g}
+`);
+    expect(recipe.servings).toBe(800);
+    const scaledRecipe = recipe.scaleBy(2);
+    expect(scaledRecipe.metadata.yield).toBe("1600%g");
+    expect(scaledRecipe.ingredients[0]!.quantity).toEqual({
+      type: "fixed",
+      value: { type: "decimal", value: 1000 },
+    });
+  });
+
   it("should not scale fixed quantities", () => {
     const recipe = new Recipe(recipeToScaleSomeFixedQuantities);
     const scaledRecipe = recipe.scaleBy(2);
@@ -229,3 +254,227 @@ serves: 2, some
     });
   });
 });
+
+describe("timer scaling", () => {
+  const recipe = new Recipe(`---
+servings: 2
+---
+Roast @chicken{1%kg} for ~roast{*60%minutes}, rest ~rest{10%minutes}.
+Simmer for ~{1-2%h} then ~{a while%minutes}.`);
+
+  it("should only scale marked timers by default", () => {
+    const scaledRecipe = recipe.scaleTo(4);
+    expect(scaledRecipe.timers[0]).toEqual({
+      name: "roast",
+      duration: { type: "fixed", value: { type: "decimal", value: 120 } },
+      unit: "minutes",
+      scalable: true,
+      originalDuration: {
+        type: "fixed",
+        value: { type: "decimal", value: 60 },
+      },
+    });
+    expect(scaledRecipe.timers.slice(1)).toEqual(recipe.timers.slice(1));
+    expect(recipe.timers[0]!.duration).toEqual({
+      type: "fixed",
+      value: { type: "decimal", value: 60 },
+    });
+  });
+
+  it("should not scale timers with policy none", () => {
+    const scaledRecipe = recipe.scaleBy(2, { timers: "none" });
+    expect(scaledRecipe.timers).toEqual(recipe.timers);
+  });
+
+  it("should scale all timers linearly", () => {
+    const scaledRecipe = recipe.scaleBy(2, { timers: "linear" });
+    expect(scaledRecipe.timers.map((timer) => timer.duration)).toEqual([
+      { type: "fixed", value: { type: "decimal", value: 120 } },
+      { type: "fixed", value: { type: "decimal", value: 20 } },
+      {
+        type: "range",
+        min: { type: "decimal", value: 2 },
+        max: { type: "decimal", value: 4 },
+      },
+      { type: "fixed", value: { type: "text", value: "a while" } },
+    ]);
+    expect(scaledRecipe.timers[3]!.originalDuration).toBeUndefined();
+  });
+
+  it("should scale timers with an exponent", () => {
+    const scaledRecipe = recipe.scaleBy(8, { timers: { exponent: 2 / 3 } });
+    expect(scaledRecipe.timers[0]!.duration).toEqual({
+      type: "fixed",
+      value: { type: "decimal", value: 240 },
+    });
+  });
+
+  it("should scale timers with a custom policy", () => {
+    const scaledRecipe = recipe.scaleBy(2, {
+      timers: (timer, factor) => (timer.name === "rest" ? factor * 1.5 : 1),
+    });
+    expect(scaledRecipe.timers[0]!.duration).toEqual(
+      recipe.timers[0]!.duration,
+    );
+    expect(scaledRecipe.timers[1]!.duration).toEqual({
+      type: "fixed",
+      value: { type: "decimal", value: 30 },
+    });
+  });
+
+  it("should keep the original duration when scaling several times", () => {
+    const scaledRecipe = recipe.scaleBy(2).scaleBy(2);
+    expect(scaledRecipe.timers[0]!.duration).toEqual({
+      type: "fixed",
+      value: { type: "decimal", value: 240 },
+    });
+    expect(scaledRecipe.timers[0]!.originalDuration).toEqual({
+      type: "fixed",
+      value: { type: "decimal", value: 60 },
+    });
+  });
+});
+
+describe("cookware scaling", () => {
+  const recipe = new Recipe(`---
+servings: 4
+---
+Spread on #baking trays{*2} and #&baking trays{1/2}, using #bowls{3} and #spoon{a few}.
+Cook in #pans{*1-2} with #&bowls{*1} and #-lid{*some}.`);
+
+  it("should only scale marked cookware by default, rounding up", () => {
+    const scaledRecipe = recipe.scaleTo(6);
+    expect(scaledRecipe.cookware[0]).toEqual({
+      name: "baking trays",
+      quantity: { type: "fixed", value: { type: "decimal", value: 4 } },
+      quantityParts: [
+        { type: "fixed", value: { type: "decimal", value: 3 } },
+        { type: "fixed", value: { type: "decimal", value: 1 } },
+      ],
+      flags: [],
+      scalable: true,
+    });
+    // Each quantity part is rounded up: 3 * 1.5 => 5 and 1 * 1.5 => 2
+    expect(scaledRecipe.cookware[1]!.quantity).toEqual({
+      type: "fixed",
+      value: { type: "decimal", value: 7 },
+    });
+    expect(scaledRecipe.cookware[2]).toEqual(recipe.cookware[2]);
+    expect(scaledRecipe.cookware[3]!.quantity).toEqual({
+      type: "range",
+      min: { type: "decimal", value: 2 },
+      max: { type: "decimal", value: 3 },
+    });
+    expect(scaledRecipe.cookware[4]).toEqual(recipe.cookware[4]);
+  });
+
+  it("should not scale cookware with policy none", () => {
+    const scaledRecipe = recipe.scaleBy(2, { cookware: "none" });
+    expect(scaledRecipe.cookware).toEqual(recipe.cookware);
+  });
+
+  it("should scale all cookware", () => {
+    const scaledRecipe = recipe.scaleBy(Big(1).div(3), { cookware: "all" });
+    expect(scaledRecipe.cookware.map((cookware) => cookware.quantity)).toEqual([
+      { type: "fixed", value: { type: "decimal", value: 2 } },
+      { type: "fixed", value: { type: "decimal", value: 2 } },
+      { type: "fixed", value: { type: "text", value: "a few" } },
+      {
+        type: "range",
+        min: { type: "decimal", value: 1 },
+        max: { type: "decimal", value: 1 },
+      },
+      { type: "fixed", value: { type: "text", value: "some" } },
+    ]);
+  });
+});
+
+describe("convertTo", () => {
+  const recipe = new Recipe(
+    "Mix @flour{500%g} with @milk{250%ml}, @&flour{=1%kg}, @salt{1%pinch}, @eggs{2} and @pepper.",
+  );
+
+  it("should convert ingredient quantities and their parts", () => {
+    const converted = recipe.convertTo("us");
+    expect(converted.ingredients[0]).toMatchObject({
+      name: "flour",
+      quantity: { type: "fixed", value: { type: "decimal", value: 3.31 } },
+      unit: "lb",
+      quantityParts: [
+        {
+          value: { type: "fixed", value: { type: "decimal", value: 1.1 } },
+          unit: "lb",
+          scalable: true,
+        },
+        {
+          value: { type: "fixed", value: { type: "decimal", value: 2.2 } },
+          unit: "lb",
+          scalable: false,
+        },
+      ],
+    });
+    expect(converted.ingredients[1]).toMatchObject({
+      quantity: { type: "fixed", value: { type: "decimal", value: 1 } },
+      unit: "cup",
+    });
+    expect(converted.ingredients.slice(2)).toEqual(recipe.ingredients.slice(2));
+    expect(recipe.ingredients[1]!.unit).toBe("ml");
+  });
+
+  it("should convert US customary and metric volumes alike to the imperial system", () => {
+    const converted = new Recipe(
+      "Mix @milk{2%cup} with @water{500%ml}.",
+    ).convertTo("imperial");
+    expect(
+      converted.ingredients.map(({ quantity, unit }) => ({ quantity, unit })),
+    ).toEqual([
+      {
+        quantity: { type: "fixed", value: { type: "decimal", value: 16.7 } },
+        unit: "imp-fl-oz",
+      },
+      {
+        quantity: { type: "fixed", value: { type: "decimal", value: 17.6 } },
+        unit: "imp-fl-oz",
+      },
+    ]);
+  });
+
+  it("should convert back to the metric system", () => {
+    const converted = recipe.convertTo("us").convertTo("metric");
+    expect(converted.ingredients[1]).toMatchObject({
+      quantity: { type: "fixed", value: { type: "decimal", value: 237 } },
+      unit: "ml",
+    });
+  });
+});
+
+describe("humanize", () => {
+  it("should humanize ingredient quantities and their parts", () => {
+    const recipe = new Recipe(
+      "Mix @flour{750%g} and @&flour{500%g} with @salt{1/2%tsp} and @eggs{2}.",
+    );
+    const humanized = recipe.scaleBy(2).humanize();
+    expect(humanized.ingredients[0]).toMatchObject({
+      quantity: { type: "fixed", value: { type: "decimal", value: 2.5 } },
+      unit: "kg",
+      quantityParts: [
+        {
+          value: { type: "fixed", value: { type: "decimal", value: 1.5 } },
+          unit: "kg",
+        },
+        {
+          value: { type: "fixed", value: { type: "decimal", value: 1 } },
+          unit: "kg",
+        },
+      ],
+    });
+    expect(humanized.ingredients[1]).toMatchObject({
+      quantity: { type: "fixed", value: { type: "decimal", value: 1 } },
+      unit: "tsp",
+    });
+    expect(humanized.ingredients[2]!.quantity).toEqual({
+      type: "fixed",
+      value: { type: "decimal", value: 4 },
+    });
+  });
+});
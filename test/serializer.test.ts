@@ -0,0 +1,229 @@
+import { describe, it, expect } from "vitest";
+import { Recipe } from "../src/classes/recipe";
+import { Section } from "../src/classes/section";
+import {
+  stringifyNumericValue,
+  stringifyQuantityValue,
+  serializeMetadata,
+  serializeRecipe,
+} from "../src/serializer";
+import {
+  simpleRecipe,
+  complexRecipe,
+  recipeToScale,
+  recipeToScaleSomeFixedQuantities,
+} from "./fixtures/recipes";
+
+// Diagnostics are not compared as cookware references which could not be added are serialized as new items
+const expectRoundTrip = (content: string) => {
+  const recipe = new Recipe(content);
+  const parsedBack = new Recipe(recipe.toCooklang());
+  expect({ ...parsedBack, diagnostics: [] }).toEqual({
+    ...recipe,
+    diagnostics: [],
+  });
+};
+
+describe("stringifyNumericValue", () => {
+  it("should stringify decimals and fractions", () => {
+    expect(stringifyNumericValue({ type: "decimal", value: 1.5 })).toBe("1.5");
+    expect(stringifyNumericValue({ type: "fraction", num: 1, den: 2 })).toBe(
+      "1/2",
+    );
+  });
+});
+
+describe("stringifyQuantityValue", () => {
+  it("should stringify fixed values", () => {
+    expect(
+      stringifyQuantityValue({
+        type: "fixed",
+        value: { type: "text", value: "a pinch" },
+      }),
+    ).toBe("a pinch");
+    expect(
+      stringifyQuantityValue({
+        type: "fixed",
+        value: { type: "decimal", value: 2 },
+      }),
+    ).toBe("2");
+  });
+
+  it("should stringify ranges", () => {
+    expect(
+      stringifyQuantityValue({
+        type: "range",
+        min: { type: "fraction", num: 1, den: 4 },
+        max: { type: "decimal", value: 0.5 },
+      }),
+    ).toBe("1/4-0.5");
+  });
+});
+
+describe("serializeMetadata", () => {
+  it("should return an empty string if there is no metadata", () => {
+    expect(serializeMetadata({})).toBe("");
+  });
+
+  it("should skip undefined values", () => {
+    expect(serializeMetadata({ title: "Pancakes", author: undefined })).toBe(
+      "---\ntitle: Pancakes\n---",
+    );
+  });
+
+  it("should quote values which YAML would read differently", () => {
+    expect(
+      serializeMetadata({ title: "Pancakes: the best", author: "#1" }),
+    ).toBe('---\ntitle: "Pancakes: the best"\nauthor: "#1"\n---');
+    expect(
+      serializeMetadata({
+        custom: { batch: "5", checked: "true", note: "null", count: 5 },
+        servings: "4",
+        author: "null",
+      }),
+    ).toBe(
+      '---\nservings: 4\nauthor: "null"\nbatch: "5"\nchecked: "true"\nnote: "null"\ncount: 5\n---',
+    );
+  });
+
+  it("should read back the same list items", () => {
+    const recipe = new Recipe("Mix @flour{100%g}.");
+    recipe.metadata.tags = ["#vegan", "quick: 10 min", "easy"];
+    expect(serializeMetadata(recipe.metadata)).toBe(`---
+tags:
+  - "#vegan"
+  - "quick: 10 min"
+  - easy
+---`);
+    expect(new Recipe(recipe.toCooklang()).metadata.tags).toEqual([
+      "#vegan",
+      "quick: 10 min",
+      "easy",
+    ]);
+  });
+
+  it("should serialize custom entries after standard ones", () => {
+    expect(
+      serializeMetadata({
+        custom: { rating: 4.5, nutrition: { calories: 450 }, vegan: true },
+        title: "Pancakes",
+      }),
+    ).toBe(`---
+title: Pancakes
+rating: 4.5
+nutrition:
+  calories: 450
+vegan: true
+---`);
+  });
+
+  it("should serialize strings and lists", () => {
+    expect(
+      serializeMetadata({
+        title: "Pancakes",
+        servings: "2, a few",
+        tags: ["breakfast", "easy"],
+      }),
+    ).toBe(`---
+title: Pancakes
+servings: 2, a few
+tags:
+  - breakfast
+  - easy
+---`);
+  });
+});
+
+describe("serializeRecipe", () => {
+  it("should serialize sections, steps and notes", () => {
+    const recipe = new Recipe(`
+= Dough
+Mix @flour{100%g} with @water{60%ml}.
+
+> Let it rest.
+
+== Topping ==
+Add @&flour{10%g} on top.`);
+    expect(serializeRecipe(recipe)).toBe(`== Dough ==
+
+Mix @flour{100%g} with @water{60%ml}.
+
+> Let it rest.
+
+== Topping ==
+
+Add @&flour{10%g} on top.
+`);
+  });
+
+  it("should serialize modifiers, aliases, fixed quantities and preparations", () => {
+    const recipe = new Recipe(
+      "Add @-?salt(fine), @flour tipo 00|flour{=100%g}, @&flour tipo 00{1/2-1%kg} and @@pizza dough{1}",
+    );
+    expect(recipe.toCooklang()).toBe(
+      "Add @-?salt(fine), @flour tipo 00|flour{=100%g}, @&flour tipo 00{1/2-1%kg} and @@pizza dough{1}\n",
+    );
+  });
+
+  it("should serialize cookware and timers", () => {
+    const recipe = new Recipe(
+      "Use a #-?big pot{2}, the #&big pot{1} and ~rest{5-10%minutes} then ~{1%h}",
+    );
+    expect(recipe.toCooklang()).toBe(
+      "Use a #-?big pot{2}, the #&big pot{1} and ~rest{5-10%minutes} then ~{1%h}\n",
+    );
+  });
+
+  it("should keep the scalable marker of cookware", () => {
+    const recipe = new Recipe("Use #trays{2}, #&trays{*1} and #pan");
+    expect(recipe.toCooklang()).toBe("Use #trays{*2}, #&trays{*1} and #pan\n");
+  });
+
+  it("should keep the scalable marker of timers", () => {
+    const recipe = new Recipe("Roast for ~{*1%h} then rest ~{10%min}");
+    expect(recipe.toCooklang()).toBe("Roast for ~{*1%h} then rest ~{10%min}\n");
+  });
+
+  it("should only add braces to single-word items when needed", () => {
+    const recipe = new Recipe(
+      "Add @salt{}, @pepper{}and @oil{}.more in #pan{}",
+    );
+    expect(recipe.toCooklang()).toBe(
+      "Add @salt, @pepper{}and @oil{}.more in #pan\n",
+    );
+  });
+
+  it("should serialize ingredients without flags", () => {
+    const recipe = new Recipe();
+    recipe.ingredients = [{ name: "salt" }];
+    const section = new Section();
+    section.content.push({
+      type: "step",
+      items: [{ type: "ingredient", index: 0, displayName: "salt" }],
+    });
+    recipe.sections = [section];
+    expect(recipe.toCooklang()).toBe("@salt\n");
+  });
+
+  it("should produce equivalent recipes when parsed back", () => {
+    expectRoundTrip(simpleRecipe);
+    expectRoundTrip(complexRecipe);
+    expectRoundTrip(recipeToScale);
+    expectRoundTrip(recipeToScaleSomeFixedQuantities);
+    expectRoundTrip(
+      "Add @flour{100%g} and @&flour{1%cup}, in a #pan{1} and #&pan{a big one}",
+    );
+  });
+
+  it("should serialize scaled recipes", () => {
+    const recipe = new Recipe(recipeToScale).scaleBy(2);
+    expect(recipe.toCooklang()).toBe(`---
+servings: 4
+yield: 4
+serves: 4
+---
+
+Mix @flour{100%g} with some more @&flour{100%g}, @sugar{1%tsp}, @eggs{4-6} and @milk
+`);
+  });
+});
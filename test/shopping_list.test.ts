@@ -1,6 +1,11 @@
 import { describe, it, expect } from "vitest";
 import { ShoppingList } from "../src/classes/shopping_list";
 import { CategoryConfig } from "../src/classes/category_config";
+import { DensityRegistry } from "../src/classes/density_registry";
+import { UnitRegistry } from "../src/classes/unit_registry";
+import { Pantry } from "../src/classes/pantry";
+import { RecipeResolver } from "../src/classes/recipe_resolver";
+import { InMemoryRecipeLoader } from "../src/classes/in_memory_recipe_loader";
 import type { CategorizedIngredients, Ingredient } from "../src/types";
 import { Recipe } from "../src/classes/recipe";
 import {
@@ -439,4 +444,376 @@ sugar
       );
     });
   });
+
+  describe("Adding mass and volume quantities", () => {
+    it("should add them once a density registry is set", () => {
+      const shoppingList = new ShoppingList();
+      shoppingList.add_recipe(new Recipe("Mix @butter{100%g}."));
+      shoppingList.add_recipe(new Recipe("Melt @butter{1/2%cup}."));
+      expect(shoppingList.ingredients).toHaveLength(2);
+
+      shoppingList.set_density_registry(new DensityRegistry());
+      expect(shoppingList.ingredients).toEqual([
+        {
+          name: "butter",
+          quantity: {
+            type: "fixed",
+            value: { type: "decimal", value: 213.56 },
+          },
+          unit: "g",
+        },
+      ]);
+      expect(shoppingList.categories!.other).toBe(shoppingList.ingredients);
+
+      shoppingList.set_density_registry();
+      expect(shoppingList.ingredients).toHaveLength(2);
+    });
+  });
+
+  describe("Using a unit registry", () => {
+    it("should add quantities with the units of the registry", () => {
+      const shoppingList = new ShoppingList();
+      shoppingList.add_recipe(new Recipe("Cook @rice{1%go}."));
+      shoppingList.add_recipe(new Recipe("Cook @rice{360%ml}."));
+      expect(shoppingList.ingredients).toHaveLength(2);
+
+      const units = new UnitRegistry();
+      units.add({
+        name: "go",
+        type: "volume",
+        system: "japanese",
+        aliases: [],
+        toBase: 180,
+      });
+      shoppingList.set_unit_registry(units);
+      shoppingList.set_humanize_options({});
+      expect(shoppingList.ingredients).toEqual([
+        {
+          name: "rice",
+          quantity: { type: "fixed", value: { type: "decimal", value: 540 } },
+          unit: "ml",
+        },
+      ]);
+    });
+  });
+
+  describe("Adding localized recipes", () => {
+    it("should add quantities with localized units", () => {
+      const shoppingList = new ShoppingList();
+      shoppingList.add_recipe(
+        new Recipe("Mélanger @sucre{1%cuillère à soupe}", { locale: "fr" }),
+      );
+      shoppingList.add_recipe(new Recipe("Add @sucre{1%tsp}"));
+      shoppingList.add_recipe(new Recipe("Add @sucre{1%spoon}"));
+      expect(shoppingList.ingredients).toEqual([
+        {
+          name: "sucre",
+          quantity: { type: "fixed", value: { type: "decimal", value: 1.33 } },
+          unit: "tbsp",
+        },
+        {
+          name: "sucre",
+          quantity: { type: "fixed", value: { type: "decimal", value: 1 } },
+          unit: "spoon",
+        },
+      ]);
+    });
+  });
+
+  describe("Humanizing quantities", () => {
+    const recipe = new Recipe(
+      "Mix @flour{750%g}, @salt{3%tsp}, @eggs{2}, @sugar{some} and @pepper.",
+    );
+
+    it("should humanize quantities once set, and stop when unset", () => {
+      const shoppingList = new ShoppingList();
+      shoppingList.add_recipe(recipe, { factor: 2 });
+      shoppingList.set_humanize_options({});
+      expect(shoppingList.ingredients).toEqual([
+        {
+          name: "flour",
+          quantity: { type: "fixed", value: { type: "decimal", value: 1.5 } },
+          unit: "kg",
+        },
+        {
+          name: "salt",
+          quantity: { type: "fixed", value: { type: "decimal", value: 2 } },
+          unit: "tbsp",
+        },
+        {
+          name: "eggs",
+          quantity: { type: "fixed", value: { type: "decimal", value: 4 } },
+        },
+        {
+          name: "sugar",
+          quantity: { type: "fixed", value: { type: "text", value: "some" } },
+        },
+        { name: "pepper" },
+      ]);
+      expect(shoppingList.categories!.other).toBe(shoppingList.ingredients);
+
+      shoppingList.set_humanize_options(false);
+      expect(shoppingList.humanize_options).toBeUndefined();
+      expect(shoppingList.ingredients[0]!.unit).toBe("g");
+    });
+
+    it("should humanize the quantities of added recipes", () => {
+      const shoppingList = new ShoppingList();
+      shoppingList.set_humanize_options({ units: [{ name: "g", min: 0 }] });
+      shoppingList.add_recipe(recipe, { factor: 2 });
+      expect(shoppingList.ingredients[0]!.unit).toBe("g");
+      expect(shoppingList.ingredients[1]!.unit).toBe("tsp");
+    });
+  });
+
+  describe("Deducting the pantry", () => {
+    const recipe = new Recipe(
+      "Mix @flour{750%g}, @milk{50%cl}, @eggs{2}, @butter{1/2%cup}, @sugar{some}, @salt and @pepper{1%tsp}.",
+    );
+
+    it("should deduct the pantry from the quantities and mark the ingredients", () => {
+      const shoppingList = new ShoppingList();
+      shoppingList.add_recipe(recipe);
+      shoppingList.set_pantry(`
+        [cupboard]
+        flour = 1%kg
+        sugar = 1%kg
+        salt
+        pepper = 1/2%tsp
+        [fridge]
+        milk = 2%dl
+        eggs = 0
+        butter = 100%g
+      `);
+      expect(shoppingList.pantry).toBeInstanceOf(Pantry);
+      expect(shoppingList.ingredients).toEqual([
+        {
+          name: "flour",
+          quantity: { type: "fixed", value: { type: "decimal", value: 0 } },
+          unit: "g",
+          pantryStatus: "covered",
+        },
+        {
+          name: "milk",
+          quantity: { type: "fixed", value: { type: "decimal", value: 30 } },
+          unit: "cl",
+          pantryStatus: "partial",
+        },
+        {
+          name: "eggs",
+          quantity: { type: "fixed", value: { type: "decimal", value: 2 } },
+          pantryStatus: "needed",
+        },
+        {
+          name: "butter",
+          quantity: {
+            type: "fixed",
+            value: { type: "fraction", num: 1, den: 2 },
+          },
+          unit: "cup",
+          pantryStatus: "needed",
+        },
+        {
+          name: "sugar",
+          quantity: { type: "fixed", value: { type: "text", value: "some" } },
+          pantryStatus: "needed",
+        },
+        { name: "salt", pantryStatus: "covered" },
+        {
+          name: "pepper",
+          quantity: { type: "fixed", value: { type: "decimal", value: 0.5 } },
+          unit: "tsp",
+          pantryStatus: "partial",
+        },
+      ]);
+      expect(shoppingList.categories!.other).toBe(shoppingList.ingredients);
+
+      shoppingList.set_pantry();
+      expect(shoppingList.pantry).toBeUndefined();
+      expect(shoppingList.ingredients[0]).toEqual({
+        name: "flour",
+        quantity: { type: "fixed", value: { type: "decimal", value: 750 } },
+        unit: "g",
+      });
+    });
+
+    it("should use the density registry to compare masses and volumes", () => {
+      const shoppingList = new ShoppingList();
+      shoppingList.add_recipe(recipe);
+      shoppingList.set_density_registry(new DensityRegistry());
+      shoppingList.set_pantry(new Pantry("butter = 100%g"));
+      expect(shoppingList.ingredients[3]).toEqual({
+        name: "butter",
+        quantity: { type: "fixed", value: { type: "decimal", value: 0.06 } },
+        unit: "cup",
+        pantryStatus: "partial",
+      });
+    });
+
+    it("should share the pantry between ingredients listed separately", () => {
+      const shoppingList = new ShoppingList();
+      shoppingList.add_recipe(new Recipe("Add @rice{200%g} and @rice{1%bag}."));
+      shoppingList.add_recipe(new Recipe("Add @rice{300%g}."));
+      shoppingList.set_pantry("rice = 400%g");
+      expect(shoppingList.ingredients).toEqual([
+        {
+          name: "rice",
+          quantity: { type: "fixed", value: { type: "decimal", value: 100 } },
+          unit: "g",
+          pantryStatus: "partial",
+        },
+        {
+          name: "rice",
+          quantity: { type: "fixed", value: { type: "decimal", value: 1 } },
+          unit: "bag",
+          pantryStatus: "needed",
+        },
+      ]);
+    });
+
+    it("should deduct the pantry before humanizing the quantities", () => {
+      const shoppingList = new ShoppingList();
+      shoppingList.set_humanize_options({});
+      shoppingList.set_pantry("flour = 250%g");
+      shoppingList.add_recipe(recipe, { factor: 2 });
+      expect(shoppingList.ingredients[0]).toEqual({
+        name: "flour",
+        quantity: { type: "fixed", value: { type: "decimal", value: 1.25 } },
+        unit: "kg",
+        pantryStatus: "partial",
+      });
+    });
+  });
+
+  describe("Expanding referenced recipes", () => {
+    const loader = new InMemoryRecipeLoader({
+      "pizza.cook":
+        "---\nservings: 2\n---\nSpread @./sauces/tomato sauce{200%g} on @./pizza dough{1}, add @mozzarella{125%g} and @basil.",
+      "pizza dough.cook":
+        "Mix @flour{500%g}, @water{300%ml}, @salt{1%tsp} and @@yeast{}.",
+      "yeast.cook": "Feed @sugar{5%g} to @dry yeast{7%g}.",
+      "sauces/tomato sauce.cook":
+        "---\nyield: 400%g\n---\nCook @tomatoes{400%g} with @salt{1%tsp} and @-@../basil{}.",
+      "basil.cook": "Pick @basil leaves{10}.",
+      "focaccia.cook":
+        "Knead @flour{100%g} into @./pizza dough{1} and drizzle with @olive oil{2%tbsp}.",
+    });
+    const resolver = new RecipeResolver(loader);
+
+    it("should expand referenced recipes into their scaled ingredients", async () => {
+      const shoppingList = new ShoppingList();
+      shoppingList.add_recipe(await resolver.load("pizza.cook"), {
+        servings: 4,
+      });
+      expect(shoppingList.recipes[0]!.subRecipes).toHaveLength(2);
+      expect(shoppingList.ingredients).toEqual([
+        {
+          name: "tomatoes",
+          quantity: { type: "fixed", value: { type: "decimal", value: 400 } },
+          unit: "g",
+          sources: ["sauces/tomato sauce.cook"],
+        },
+        {
+          name: "salt",
+          quantity: { type: "fixed", value: { type: "decimal", value: 3 } },
+          unit: "tsp",
+          sources: ["sauces/tomato sauce.cook", "pizza dough.cook"],
+        },
+        {
+          name: "flour",
+          quantity: { type: "fixed", value: { type: "decimal", value: 1000 } },
+          unit: "g",
+          sources: ["pizza dough.cook"],
+        },
+        {
+          name: "water",
+          quantity: { type: "fixed", value: { type: "decimal", value: 600 } },
+          unit: "ml",
+          sources: ["pizza dough.cook"],
+        },
+        {
+          name: "sugar",
+          quantity: { type: "fixed", value: { type: "decimal", value: 5 } },
+          unit: "g",
+          sources: ["yeast.cook"],
+        },
+        {
+          name: "dry yeast",
+          quantity: { type: "fixed", value: { type: "decimal", value: 7 } },
+          unit: "g",
+          sources: ["yeast.cook"],
+        },
+        {
+          name: "mozzarella",
+          quantity: { type: "fixed", value: { type: "decimal", value: 250 } },
+          unit: "g",
+          sources: ["pizza.cook"],
+        },
+        // Hidden references are not expanded either
+        { name: "basil", sources: ["pizza.cook"] },
+      ]);
+    });
+
+    it("should list the added recipe among the sources of the ingredients", async () => {
+      const shoppingList = new ShoppingList();
+      shoppingList.add_recipe(await resolver.load("focaccia.cook"));
+      expect(shoppingList.ingredients[0]).toEqual({
+        name: "flour",
+        quantity: { type: "fixed", value: { type: "decimal", value: 600 } },
+        unit: "g",
+        sources: ["focaccia.cook", "pizza dough.cook"],
+      });
+    });
+
+    it("should list ready-made recipes as ingredients", async () => {
+      const shoppingList = new ShoppingList();
+      shoppingList.add_recipe(await resolver.load("pizza.cook"));
+      shoppingList.set_ready_made_recipes(["Pizza Dough", "yeast.cook"]);
+      expect(shoppingList.ingredients.map((i) => i.name)).toEqual([
+        "tomatoes",
+        "salt",
+        "pizza dough",
+        "mozzarella",
+        "basil",
+      ]);
+      expect(shoppingList.ingredients[2]).toEqual({
+        name: "pizza dough",
+        quantity: { type: "fixed", value: { type: "decimal", value: 1 } },
+        sources: ["pizza.cook"],
+      });
+
+      shoppingList.set_ready_made_recipes();
+      expect(shoppingList.ingredients).toHaveLength(8);
+    });
+
+    it("should load recipes with the recipe resolver", async () => {
+      const shoppingList = new ShoppingList();
+      await expect(shoppingList.add_recipe_from("pizza.cook")).rejects.toThrow(
+        "No recipe resolver set",
+      );
+
+      shoppingList.add_recipe(new Recipe("Dust with @flour{100%g}."));
+      shoppingList.set_recipe_resolver(resolver);
+      expect(shoppingList.recipe_resolver).toBe(resolver);
+      await shoppingList.add_recipe_from("pizza.cook", { factor: 2 });
+      await shoppingList.add_recipe_from("pizza.cook");
+      expect(shoppingList.ingredients[0]).toEqual({
+        name: "flour",
+        quantity: { type: "fixed", value: { type: "decimal", value: 1600 } },
+        unit: "g",
+        sources: ["pizza dough.cook"],
+      });
+    });
+
+    it("should not expand the references of recipes added without them", async () => {
+      const shoppingList = new ShoppingList();
+      shoppingList.add_recipe((await resolver.load("pizza.cook")).recipe);
+      expect(shoppingList.ingredients.map((i) => i.name)).toEqual([
+        "tomato sauce",
+        "pizza dough",
+        "mozzarella",
+        "basil",
+      ]);
+    });
+  });
 });
@@ -0,0 +1,417 @@
+import { describe, it, expect } from "vitest";
+import { Recipe } from "../src/classes/recipe";
+import { RecipeResolver } from "../src/classes/recipe_resolver";
+import { InMemoryRecipeLoader } from "../src/classes/in_memory_recipe_loader";
+import {
+  flattenRecipe,
+  getSubRecipeFactor,
+  scaleSubRecipes,
+} from "../src/sub_recipes";
+
+const factor = (reference: string, recipe: string) =>
+  getSubRecipeFactor(
+    new Recipe(reference).ingredients[0]!,
+    new Recipe(recipe),
+  )?.toNumber();
+
+describe("getSubRecipeFactor", () => {
+  it("should use the yield for references with a unit", () => {
+    const bechamel = "---\nyield: 800%g\n---\nMelt @butter{80%g}";
+    expect(factor("Add @./bechamel{400%g}", bechamel)).toBe(0.5);
+    expect(factor("Add @./bechamel{1.2%kg}", bechamel)).toBe(1.5);
+    expect(
+      factor("Add @./bechamel{1/2%cup}", "---\nyield: 2 % cups\n---\n"),
+    ).toBe(0.25);
+    expect(
+      factor("Add @./bechamel{400%g}", "---\nservings: 4\nyield: 800%g\n---\n"),
+    ).toBe(0.5);
+  });
+
+  it("should not scale references whose unit does not match the yield", () => {
+    expect(
+      factor("Add @./bechamel{1%l}", "---\nyield: 800%g\n---\n"),
+    ).toBeUndefined();
+    expect(
+      factor("Add @./bechamel{400%g}", "---\nservings: 4\n---\n"),
+    ).toBeUndefined();
+    expect(
+      factor("Add @./bechamel{400%g}", "---\nyield: 0%g\n---\n"),
+    ).toBeUndefined();
+  });
+
+  it("should use the servings for references without a unit", () => {
+    expect(factor("Add @@pizza dough{2}", "---\nservings: 4\n---\n")).toBe(0.5);
+    expect(
+      factor("Add @@pizza dough{3}", "---\nyield: 2, 2 balls\n---\n"),
+    ).toBe(1.5);
+    expect(
+      factor("Add @@pizza dough{2}", "---\nservings: 4\nyield: 800%g\n---\n"),
+    ).toBe(0.5);
+  });
+
+  it("should count batches without servings", () => {
+    expect(factor("Add @@pizza dough{2}", "Mix @flour{500%g}")).toBe(2);
+    expect(factor("Add @@pizza dough{1/2}", "---\nyield: 800%g\n---\n")).toBe(
+      0.5,
+    );
+  });
+
+  it("should not scale references without a fixed quantity", () => {
+    const recipe = "---\nservings: 2\n---\n";
+    expect(factor("Add @@pizza dough{}", recipe)).toBeUndefined();
+    expect(factor("Add @@pizza dough{some}", recipe)).toBeUndefined();
+    expect(factor("Add @@pizza dough{1-2}", recipe)).toBeUndefined();
+  });
+});
+
+describe("scaleSubRecipes", () => {
+  const loader = new InMemoryRecipeLoader({
+    "lasagna.cook":
+      "---\nservings: 4\n---\nLayer @./sauces/bechamel{500%g}, @@bolognese{2} and @@pasta{}.",
+    "sauces/bechamel.cook":
+      "---\nyield: 1%kg\n---\nMelt @butter{100%g}, add @flour{100%g} and @@../stock{200%ml}.",
+    "stock.cook": "---\nyield: 1%l\n---\nBoil @water{1%l} with @bones{500%g}.",
+    "bolognese.cook":
+      "---\nservings: 4\n---\nCook @minced beef{500%g} with @tomatoes{800%g} for ~{60%minutes}.",
+    "pasta.cook": "Mix @flour{300%g} with @eggs{3}.",
+  });
+  const resolver = new RecipeResolver(loader);
+
+  it("should scale the referenced recipes recursively", async () => {
+    const lasagna = scaleSubRecipes(await resolver.load("lasagna.cook"), {
+      timers: "linear",
+    });
+    const [bechamel, bolognese, pasta] = lasagna.subRecipes;
+
+    expect(bechamel!.factor).toBe(0.5);
+    expect(bechamel!.recipe.metadata.yield).toBe("0.5%kg");
+    expect(bechamel!.recipe.ingredients[0]!.quantity).toEqual({
+      type: "fixed",
+      value: { type: "decimal", value: 50 },
+    });
+
+    const stock = bechamel!.subRecipes[0]!;
+    expect(stock.path).toBe("stock.cook");
+    expect(stock.factor).toBe(0.1);
+    expect(stock.recipe.ingredients[1]!.quantity).toEqual({
+      type: "fixed",
+      value: { type: "decimal", value: 50 },
+    });
+
+    expect(bolognese!.factor).toBe(0.5);
+    expect(bolognese!.recipe.servings).toBe(2);
+    expect(bolognese!.recipe.timers[0]!.duration).toEqual({
+      type: "fixed",
+      value: { type: "decimal", value: 30 },
+    });
+
+    expect(pasta!.factor).toBeUndefined();
+    expect(pasta!.recipe).toBe(lasagna.subRecipes[2]!.recipe);
+    expect(pasta!.subRecipes).toEqual([]);
+  });
+
+  it("should scale the referenced recipes of a scaled recipe", async () => {
+    const lasagna = await resolver.load("lasagna.cook");
+    const scaled = scaleSubRecipes(
+      await resolver.resolve(lasagna.recipe.scaleTo(8), "lasagna.cook"),
+    );
+    expect(scaled.subRecipes[0]!.factor).toBe(1);
+    expect(scaled.subRecipes[0]!.subRecipes[0]!.factor).toBe(0.2);
+    expect(scaled.subRecipes[1]!.recipe.servings).toBe(4);
+    // The original tree is left as-is
+    expect(lasagna.subRecipes[0]!.factor).toBeUndefined();
+  });
+});
+
+describe("flattenRecipe", () => {
+  const loader = new InMemoryRecipeLoader({
+    "pizza.cook":
+      "Spread @@tomato sauce{100%g} on @./pizza dough{1} on a #baking tray{1}.\n\nBake in the #oven for ~{10%minutes} with @?basil{}.",
+    "tomato sauce.cook":
+      "Cook @tomatoes{400%g}, @salt{1%tsp} and @basil{1%sprig} in a #?pan for ~{20%minutes}.",
+    "pizza dough.cook":
+      "== Mixing ==\nMix @flour{500%g}, @salt{2%tsp}, @sugar{1%pinch} and @@yeast{} in a #?bowl.\n\n== Proving ==\nLet it rise on a #baking tray{*2} in the #?oven for ~{1%hour}.",
+    "yeast.cook":
+      "> Use lukewarm water.\n\nFeed @sugar{5%g} to @dry yeast{7%g} in a #bowl{1}.",
+  });
+  const resolver = new RecipeResolver(loader);
+
+  it("should insert the sections of the referenced recipes", async () => {
+    const pizza = flattenRecipe(await resolver.load("pizza.cook"));
+    expect(pizza.sections.map((section) => section.name)).toEqual([
+      "Tomato sauce",
+      "Pizza dough: Yeast",
+      "Pizza dough: Mixing",
+      "Pizza dough: Proving",
+      "",
+    ]);
+    const sauce = pizza.sections[0]!.content[0]!;
+    expect(sauce.type === "step" && sauce.items).toEqual([
+      { type: "text", value: "Cook " },
+      {
+        type: "ingredient",
+        index: 3,
+        quantityPartIndex: 0,
+        displayName: "tomatoes",
+      },
+      { type: "text", value: ", " },
+      {
+        type: "ingredient",
+        index: 4,
+        quantityPartIndex: 0,
+        displayName: "salt",
+      },
+      { type: "text", value: " and " },
+      {
+        type: "ingredient",
+        index: 5,
+        quantityPartIndex: 0,
+        displayName: "basil",
+      },
+      { type: "text", value: " in a " },
+      { type: "cookware", index: 2 },
+      { type: "text", value: " for " },
+      { type: "timer", index: 1 },
+      { type: "text", value: "." },
+    ]);
+  });
+
+  it("should remap the ingredients, cookware and timers", async () => {
+    const resolved = await resolver.load("pizza.cook");
+    const pizza = flattenRecipe(resolved);
+
+    expect(pizza.ingredients.map((i) => i.name)).toEqual([
+      "tomato sauce",
+      "pizza dough",
+      "basil",
+      "tomatoes",
+      "salt",
+      // Not merged with the optional basil of the recipe
+      "basil",
+      "flour",
+      "sugar",
+      "yeast",
+      // Not merged with the pinch of sugar of the pizza dough
+      "sugar",
+      "dry yeast",
+    ]);
+    expect(pizza.ingredients[4]).toEqual({
+      name: "salt",
+      quantity: { type: "fixed", value: { type: "decimal", value: 3 } },
+      unit: "tsp",
+      quantityParts: [
+        {
+          value: { type: "fixed", value: { type: "decimal", value: 1 } },
+          unit: "tsp",
+          scalable: true,
+        },
+        {
+          value: { type: "fixed", value: { type: "decimal", value: 2 } },
+          unit: "tsp",
+          scalable: true,
+        },
+      ],
+      flags: [],
+    });
+    expect(pizza.ingredients[5]!.separateReference).toBeUndefined();
+    expect(pizza.ingredients[9]!.separateReference).toBe(true);
+    expect(pizza.timers.map((t) => t.duration)).toEqual([
+      { type: "fixed", value: { type: "decimal", value: 10 } },
+      { type: "fixed", value: { type: "decimal", value: 20 } },
+      { type: "fixed", value: { type: "decimal", value: 1 } },
+    ]);
+    expect(
+      pizza.cookware.map(({ name, flags, quantityParts }) => ({
+        name,
+        flags,
+        quantityParts,
+      })),
+    ).toEqual([
+      {
+        name: "baking tray",
+        flags: [],
+        quantityParts: [
+          { type: "fixed", value: { type: "decimal", value: 1 } },
+          { type: "fixed", value: { type: "decimal", value: 2 } },
+        ],
+      },
+      { name: "oven", flags: [], quantityParts: undefined },
+      { name: "pan", flags: ["optional"], quantityParts: undefined },
+      {
+        name: "bowl",
+        flags: [],
+        quantityParts: [
+          { type: "fixed", value: { type: "decimal", value: 1 } },
+        ],
+      },
+    ]);
+    expect(pizza.cookware[0]!.quantity).toEqual({
+      type: "fixed",
+      value: { type: "decimal", value: 2 },
+    });
+    expect(pizza.cookware[0]!.scalable).toBe(true);
+    expect(pizza.cookware[3]!.quantity).toEqual({
+      type: "fixed",
+      value: { type: "decimal", value: 1 },
+    });
+
+    const mixing = pizza.sections[2]!.content[0]!;
+    expect(mixing.type === "step" && mixing.items.slice(1, 4)).toEqual([
+      {
+        type: "ingredient",
+        index: 6,
+        quantityPartIndex: 0,
+        displayName: "flour",
+      },
+      { type: "text", value: ", " },
+      {
+        type: "ingredient",
+        index: 4,
+        quantityPartIndex: 1,
+        displayName: "salt",
+      },
+    ]);
+
+    const proving = pizza.sections[3]!.content[0]!;
+    expect(proving.type === "step" && proving.items).toEqual([
+      { type: "text", value: "Let it rise on a " },
+      { type: "cookware", index: 0, quantityPartIndex: 1 },
+      { type: "text", value: " in the " },
+      { type: "cookware", index: 1 },
+      { type: "text", value: " for " },
+      { type: "timer", index: 2 },
+      { type: "text", value: "." },
+    ]);
+    expect(pizza.sections[1]!.content[0]).toEqual({
+      type: "note",
+      note: "Use lukewarm water.",
+    });
+    const yeast = pizza.sections[1]!.content[1]!;
+    expect(yeast.type === "step" && yeast.items[1]).toEqual({
+      type: "ingredient",
+      index: 9,
+      quantityPartIndex: 0,
+      displayName: "sugar",
+    });
+
+    // The resolved recipes are left as-is
+    expect(resolved.recipe.cookware[0]!.quantityParts).toHaveLength(1);
+    expect(resolved.recipe.sections).toHaveLength(1);
+  });
+
+  it("should merge items without quantities, and list text quantities separately", async () => {
+    const bread = flattenRecipe(
+      await new RecipeResolver(
+        new InMemoryRecipeLoader({
+          "bread.cook":
+            "Mix @./dough{1} with @water{} on a #tray{some}, then bake in the #oven.",
+          "dough.cook":
+            "Knead @flour{500%g} and @water{300%ml} on a #tray{2}, then preheat the #oven{1}.",
+        }),
+      ).load("bread.cook"),
+    );
+    expect(
+      bread.ingredients.map(({ name, quantity }) => ({ name, quantity })),
+    ).toEqual([
+      {
+        name: "dough",
+        quantity: { type: "fixed", value: { type: "decimal", value: 1 } },
+      },
+      {
+        name: "water",
+        quantity: { type: "fixed", value: { type: "decimal", value: 300 } },
+      },
+      {
+        name: "flour",
+        quantity: { type: "fixed", value: { type: "decimal", value: 500 } },
+      },
+    ]);
+    expect(
+      bread.cookware.map(({ name, quantity }) => ({ name, quantity })),
+    ).toEqual([
+      {
+        name: "tray",
+        quantity: { type: "fixed", value: { type: "text", value: "some" } },
+      },
+      {
+        name: "oven",
+        quantity: { type: "fixed", value: { type: "decimal", value: 1 } },
+      },
+      {
+        name: "tray",
+        quantity: { type: "fixed", value: { type: "decimal", value: 2 } },
+      },
+    ]);
+    const step = bread.sections[0]!.content[0]!;
+    expect(
+      step.type === "step" && step.items.filter((i) => i.type !== "text"),
+    ).toEqual([
+      {
+        type: "ingredient",
+        index: 2,
+        quantityPartIndex: 0,
+        displayName: "flour",
+      },
+      {
+        type: "ingredient",
+        index: 1,
+        quantityPartIndex: 0,
+        displayName: "water",
+      },
+      { type: "cookware", index: 2, quantityPartIndex: 0 },
+      { type: "cookware", index: 1, quantityPartIndex: 0 },
+    ]);
+  });
+
+  it("should keep the largest quantity of cookware used by several recipes", async () => {
+    const cake = flattenRecipe(
+      await new RecipeResolver(
+        new InMemoryRecipeLoader({
+          "cake.cook":
+            "Fill @./batter{1} into #tins{3} and bake in the #oven{1}.",
+          "batter.cook": "Grease #tins{1-2} and whisk @eggs{2} in a #bowl.",
+        }),
+      ).load("cake.cook"),
+    );
+    expect(
+      cake.cookware.map(({ name, quantity }) => ({ name, quantity })),
+    ).toEqual([
+      {
+        name: "tins",
+        quantity: { type: "fixed", value: { type: "decimal", value: 3 } },
+      },
+      {
+        name: "oven",
+        quantity: { type: "fixed", value: { type: "decimal", value: 1 } },
+      },
+      { name: "bowl", quantity: undefined },
+    ]);
+  });
+
+  it("should return a copy of recipes without references", async () => {
+    const yeast = await resolver.load("yeast.cook");
+    const flattened = flattenRecipe(yeast);
+    expect(flattened).not.toBe(yeast.recipe);
+    expect(flattened.toCooklang()).toBe(yeast.recipe.toCooklang());
+  });
+
+  it("should drop the spans of the referenced recipes", async () => {
+    const pizza = flattenRecipe(
+      await new RecipeResolver(loader, { spans: true }).load("pizza.cook"),
+    );
+    expect(pizza.sections[4]!.content[0]!.span).toBeDefined();
+    expect(pizza.ingredients[0]!.span).toBeDefined();
+    expect(pizza.cookware[0]!.span).toBeDefined();
+
+    const mixing = pizza.sections[2]!;
+    const step = mixing.content[0]!;
+    expect(mixing.span).toBeUndefined();
+    expect(step.span).toBeUndefined();
+    expect(step.type === "step" && step.items.filter((i) => i.span)).toEqual(
+      [],
+    );
+    expect(pizza.ingredients.slice(3).filter((i) => i.span)).toEqual([]);
+    expect(pizza.cookware[2]!.span).toBeUndefined();
+    expect(pizza.timers[1]!.span).toBeUndefined();
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { UnitRegistry } from "../src/classes/unit_registry";
+import type { UnitDefinition } from "../src/types";
+
+const metricCup: UnitDefinition = {
+  name: "cup",
+  type: "volume",
+  system: "metric",
+  aliases: ["cups"],
+  toBase: 250,
+};
+
+describe("UnitRegistry", () => {
+  it("should include the built-in units by default", () => {
+    const registry = new UnitRegistry();
+    expect(registry.get(" Grams")?.name).toBe("g");
+    expect(registry.get("cup")?.toBase).toBe(236.588);
+    expect(registry.get()).toBeUndefined();
+    expect(registry.units.length).toBeGreaterThan(10);
+    expect(new UnitRegistry(false).units).toEqual([]);
+  });
+
+  it("should add units and replace existing ones", () => {
+    const registry = new UnitRegistry();
+    registry.add(metricCup, {
+      name: "pinch",
+      type: "pinch",
+      system: "metric",
+      aliases: ["pinches"],
+      toBase: 1,
+    });
+    expect(registry.get("cups")).toEqual(metricCup);
+    expect(registry.units.filter((unit) => unit.name === "cup")).toHaveLength(
+      1,
+    );
+    expect(registry.get("pinches")?.type).toBe("pinch");
+  });
+
+  it("should give precedence to the aliases of added units", () => {
+    const registry = new UnitRegistry();
+    registry.add({
+      name: "T",
+      type: "volume",
+      system: "metric",
+      aliases: ["tablespoon"],
+      toBase: 15,
+    });
+    expect(registry.get("tablespoon")?.name).toBe("T");
+    expect(registry.get("tablespoons")?.name).toBe("tbsp");
+  });
+
+  it("should remove units", () => {
+    const registry = new UnitRegistry();
+    registry.remove("kilograms");
+    expect(registry.get("kg")).toBeUndefined();
+    expect(registry.get("kilo")).toBeUndefined();
+    expect(registry.get("g")).toBeDefined();
+  });
+
+  it("should reject invalid conversion factors", () => {
+    const registry = new UnitRegistry();
+    expect(() => registry.add({ ...metricCup, toBase: 0 })).toThrowError(
+      "Invalid conversion factor for unit cup: 0",
+    );
+  });
+
+  it("should create a localized copy of the registry", () => {
+    const registry = new UnitRegistry();
+    const localized = registry.localize({
+      units: { tbsp: ["EL"], unknown: ["XY"] },
+      decimalSeparator: ",",
+      groupSeparators: ["."],
+    });
+    expect(localized.get("el")?.name).toBe("tbsp");
+    expect(localized.get("tablespoon")?.name).toBe("tbsp");
+    expect(localized.get("XY")).toBeUndefined();
+    expect(registry.get("EL")).toBeUndefined();
+  });
+});
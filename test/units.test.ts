@@ -1,4 +1,5 @@
 import { describe, it, expect } from "vitest";
+import Big from "big.js";
 import {
   addQuantities,
   getDefaultQuantityValue,
@@ -10,7 +11,12 @@ import {
   addQuantityValues,
   multiplyNumericValue,
   multiplyQuantityValue,
+  convertQuantityToSystem,
+  humanizeQuantity,
+  formatQuantity,
+  subtractQuantities,
 } from "../src/units";
+import { UnitRegistry } from "../src/classes/unit_registry";
 import type { DecimalValue, FixedValue, FractionValue } from "../src/types";
 
 describe("normalizeUnit", () => {
@@ -526,6 +532,118 @@ describe("addQuantities", () => {
   });
 });
 
+describe("addQuantities with a density", () => {
+  it("should add a mass and a volume, converting the volume into a mass", () => {
+    expect(
+      addQuantities(
+        {
+          value: { type: "fixed", value: { type: "decimal", value: 1 } },
+          unit: "l",
+        },
+        {
+          value: { type: "fixed", value: { type: "decimal", value: 1 } },
+          unit: "kg",
+        },
+        { density: 0.5 },
+      ),
+    ).toEqual({
+      value: { type: "fixed", value: { type: "decimal", value: 1.5 } },
+      unit: "kg",
+    });
+  });
+
+  it("should still not add counts to masses or volumes", () => {
+    expect(() =>
+      addQuantities(
+        {
+          value: { type: "fixed", value: { type: "decimal", value: 1 } },
+          unit: "piece",
+        },
+        {
+          value: { type: "fixed", value: { type: "decimal", value: 1 } },
+          unit: "kg",
+        },
+        { density: 0.5 },
+      ),
+    ).toThrow(IncompatibleUnitsError);
+  });
+});
+
+describe("subtractQuantities", () => {
+  const q = (value: number, unit?: string) => ({
+    value: {
+      type: "fixed" as const,
+      value: { type: "decimal" as const, value },
+    },
+    unit,
+  });
+
+  it("should subtract quantities in the unit of the first one", () => {
+    expect(subtractQuantities(q(1, "kg"), q(250, "g"))).toEqual(q(0.75, "kg"));
+    expect(subtractQuantities(q(3), q(1))).toEqual(q(2));
+    expect(subtractQuantities(q(3), q(1, "g"))).toEqual(q(2));
+    expect(subtractQuantities(q(3, "g"), q(1))).toEqual(q(2, "g"));
+    expect(subtractQuantities(q(3, "G"), q(1, "g"))).toEqual(q(2, "G"));
+  });
+
+  it("should keep fractions", () => {
+    expect(
+      subtractQuantities(
+        {
+          value: { type: "fixed", value: { type: "fraction", num: 1, den: 2 } },
+          unit: "cup",
+        },
+        {
+          value: { type: "fixed", value: { type: "fraction", num: 1, den: 3 } },
+          unit: "cup",
+        },
+      ),
+    ).toEqual({
+      value: { type: "fixed", value: { type: "fraction", num: 1, den: 6 } },
+      unit: "cup",
+    });
+  });
+
+  it("should clamp the result at zero", () => {
+    expect(subtractQuantities(q(100, "g"), q(1, "kg"))).toEqual(q(0, "g"));
+  });
+
+  it("should cover all the possible differences of ranges", () => {
+    const range = (min: number, max: number) => ({
+      value: {
+        type: "range" as const,
+        min: { type: "decimal" as const, value: min },
+        max: { type: "decimal" as const, value: max },
+      },
+      unit: "g",
+    });
+    expect(subtractQuantities(range(2, 4), q(1, "g"))).toEqual(range(1, 3));
+    expect(subtractQuantities(range(2, 4), range(1, 2))).toEqual(range(0, 3));
+    expect(subtractQuantities(q(3, "g"), range(1, 2))).toEqual(range(1, 2));
+    expect(subtractQuantities(range(2, 4), q(5, "g"))).toEqual(q(0, "g"));
+  });
+
+  it("should subtract a mass from a volume and vice versa with a density", () => {
+    expect(
+      subtractQuantities(q(1, "l"), q(250, "g"), { density: 0.5 }),
+    ).toEqual(q(0.5, "l"));
+    expect(subtractQuantities(q(1, "kg"), q(1, "cup"), { density: 1 })).toEqual(
+      q(0.76, "kg"),
+    );
+    expect(() => subtractQuantities(q(1, "l"), q(250, "g"))).toThrow(
+      IncompatibleUnitsError,
+    );
+  });
+
+  it("should not subtract text values", () => {
+    expect(() =>
+      subtractQuantities(q(1), {
+        value: { type: "fixed", value: { type: "text", value: "some" } },
+      }),
+    ).toThrow(CannotAddTextValueError);
+  });
+});
+
 describe("getDefaultQuantityValue + addQuantities", () => {
   it("should preseve fractions", () => {
     expect(
@@ -586,4 +704,454 @@ describe("multiplyQuantityValue", () => {
       value: { type: "decimal", value: 3.6 },
     });
   });
+
+  it("should keep fractions with small denominators only", () => {
+    const val: FixedValue = {
+      type: "fixed",
+      value: { type: "fraction", num: 1, den: 2 },
+    };
+    expect(multiplyQuantityValue(val, Big(4).div(3))).toEqual({
+      type: "fixed",
+      value: { type: "fraction", num: 2, den: 3 },
+    });
+    expect(multiplyQuantityValue(val, 1.37)).toEqual({
+      type: "fixed",
+      value: { type: "decimal", value: 0.69 },
+    });
+  });
+});
+
+describe("convertQuantityToSystem", () => {
+  const fixed = (value: number): FixedValue => ({
+    type: "fixed",
+    value: { type: "decimal", value },
+  });
+
+  it("should convert metric quantities to the US system", () => {
+    expect(
+      convertQuantityToSystem({ value: fixed(500), unit: "g" }, "us"),
+    ).toEqual({
+      value: fixed(1.1),
+      unit: "lb",
+    });
+    expect(
+      convertQuantityToSystem({ value: fixed(100), unit: "g" }, "us"),
+    ).toEqual({
+      value: fixed(3.53),
+      unit: "oz",
+    });
+    expect(
+      convertQuantityToSystem({ value: fixed(250), unit: "ml" }, "us"),
+    ).toEqual({
+      value: fixed(1),
+      unit: "cup",
+    });
+    expect(
+      convertQuantityToSystem({ value: fixed(120), unit: "ml" }, "us"),
+    ).toEqual({
+      value: { type: "fixed", value: { type: "fraction", num: 1, den: 2 } },
+      unit: "cup",
+    });
+    expect(
+      convertQuantityToSystem({ value: fixed(1), unit: "ml" }, "us"),
+    ).toEqual({
+      value: { type: "fixed", value: { type: "fraction", num: 1, den: 4 } },
+      unit: "tsp",
+    });
+    expect(
+      convertQuantityToSystem({ value: fixed(0.5), unit: "ml" }, "us"),
+    ).toEqual({
+      value: fixed(0.1),
+      unit: "tsp",
+    });
+    expect(
+      convertQuantityToSystem({ value: fixed(2), unit: "l" }, "us"),
+    ).toEqual({
+      value: fixed(2.11),
+      unit: "quart",
+    });
+  });
+
+  it("should convert metric quantities to the imperial system", () => {
+    expect(
+      convertQuantityToSystem({ value: fixed(250), unit: "ml" }, "imperial"),
+    ).toEqual({ value: fixed(8.8), unit: "imp-fl-oz" });
+    expect(
+      convertQuantityToSystem({ value: fixed(2), unit: "l" }, "imperial"),
+    ).toEqual({ value: fixed(3.52), unit: "imp-pint" });
+    expect(
+      convertQuantityToSystem({ value: fixed(5), unit: "l" }, "imperial"),
+    ).toEqual({ value: fixed(1.1), unit: "imp-gallon" });
+  });
+
+  it("should convert imperial quantities to the metric system", () => {
+    expect(
+      convertQuantityToSystem({ value: fixed(1), unit: "cup" }, "metric"),
+    ).toEqual({ value: fixed(237), unit: "ml" });
+    expect(
+      convertQuantityToSystem({ value: fixed(3), unit: "lb" }, "metric"),
+    ).toEqual({ value: fixed(1.36), unit: "kg" });
+    expect(
+      convertQuantityToSystem(
+        {
+          value: {
+            type: "range",
+            min: { type: "fraction", num: 1, den: 2 },
+            max: { type: "decimal", value: 1 },
+          },
+          unit: "pounds",
+        },
+        "metric",
+      ),
+    ).toEqual({
+      value: {
+        type: "range",
+        min: { type: "decimal", value: 227 },
+        max: { type: "decimal", value: 454 },
+      },
+      unit: "g",
+    });
+  });
+
+  it("should leave quantities which cannot or need not be converted as-is", () => {
+    const quantities = [
+      { value: fixed(2), unit: "kg" },
+      { value: fixed(1), unit: "tbsp" },
+      { value: fixed(2), unit: "pieces" },
+      { value: fixed(1), unit: "bunch" },
+      { value: fixed(1) },
+      {
+        value: { type: "fixed", value: { type: "text", value: "some" } },
+        unit: "g",
+      } as const,
+    ];
+    for (const quantity of quantities) {
+      expect(convertQuantityToSystem(quantity, "metric")).toBe(quantity);
+    }
+    expect(
+      convertQuantityToSystem({ value: fixed(1), unit: "tsp" }, "us"),
+    ).toEqual({ value: fixed(1), unit: "tsp" });
+    expect(
+      convertQuantityToSystem({ value: fixed(1), unit: "pint" }, "us"),
+    ).toEqual({ value: fixed(1), unit: "pint" });
+  });
+
+  it("should convert between US customary and imperial volumes", () => {
+    expect(
+      convertQuantityToSystem({ value: fixed(2), unit: "cup" }, "imperial"),
+    ).toEqual({ value: fixed(16.7), unit: "imp-fl-oz" });
+    expect(
+      convertQuantityToSystem({ value: fixed(1), unit: "gallon" }, "imperial"),
+    ).toEqual({ value: fixed(6.66), unit: "imp-pint" });
+    expect(
+      convertQuantityToSystem({ value: fixed(1), unit: "imp-pint" }, "us"),
+    ).toEqual({
+      value: { type: "fixed", value: { type: "fraction", num: 5, den: 2 } },
+      unit: "cup",
+    });
+    expect(
+      convertQuantityToSystem({ value: fixed(1), unit: "lb" }, "imperial"),
+    ).toEqual({ value: fixed(1), unit: "lb" });
+  });
+});
+
+describe("humanizeQuantity", () => {
+  const fixed = (value: number): FixedValue => ({
+    type: "fixed",
+    value: { type: "decimal", value },
+  });
+
+  it("should pick the most readable unit of the same system", () => {
+    expect(humanizeQuantity({ value: fixed(1500), unit: "g" })).toEqual({
+      value: fixed(1.5),
+      unit: "kg",
+    });
+    expect(humanizeQuantity({ value: fixed(0.0625), unit: "kg" })).toEqual({
+      value: fixed(62.5),
+      unit: "g",
+    });
+    expect(humanizeQuantity({ value: fixed(48), unit: "tsp" })).toEqual({
+      value: fixed(1),
+      unit: "cup",
+    });
+    expect(humanizeQuantity({ value: fixed(0.25), unit: "tbsp" })).toEqual({
+      value: { type: "fixed", value: { type: "fraction", num: 3, den: 4 } },
+      unit: "tsp",
+    });
+    expect(humanizeQuantity({ value: fixed(24), unit: "oz" })).toEqual({
+      value: fixed(1.5),
+      unit: "lb",
+    });
+    expect(
+      humanizeQuantity({
+        value: {
+          type: "range",
+          min: { type: "decimal", value: 1000 },
+          max: { type: "decimal", value: 1500 },
+        },
+        unit: "millilitres",
+      }),
+    ).toEqual({
+      value: {
+        type: "range",
+        min: { type: "decimal", value: 1 },
+        max: { type: "decimal", value: 1.5 },
+      },
+      unit: "l",
+    });
+  });
+
+  it("should not mix imperial and US customary volumes", () => {
+    expect(humanizeQuantity({ value: fixed(40), unit: "imp-fl-oz" })).toEqual({
+      value: fixed(2),
+      unit: "imp-pint",
+    });
+    expect(
+      humanizeQuantity({ value: fixed(0.5), unit: "imperial pints" }),
+    ).toEqual({ value: fixed(10), unit: "imp-fl-oz" });
+    expect(humanizeQuantity({ value: fixed(8), unit: "cups" })).toEqual({
+      value: fixed(2),
+      unit: "quart",
+    });
+  });
+
+  it("should leave quantities already in their most readable unit as-is", () => {
+    const quantities = [
+      { value: fixed(1.2345), unit: "kg" },
+      { value: fixed(250), unit: "grams" },
+      { value: fixed(2), unit: "pieces" },
+      { value: fixed(1), unit: "bunch" },
+      { value: fixed(1) },
+      {
+        value: { type: "fixed", value: { type: "text", value: "some" } },
+        unit: "g",
+      } as const,
+    ];
+    for (const quantity of quantities) {
+      expect(humanizeQuantity(quantity)).toBe(quantity);
+    }
+  });
+
+  it("should follow the preferred units", () => {
+    const units = [
+      { name: "g", min: 0 },
+      { name: "kg", min: 2 },
+      { name: "cl", min: 0 },
+    ];
+    expect(
+      humanizeQuantity({ value: fixed(1.5), unit: "kg" }, { units }),
+    ).toEqual({
+      value: fixed(1500),
+      unit: "g",
+    });
+    expect(
+      humanizeQuantity({ value: fixed(500), unit: "ml" }, { units }),
+    ).toEqual({
+      value: fixed(50),
+      unit: "cl",
+    });
+    // No preferred unit of the same system
+    const quantity = { value: fixed(3), unit: "cups" };
+    expect(humanizeQuantity(quantity, { units })).toBe(quantity);
+  });
+});
+
+describe("quantity math with a unit registry", () => {
+  const fixed = (value: number): FixedValue => ({
+    type: "fixed",
+    value: { type: "decimal", value },
+  });
+  const units = new UnitRegistry();
+  units.add(
+    {
+      name: "cup",
+      type: "volume",
+      system: "metric",
+      aliases: ["cups"],
+      toBase: 250,
+    },
+    {
+      name: "go",
+      type: "volume",
+      system: "japanese",
+      aliases: [],
+      toBase: 180,
+    },
+    {
+      name: "pinch",
+      type: "spice",
+      system: "japanese",
+      aliases: [],
+      toBase: 1,
+    },
+    {
+      name: "dash",
+      type: "spice",
+      system: "imperial",
+      aliases: [],
+      toBase: 2,
+    },
+  );
+
+  it("should normalize units of the registry", () => {
+    expect(normalizeUnit("go", units)?.system).toBe("japanese");
+    expect(normalizeUnit("go")).toBeUndefined();
+  });
+
+  it("should add quantities with the units of the registry", () => {
+    expect(
+      addQuantities(
+        { value: fixed(1), unit: "cup" },
+        { value: fixed(250), unit: "ml" },
+        { units },
+      ),
+    ).toEqual({ value: fixed(2), unit: "cup" });
+    expect(
+      addQuantities(
+        { value: fixed(1), unit: "go" },
+        { value: fixed(1), unit: "cup" },
+        { units },
+      ),
+    ).toEqual({ value: fixed(0.43), unit: "l" });
+    // No metric unit of the type: the biggest unit of the two is used
+    expect(
+      addQuantities(
+        { value: fixed(2), unit: "pinch" },
+        { value: fixed(1), unit: "dash" },
+        { units },
+      ),
+    ).toEqual({ value: fixed(2), unit: "dash" });
+    expect(() =>
+      addQuantities(
+        { value: fixed(1), unit: "pinch" },
+        { value: fixed(1), unit: "g" },
+        { units, density: 1 },
+      ),
+    ).toThrow(IncompatibleUnitsError);
+  });
+
+  it("should convert and humanize quantities with the units of the registry", () => {
+    expect(
+      convertQuantityToSystem({ value: fixed(2), unit: "go" }, "metric", units),
+    ).toEqual({ value: fixed(360), unit: "ml" });
+    expect(
+      convertQuantityToSystem({ value: fixed(1), unit: "pinch" }, "us", units),
+    ).toEqual({ value: fixed(1), unit: "pinch" });
+    expect(
+      humanizeQuantity({ value: fixed(1000), unit: "ml" }, {}, units),
+    ).toEqual({ value: fixed(1), unit: "l" });
+    // The metric cup is not a target of the US system anymore
+    expect(
+      humanizeQuantity({ value: fixed(48), unit: "tsp" }, {}, units),
+    ).toEqual({ value: fixed(16), unit: "tbsp" });
+  });
+
+  it("should not convert to units missing from the registry", () => {
+    const metricOnly = new UnitRegistry(false);
+    metricOnly.add({
+      name: "g",
+      type: "mass",
+      system: "metric",
+      aliases: [],
+      toBase: 1,
+    });
+    const quantity = { value: fixed(1), unit: "g" };
+    expect(convertQuantityToSystem(quantity, "us", metricOnly)).toBe(quantity);
+  });
+});
+
+describe("formatQuantity", () => {
+  const decimal = (value: number): FixedValue => ({
+    type: "fixed",
+    value: { type: "decimal", value },
+  });
+  const fraction = (num: number, den: number): FixedValue => ({
+    type: "fixed",
+    value: { type: "fraction", num, den },
+  });
+
+  it("should render decimals with the given precision and decimal separator", () => {
+    expect(formatQuantity(decimal(2))).toBe("2");
+    expect(formatQuantity(decimal(1.23456), "kg")).toBe("1.23 kg");
+    expect(formatQuantity(decimal(1.23456), "kg", { precision: 1 })).toBe(
+      "1.2 kg",
+    );
+    expect(formatQuantity(decimal(1.5), "kg", { locale: "de-DE" })).toBe(
+      "1,5 kg",
+    );
+    expect(formatQuantity(decimal(1.5), "kg", { locale: "it" })).toBe("1.5 kg");
+  });
+
+  it("should render fractions", () => {
+    expect(formatQuantity(fraction(1, 2), "cup")).toBe("1/2 cup");
+    expect(formatQuantity(fraction(2, 4))).toBe("1/2");
+    expect(formatQuantity(fraction(4, 2))).toBe("2");
+    expect(formatQuantity(fraction(3, 2), "cup")).toBe("1 1/2 cups");
+    expect(formatQuantity(fraction(3, 2), "", { mixedNumbers: false })).toBe(
+      "3/2",
+    );
+    expect(formatQuantity(fraction(3, 2), "", { fractions: "unicode" })).toBe(
+      "1 ½",
+    );
+    expect(formatQuantity(fraction(2, 7), "", { fractions: "unicode" })).toBe(
+      "2/7",
+    );
+    expect(
+      formatQuantity(fraction(1, 3), "", {
+        fractions: "decimal",
+        locale: "fr",
+      }),
+    ).toBe("0,33");
+  });
+
+  it("should render ranges and texts", () => {
+    expect(
+      formatQuantity(
+        {
+          type: "range",
+          min: { type: "decimal", value: 1 },
+          max: { type: "fraction", num: 5, den: 2 },
+        },
+        "cups",
+        { fractions: "unicode" },
+      ),
+    ).toBe("1–2 ½ cups");
+    expect(
+      formatQuantity(
+        {
+          type: "range",
+          min: { type: "fraction", num: 1, den: 4 },
+          max: { type: "fraction", num: 1, den: 2 },
+        },
+        "cups",
+        { rangeSeparator: " to " },
+      ),
+    ).toBe("1/4 to 1/2 cup");
+    expect(
+      formatQuantity(
+        { type: "fixed", value: { type: "text", value: "a few" } },
+        "cups",
+      ),
+    ).toBe("a few cups");
+  });
+
+  it("should pluralize known units", () => {
+    expect(formatQuantity(decimal(2), "cup")).toBe("2 cups");
+    expect(formatQuantity(decimal(1), "cups")).toBe("1 cup");
+    expect(formatQuantity(decimal(2), "Teaspoon")).toBe("2 teaspoons");
+    expect(formatQuantity(decimal(2), "tsp")).toBe("2 tsp");
+    expect(formatQuantity(decimal(2), "handful")).toBe("2 handful");
+    expect(formatQuantity(decimal(2), "cup", { pluralize: false })).toBe(
+      "2 cup",
+    );
+    const units = new UnitRegistry();
+    units.add({
+      name: "pinch",
+      type: "pinch",
+      system: "metric",
+      aliases: ["pinches"],
+      toBase: 1,
+    });
+    expect(formatQuantity(decimal(3), "pinch", { units })).toBe("3 pinches");
+  });
 });